@@ -1,8 +1,10 @@
 /**
  * convex.js  –  Async ES module HTTP client for the Convex backend.
  *
- * Env var required:
- *   CONVEX_URL  –  e.g. https://happy-animal-123.convex.cloud
+ * Env vars required:
+ *   CONVEX_URL      –  e.g. https://happy-animal-123.convex.cloud
+ *   BOT_API_SECRET  –  same value as on the Convex deployment; sent as
+ *                      `botSecret` with every mutation (convex/lib/auth.ts)
  */
 
 function getConvexUrl() {
@@ -11,8 +13,14 @@ function getConvexUrl() {
   return url.replace(/\/$/, '');
 }
 
+function getBotSecret() {
+  const secret = process.env.BOT_API_SECRET;
+  if (!secret) throw new Error('Missing env var: BOT_API_SECRET');
+  return secret;
+}
+
 export async function convexMutation(path, args) {
-  return _convexPost('/api/mutation', path, args);
+  return _convexPost('/api/mutation', path, { ...args, botSecret: getBotSecret() });
 }
 
 export async function convexQuery(path, args) {
@@ -67,8 +75,12 @@ export async function dbMarkOrganizeDone(telegramId) {
   return convexMutation('users:markOrganizeSessionDone', { telegramId: String(telegramId) });
 }
 
-export async function dbListUsersWithPendingOrganize() {
-  return convexQuery('users:listUsersWithPendingOrganize', {});
+// quietHours: { start, end } in local hours, or null to turn them off
+export async function dbSetQuietHours(telegramId, quietHours) {
+  return convexMutation('users:setUserSettings', {
+    telegramId: String(telegramId),
+    quietHours,
+  });
 }
 
 // ─── Goal helpers ─────────────────────────────────────────────────────────────
@@ -109,8 +121,11 @@ export async function dbListCompleted(convexUserId) {
   return convexQuery('activities:listCompletedActivities', { userId: convexUserId });
 }
 
-export async function dbOrganizeActivity(activityDocId, opts) {
+// Mutations on existing docs take the acting user's telegramId so the backend
+// can check ownership (convex/lib/auth.ts).
+export async function dbOrganizeActivity(telegramId, activityDocId, opts) {
   return convexMutation('activities:organizeActivity', {
+    telegramId: String(telegramId),
     activityDocId,
     goalId:        opts.goalId       || undefined,
     incup:         opts.incup        || '',
@@ -126,16 +141,38 @@ export async function dbOrganizeActivity(activityDocId, opts) {
   });
 }
 
-export async function dbStartFocus(activityDocId) {
-  return convexMutation('activities:startFocusSession', { activityDocId });
+export async function dbStartFocus(telegramId, activityDocId) {
+  return convexMutation('activities:startFocusSession', { telegramId: String(telegramId), activityDocId });
+}
+
+export async function dbFinishFocus(telegramId, activityDocId) {
+  return convexMutation('activities:finishFocusSession', { telegramId: String(telegramId), activityDocId });
+}
+
+export async function dbEvaluateActivity(telegramId, activityDocId, feelingAfter) {
+  return convexMutation('activities:evaluateActivity', { telegramId: String(telegramId), activityDocId, feelingAfter });
+}
+
+// ─── Life wheel helpers ───────────────────────────────────────────────────────
+
+export async function dbRecordLifeRatings(telegramId, ratings, note) {
+  return convexMutation('lifeWheel:recordLifeRatings', {
+    telegramId: String(telegramId), ratings, note: note || undefined,
+  });
+}
+
+export async function dbGetGapSuggestions(convexUserId, days) {
+  return convexQuery('lifeWheel:getGapSuggestions', { userId: convexUserId, days: days || undefined });
 }
 
-export async function dbFinishFocus(activityDocId) {
-  return convexMutation('activities:finishFocusSession', { activityDocId });
+// ─── Revive helpers ───────────────────────────────────────────────────────────
+
+export async function dbReviveWithChrysolite(telegramId) {
+  return convexMutation('users:reviveWithChrysolite', { telegramId: String(telegramId) });
 }
 
-export async function dbEvaluateActivity(activityDocId, feelingAfter) {
-  return convexMutation('activities:evaluateActivity', { activityDocId, feelingAfter });
+export async function dbStartRecoveryQuest(telegramId) {
+  return convexMutation('activities:startRecoveryQuest', { telegramId: String(telegramId) });
 }
 
 // ─── Habit helpers ────────────────────────────────────────────────────────────
@@ -153,14 +190,50 @@ export async function dbListHabits(convexUserId) {
   return convexQuery('habits:listHabits', { userId: convexUserId });
 }
 
-export async function dbLogHabit(habitDocId, difficultyLevel, feelingBefore, feelingAfter) {
+export async function dbLogHabit(telegramId, habitDocId, difficultyLevel, feelingBefore, feelingAfter) {
   return convexMutation('habits:logHabitSession', {
-    habitDocId, difficultyLevel,
+    telegramId: String(telegramId), habitDocId, difficultyLevel,
     feelingBefore: feelingBefore || undefined,
     feelingAfter:  feelingAfter  || undefined,
   });
 }
 
+// ─── Planning helpers ─────────────────────────────────────────────────────────
+
+export async function dbPlanDay(convexUserId, minutes, lifeAreas) {
+  return convexQuery('planner:planMyDay', {
+    userId: convexUserId, minutes, lifeAreas: lifeAreas?.length ? lifeAreas : undefined,
+  });
+}
+
+// ─── Weekly review helpers ────────────────────────────────────────────────────
+
+export async function dbListWeeklyReviews(convexUserId, limit) {
+  return convexQuery('weeklyReviews:listWeeklyReviews', { userId: convexUserId, limit });
+}
+
+export async function dbPreviewWeeklyReview(convexUserId) {
+  return convexQuery('weeklyReviews:previewWeeklyReview', { userId: convexUserId });
+}
+
+// ─── Recurring helpers ────────────────────────────────────────────────────────
+
+export async function dbCreateRecurring(telegramId, rule, activity) {
+  return convexMutation('recurring:createRecurringTemplate', { telegramId: String(telegramId), rule, activity });
+}
+
+export async function dbListRecurring(convexUserId) {
+  return convexQuery('recurring:listRecurringTemplates', { userId: convexUserId });
+}
+
+export async function dbSetRecurringActive(telegramId, templateDocId, active) {
+  return convexMutation('recurring:setRecurringTemplateActive', { telegramId: String(telegramId), templateDocId, active });
+}
+
+export async function dbDeleteRecurring(telegramId, templateDocId) {
+  return convexMutation('recurring:deleteRecurringTemplate', { telegramId: String(telegramId), templateDocId });
+}
+
 // ─── Conversation state ───────────────────────────────────────────────────────
 
 export async function dbGetState(telegramId) {
@@ -0,0 +1,42 @@
+/**
+ * convex/achievements.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Badges: the achievement catalogue (lib/achievements.ts) merged with what a
+ * user has unlocked. Unlocking itself happens inside the lifecycle
+ * mutations via lib/unlocks.ts.
+ */
+
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { ACHIEVEMENTS, achievementProgress } from "./lib/achievements";
+import { collectAchievementStats } from "./lib/unlocks";
+
+// ─── Queries ──────────────────────────────────────────────────────────────────────
+
+/**
+ * listAchievements
+ * Every catalogue entry with its unlock date (if any) and progress towards
+ * the target, in catalogue order.
+ */
+export const listAchievements = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const stats = await collectAchievementStats(ctx, args.userId);
+    const rows = await ctx.db
+      .query("achievements")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const unlockedAt = new Map(rows.map((r) => [r.key, r.unlockedAt]));
+
+    return ACHIEVEMENTS.map((a) => ({
+      key: a.key,
+      name: a.name,
+      emoji: a.emoji,
+      description: a.description,
+      target: a.target,
+      current: Math.min(a.metric(stats), a.target),
+      progress: achievementProgress(a, stats),
+      unlockedAt: unlockedAt.get(a.key),
+    }));
+  },
+});
@@ -5,29 +5,46 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { nextActivityId } from "./lib/ids";
+import { assertBotSecret, authError, callerArgs, requireOwned, requireUser } from "./lib/auth";
+import { openSession, closeOpenSession, focusedMinutes } from "./lib/sessions";
+import { assertEvaluable, awardUser, reviveUser } from "./lib/award";
+import { checkAchievements } from "./lib/unlocks";
+import { detectLevelUp } from "./lib/levels";
+import { blockedActivities } from "./lib/graph";
+import { countWaitingOn, rankActivities } from "./lib/recommend";
+import { assertUnblocked, assertValidDependency, loadOpenActivities, rollUpParents } from "./lib/subtasks";
+import { completeGoalsIfRuleMet } from "./lib/goalCompletion";
+import { normalizeIncup } from "./lib/incup";
 import * as xp from "./lib/xp";
+import * as hp from "./lib/hp";
 
 /* ====== CAPTURE ====== */
 export const captureActivity = mutation({
-  args: { userId: v.id("users"), activity: v.string(), link: v.optional(v.string()) },
-  handler: async (ctx, { userId, activity, link }) => {
+  args: { userId: v.id("users"), botSecret: v.string(), activity: v.string(), link: v.optional(v.string()) },
+  handler: async (ctx, { userId, botSecret, activity, link }) => {
+    assertBotSecret(botSecret);
     const activityId = await nextActivityId(ctx, userId);
-    const captureXp = xp.computeCaptureXp({ hasLink: !!link });
+    const user = await ctx.db.get(userId);
+    if (!user) throw new Error("User not found");
     const doc = await ctx.db.insert("activities", {
       userId, activityId, activity, link,
       status: "captured", capturedAt: Date.now(), updatedAt: Date.now(),
-      captureXp, totalXp: captureXp,
+      captureXp: 0, totalXp: 0,
     });
-    // Award XP to user
-    const user = await ctx.db.get(userId);
-    if (user) await ctx.db.patch(userId, { totalXp: user.totalXp + captureXp, updatedAt: Date.now() });
-    return { _id: doc, activityId, captureXp };
+    // Award XP to user (reduced while knocked out), then record what was credited
+    const { xp: captureXp, levelUp } = await awardUser(ctx, user, {
+      source: "capture", xp: xp.computeCaptureXp({ hasLink: !!link }), activityDocId: doc,
+    });
+    await ctx.db.patch(doc, { captureXp, totalXp: captureXp });
+    const achievements = await checkAchievements(ctx, userId, "capture");
+    return { _id: doc, activityId, captureXp, levelUp, achievements };
   },
 });
 
 /* ====== ORGANIZE ====== */
 export const organizeActivity = mutation({
   args: {
+    ...callerArgs,
     activityDocId: v.id("activities"),
     goalId: v.optional(v.string()),
     incup: v.string(),
@@ -42,84 +59,342 @@ export const organizeActivity = mutation({
     dependsOn: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const activity = await ctx.db.get(args.activityDocId);
-    if (!activity) throw new Error("Activity not found");
-    const orgXp = xp.computeOrganiseXp({
+    const { user, doc: activity } = await requireOwned(ctx, args, args.activityDocId);
+    if (args.dependsOn) await assertValidDependency(ctx, activity, args.dependsOn);
+    const incup = normalizeIncup(args.incup);
+    const { xp: orgXp, levelUp } = await awardUser(ctx, user, { source: "organise", activityDocId: args.activityDocId, xp: xp.computeOrganiseXp({
       category: args.category as xp.CategoryKey, horizon: args.horizon as xp.HorizonKey,
-      incup: args.incup, hasGoal: !!args.goalId, hasDeadline: !!args.deadline,
+      incup, hasGoal: !!args.goalId, hasDeadline: !!args.deadline,
       hasEstMinutes: !!args.estMinutes, mentalBlock: args.mentalBlock ?? false,
-    });
+    }) });
     await ctx.db.patch(args.activityDocId, {
-      goalId: args.goalId, incup: args.incup, lifeArea: args.lifeArea,
+      goalId: args.goalId, incup, lifeArea: args.lifeArea,
       horizon: args.horizon, exeType: args.exeType, category: args.category,
       deadline: args.deadline, estMinutes: args.estMinutes,
       mentalBlock: args.mentalBlock ?? false, feelingBefore: args.feelingBefore,
       dependsOn: args.dependsOn, status: "organized",
+      // A new deadline gets its own overdue check from the sweep
+      overdueAt: args.deadline !== activity.deadline ? undefined : activity.overdueAt,
       organiseXp: orgXp, totalXp: activity.totalXp + orgXp, updatedAt: Date.now(),
     });
-    const user = await ctx.db.get(activity.userId);
-    if (user) await ctx.db.patch(activity.userId, { totalXp: user.totalXp + orgXp, updatedAt: Date.now() });
-    return { organiseXp: orgXp };
+    const achievements = await checkAchievements(ctx, user._id, "organise");
+    return { organiseXp: orgXp, levelUp, achievements };
   },
 });
 
 /* ====== DO ====== */
+// Every focus run is a row in `sessions` (see lib/sessions.ts). An activity
+// can be focused on many times: start → pause → resume → … → finish, or
+// stopped without completing and picked up again later.
 export const startFocusSession = mutation({
-  args: { activityDocId: v.id("activities") },
-  handler: async (ctx, { activityDocId }) => {
-    await ctx.db.patch(activityDocId, { sessionStart: Date.now(), status: "in-progress", updatedAt: Date.now() });
+  args: {
+    ...callerArgs,
+    activityDocId: v.id("activities"),
+    // Optional check-in from the Mini App focus modal
+    feelingBefore: v.optional(v.union(v.literal("joyful"),v.literal("excited"),v.literal("hopeful"),v.literal("calm"),v.literal("curious"),v.literal("neutral"),v.literal("bored"),v.literal("anxious"),v.literal("frustrated"),v.literal("overwhelmed"),v.literal("defeated"))),
+    estMinutes: v.optional(v.number()),
+  },
+  handler: async (ctx, { activityDocId, feelingBefore, estMinutes, ...caller }) => {
+    const { doc: activity } = await requireOwned(ctx, caller, activityDocId);
+    if (activity.status !== "organized" && activity.status !== "in-progress") {
+      throw new Error(`Cannot focus on a ${activity.status} activity`);
+    }
+    if (activity.sessionStart !== undefined) throw new Error("Focus session already running");
+    await assertUnblocked(ctx, activity);
+    const now = Date.now();
+    await openSession(ctx, activity, now);
+    if (feelingBefore !== undefined || estMinutes !== undefined) {
+      await ctx.db.patch(activityDocId, {
+        ...(feelingBefore !== undefined ? { feelingBefore } : {}),
+        ...(estMinutes !== undefined ? { estMinutes } : {}),
+      });
+    }
+    return { sessionStart: now };
+  },
+});
+
+export const pauseFocusSession = mutation({
+  args: { ...callerArgs, activityDocId: v.id("activities"), reason: v.optional(v.string()) },
+  handler: async (ctx, { activityDocId, reason, ...caller }) => {
+    const { doc: activity } = await requireOwned(ctx, caller, activityDocId);
+    if (activity.sessionStart === undefined) throw new Error("No active session");
+    const now = Date.now();
+    // Activity stays in-progress; only the running session is closed
+    const actualMinutes = await closeOpenSession(ctx, activity, now, {
+      completedTask: false, interruptedReason: reason ?? "paused",
+    });
+    await ctx.db.patch(activityDocId, { actualMinutes, sessionStart: undefined, updatedAt: now });
+    return { actualMinutes };
+  },
+});
+
+export const resumeFocusSession = mutation({
+  args: { ...callerArgs, activityDocId: v.id("activities") },
+  handler: async (ctx, { activityDocId, ...caller }) => {
+    const { doc: activity } = await requireOwned(ctx, caller, activityDocId);
+    if (activity.status !== "in-progress") throw new Error("Activity is not paused");
+    if (activity.sessionStart !== undefined) throw new Error("Focus session already running");
+    await assertUnblocked(ctx, activity);
+    const now = Date.now();
+    await openSession(ctx, activity, now);
+    return { sessionStart: now };
+  },
+});
+
+// End the current run without completing the task — it goes back to the
+// ready list with the time spent so far kept on record.
+export const stopFocusSession = mutation({
+  args: { ...callerArgs, activityDocId: v.id("activities"), reason: v.optional(v.string()) },
+  handler: async (ctx, { activityDocId, reason, ...caller }) => {
+    const { doc: activity } = await requireOwned(ctx, caller, activityDocId);
+    if (activity.status !== "in-progress") throw new Error("Activity is not in progress");
+    const now = Date.now();
+    const actualMinutes = await closeOpenSession(ctx, activity, now, {
+      completedTask: false, interruptedReason: reason ?? "stopped",
+    });
+    await ctx.db.patch(activityDocId, {
+      actualMinutes, sessionStart: undefined, status: "organized", updatedAt: now,
+    });
+    return { actualMinutes };
   },
 });
 
 export const finishFocusSession = mutation({
-  args: { activityDocId: v.id("activities"), interruptedReason: v.optional(v.string()) },
-  handler: async (ctx, { activityDocId, interruptedReason }) => {
-    const activity = await ctx.db.get(activityDocId);
-    if (!activity || !activity.sessionStart) throw new Error("No active session");
+  args: { ...callerArgs, activityDocId: v.id("activities"), interruptedReason: v.optional(v.string()) },
+  handler: async (ctx, { activityDocId, interruptedReason, ...caller }) => {
+    const { user, doc: activity } = await requireOwned(ctx, caller, activityDocId);
+    if (activity.status !== "in-progress") throw new Error("No active session");
     const now = Date.now();
-    const actualMinutes = Math.round((now - activity.sessionStart) / 60000);
-    const isLate = activity.deadline ? now > activity.deadline : false;
+    // A recovery quest only revives after the time is actually put in; until
+    // then the session keeps running and the caller is told what's left
+    if (activity.isRecoveryQuest && hp.isKnockedOut(user)) {
+      const minutesLeft = hp.recoveryMinutesLeft(await focusedMinutes(ctx, activity, now));
+      if (minutesLeft > 0) return { recoveryPending: true as const, minutesLeft };
+    }
+    // interruptedReason is kept on the final session row (e.g. "finished early")
+    const actualMinutes = await closeOpenSession(ctx, activity, now, {
+      completedTask: true, interruptedReason,
+    });
     const doneResult = xp.computeDoneXp({
       organiseXp: activity.organiseXp ?? 0, completedAt: now,
       deadline: activity.deadline, mentalBlock: activity.mentalBlock ?? false,
       actualMinutes, estMinutes: activity.estMinutes,
     });
     const status = doneResult.isLate ? "complete-late" : "complete";
+    const award = await awardUser(ctx, user, {
+      source: "done", activityDocId,
+      xp: doneResult.doneXp, chrysolite: doneResult.chrysolite,
+      hpDelta: hp.completionHpDelta(doneResult.isLate),
+    }, now);
     await ctx.db.patch(activityDocId, {
       actualMinutes, completedAt: now, status, sessionStart: undefined,
-      doneXp: doneResult.doneXp, totalXp: activity.totalXp + doneResult.doneXp,
+      doneXp: award.xp, totalXp: activity.totalXp + award.xp,
       chrysolite: (activity.chrysolite ?? 0) + doneResult.chrysolite,
       updatedAt: now,
     });
-    const user = await ctx.db.get(activity.userId);
-    if (user) await ctx.db.patch(activity.userId, {
-      totalXp: user.totalXp + doneResult.doneXp,
-      chrysolite: user.chrysolite + doneResult.chrysolite,
-      hp: doneResult.isLate ? Math.max(0, user.hp - 10) : user.hp,
-      updatedAt: now,
+    const rolledUp = await rollUpParents(ctx, activity, now);
+    const goalsCompleted = await completeGoalsIfRuleMet(
+      ctx, user._id, [activity.goalId, ...rolledUp.map((r) => r.goalId)], now,
+    );
+    // Finishing a recovery quest is one of the two ways back from a knockout
+    let revived = false;
+    const updatedUser = (await ctx.db.get(user._id))!;
+    let userHp = updatedUser.hp;
+    if (activity.isRecoveryQuest && hp.isKnockedOut(updatedUser)) {
+      userHp = (await reviveUser(ctx, updatedUser, { activityDocId }, now)).hp;
+      revived = true;
+    }
+    return {
+      doneXp: award.xp, chrysolite: doneResult.chrysolite, status, actualMinutes,
+      hp: userHp, knockedOut: award.knockedOut, revived, rolledUp, goalsCompleted,
+      levelUp: detectLevelUp(user.totalXp, updatedUser.totalXp),
+      achievements: await checkAchievements(ctx, user._id, "done", now),
+    };
+  },
+});
+
+/* ====== ABANDON ====== */
+// Giving up on an activity costs HP scaled by its category (lib/hp.ts) and
+// takes back the XP it earned for being organised. Abandoned items stay on
+// record for review and can be restored; restoring returns the organise XP
+// but doesn't refund the HP.
+export const abandonActivity = mutation({
+  args: { ...callerArgs, activityDocId: v.id("activities"), reason: v.optional(v.string()) },
+  handler: async (ctx, { activityDocId, reason, ...caller }) => {
+    const { user, doc: activity } = await requireOwned(ctx, caller, activityDocId);
+    if (activity.status !== "captured" && activity.status !== "organized" && activity.status !== "in-progress") {
+      throw new Error(`Cannot abandon a ${activity.status} activity`);
+    }
+    const now = Date.now();
+    let actualMinutes = activity.actualMinutes;
+    if (activity.status === "in-progress") {
+      actualMinutes = await closeOpenSession(ctx, activity, now, {
+        completedTask: false, interruptedReason: "abandoned",
+      });
+    }
+    const xpLost = activity.organiseXp ?? 0;
+    await ctx.db.patch(activityDocId, {
+      status: "abandoned", abandonedAt: now, abandonReason: reason || undefined,
+      actualMinutes, sessionStart: undefined, totalXp: activity.totalXp - xpLost, updatedAt: now,
     });
-    return { doneXp: doneResult.doneXp, chrysolite: doneResult.chrysolite };
+    const award = await awardUser(ctx, user, {
+      source: "abandon", activityDocId, xp: -xpLost,
+      hpDelta: hp.abandonHpDelta(activity.category as xp.CategoryKey | undefined),
+    }, now);
+    // Dropping a project's last open subtask can still complete the project
+    const rolledUp = await rollUpParents(ctx, activity, now);
+    const goalsCompleted = await completeGoalsIfRuleMet(ctx, user._id, rolledUp.map((r) => r.goalId), now);
+    return {
+      hp: award.hp, hpLost: user.hp - award.hp, xpLost, knockedOut: award.knockedOut, rolledUp, goalsCompleted,
+    };
+  },
+});
+
+// Organised items go back to the ready list; items abandoned straight from
+// the inbox go back to "captured" since they were never organised.
+export const restoreActivity = mutation({
+  args: { ...callerArgs, activityDocId: v.id("activities") },
+  handler: async (ctx, { activityDocId, ...caller }) => {
+    const { user, doc: activity } = await requireOwned(ctx, caller, activityDocId);
+    if (activity.status !== "abandoned") throw new Error("Activity is not abandoned");
+    const status = activity.organiseXp !== undefined ? "organized" : "captured";
+    const now = Date.now();
+    // Give back what the abandon took; older abandons took nothing
+    const abandoned = await ctx.db.query("xpEvents")
+      .withIndex("by_activity", q => q.eq("activityDocId", activityDocId))
+      .order("desc")
+      .filter(q => q.eq(q.field("source"), "abandon"))
+      .first();
+    let totalXp = activity.totalXp;
+    if (abandoned && abandoned.xp < 0) {
+      totalXp += (await awardUser(ctx, user, { source: "organise", activityDocId, xp: -abandoned.xp }, now)).xp;
+    }
+    await ctx.db.patch(activityDocId, {
+      status, abandonedAt: undefined, abandonReason: undefined, totalXp, updatedAt: now,
+    });
+    return { status };
+  },
+});
+
+/* ====== BREAKDOWN ====== */
+// Splitting an activity makes it a project. Each subtask is captured into the
+// inbox with parentActivityId set and goes through the organize flow like any
+// other item. The project can't be focused on while a subtask is open
+// (lib/graph.ts) and completes itself when the last one closes (lib/subtasks.ts).
+export const breakdownActivity = mutation({
+  args: { ...callerArgs, activityDocId: v.id("activities"), subtasks: v.array(v.string()) },
+  handler: async (ctx, { activityDocId, subtasks, ...caller }) => {
+    const { user, doc: parent } = await requireOwned(ctx, caller, activityDocId);
+    if (parent.status !== "organized" && parent.status !== "in-progress") {
+      throw new Error(`Cannot break down a ${parent.status} activity`);
+    }
+    if (parent.sessionStart !== undefined) throw new Error("Pause the focus session first");
+    const titles = subtasks.map((s) => s.trim()).filter(Boolean);
+    if (titles.length === 0) throw new Error("No subtasks given");
+    const now = Date.now();
+    const createdIds: string[] = [];
+    let current = user;
+    for (const title of titles) {
+      const activityId = await nextActivityId(ctx, user._id);
+      const doc = await ctx.db.insert("activities", {
+        userId: user._id, activityId, activity: title, parentActivityId: parent.activityId,
+        status: "captured", capturedAt: now, updatedAt: now,
+        captureXp: 0, totalXp: 0,
+      });
+      const { xp: captureXp } = await awardUser(ctx, current, {
+        source: "capture", xp: xp.computeCaptureXp({ hasLink: false }), activityDocId: doc,
+      }, now);
+      await ctx.db.patch(doc, { captureXp, totalXp: captureXp });
+      current = (await ctx.db.get(user._id))!;
+      createdIds.push(activityId);
+    }
+    await ctx.db.patch(activityDocId, { exeType: "project", updatedAt: now });
+    return {
+      createdIds,
+      levelUp: detectLevelUp(user.totalXp, current.totalXp),
+      achievements: await checkAchievements(ctx, user._id, "capture", now),
+    };
+  },
+});
+
+/* ====== ENRICH ====== */
+// Lightweight edit from the Mini App "Enrich" modal. Unlike organizeActivity
+// this awards no XP — the item was already organised once.
+export const enrichActivity = mutation({
+  args: {
+    ...callerArgs,
+    activityDocId: v.id("activities"),
+    feelingBefore: v.optional(v.union(v.literal("joyful"),v.literal("excited"),v.literal("hopeful"),v.literal("calm"),v.literal("curious"),v.literal("neutral"),v.literal("bored"),v.literal("anxious"),v.literal("frustrated"),v.literal("overwhelmed"),v.literal("defeated"))),
+    estMinutes: v.optional(v.number()),
+    incup: v.optional(v.string()),
+  },
+  handler: async (ctx, { telegramId, botSecret, activityDocId, ...fields }) => {
+    await requireOwned(ctx, { telegramId, botSecret }, activityDocId);
+    const patch: Record<string, unknown> = { updatedAt: Date.now() };
+    if (fields.feelingBefore !== undefined) patch.feelingBefore = fields.feelingBefore;
+    if (fields.estMinutes !== undefined) patch.estMinutes = fields.estMinutes;
+    if (fields.incup !== undefined) patch.incup = normalizeIncup(fields.incup);
+    await ctx.db.patch(activityDocId, patch);
   },
 });
 
 /* ====== EVALUATE ====== */
 export const evaluateActivity = mutation({
   args: {
+    ...callerArgs,
     activityDocId: v.id("activities"),
     feelingAfter: v.union(v.literal("joyful"),v.literal("excited"),v.literal("hopeful"),v.literal("calm"),v.literal("curious"),v.literal("neutral"),v.literal("bored"),v.literal("anxious"),v.literal("frustrated"),v.literal("overwhelmed"),v.literal("defeated")),
   },
-  handler: async (ctx, { activityDocId, feelingAfter }) => {
-    const activity = await ctx.db.get(activityDocId);
-    if (!activity || !activity.doneXp) throw new Error("Activity not completed");
+  handler: async (ctx, { activityDocId, feelingAfter, ...caller }) => {
+    const { user, doc: activity } = await requireOwned(ctx, caller, activityDocId);
+    assertEvaluable(activity);
     const emotionDelta = xp.computeEmotionDelta(activity.feelingBefore, feelingAfter);
-    const evalXp = xp.computeEvaluateXp({ doneXp: activity.doneXp, emotionDelta });
+    const { xp: evalXp, hp: userHp, levelUp } = await awardUser(ctx, user, {
+      source: "evaluate", activityDocId,
+      xp: xp.computeEvaluateXp({ doneXp: activity.doneXp!, emotionDelta }),
+      hpDelta: hp.HP_DELTA.evaluation,
+    });
+    const totalXp = activity.totalXp + evalXp;
     await ctx.db.patch(activityDocId, {
       feelingAfter, emotionDelta, evaluateXp: evalXp,
-      totalXp: activity.totalXp + evalXp, updatedAt: Date.now(),
+      totalXp, updatedAt: Date.now(),
+    });
+    const achievements = await checkAchievements(ctx, user._id, "evaluate");
+    return {
+      evaluateXp: evalXp, emotionDelta, totalXp, chrysolite: activity.chrysolite ?? 0,
+      hp: userHp, levelUp, achievements,
+    };
+  },
+});
+
+/* ====== RECOVERY ====== */
+// A knocked-out user can earn their way back with a small pre-organised task
+// (lib/hp.ts RECOVERY_QUEST). It shows up in the ready list like any other
+// activity; finishFocusSession revives the user when it completes, once at
+// least RECOVERY_QUEST.estMinutes of focus have been logged on it.
+export const startRecoveryQuest = mutation({
+  args: callerArgs,
+  handler: async (ctx, caller) => {
+    const user = await requireUser(ctx, caller);
+    if (!hp.isKnockedOut(user)) throw authError("CONFLICT", "User is not knocked out");
+    const open = await ctx.db.query("activities")
+      .withIndex("by_user", q => q.eq("userId", user._id))
+      .filter(q => q.and(
+        q.eq(q.field("isRecoveryQuest"), true),
+        q.or(q.eq(q.field("status"), "organized"), q.eq(q.field("status"), "in-progress")),
+      ))
+      .first();
+    if (open) return { _id: open._id, activityId: open.activityId, created: false };
+    const activityId = await nextActivityId(ctx, user._id);
+    const now = Date.now();
+    const doc = await ctx.db.insert("activities", {
+      userId: user._id, activityId, activity: hp.RECOVERY_QUEST.activity,
+      horizon: "today", exeType: "task", category: "side-quest",
+      estMinutes: hp.RECOVERY_QUEST.estMinutes, isRecoveryQuest: true,
+      status: "organized", capturedAt: now, updatedAt: now,
+      captureXp: 0, organiseXp: 0, totalXp: 0,
     });
-    const user = await ctx.db.get(activity.userId);
-    if (user) await ctx.db.patch(activity.userId, { totalXp: user.totalXp + evalXp, updatedAt: Date.now() });
-    return { evaluateXp: evalXp, emotionDelta };
+    return { _id: doc, activityId, created: true };
   },
 });
 
@@ -142,6 +417,36 @@ export const listReadyActivities = query({
   },
 });
 
+export const listInProgressActivities = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    return ctx.db.query("activities")
+      .withIndex("by_user_status", q => q.eq("userId", userId).eq("status", "in-progress"))
+      .collect();
+  },
+});
+
+export const listFocusSessions = query({
+  args: { userId: v.id("users"), activityDocId: v.id("activities") },
+  handler: async (ctx, { userId, activityDocId }) => {
+    // Another user's activity id just finds nothing
+    const sessions = await ctx.db.query("sessions")
+      .withIndex("by_activity", q => q.eq("activityDocId", activityDocId))
+      .collect();
+    return sessions.filter(s => s.userId === userId);
+  },
+});
+
+export const listAbandonedActivities = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    const abandoned = await ctx.db.query("activities")
+      .withIndex("by_user_status", q => q.eq("userId", userId).eq("status", "abandoned"))
+      .collect();
+    return abandoned.sort((a, b) => (b.abandonedAt ?? 0) - (a.abandonedAt ?? 0));
+  },
+});
+
 export const listCompletedActivities = query({
   args: { userId: v.id("users") },
   handler: async (ctx, { userId }) => {
@@ -149,3 +454,44 @@ export const listCompletedActivities = query({
     return all.filter(a => a.status === "complete" || a.status === "complete-late").sort((a,b) => (b.completedAt??0) - (a.completedAt??0));
   },
 });
+
+export const listSubtasks = query({
+  args: { userId: v.id("users"), activityId: v.string() },
+  handler: async (ctx, { userId, activityId }) => {
+    return ctx.db.query("activities")
+      .withIndex("by_user_parent", q => q.eq("userId", userId).eq("parentActivityId", activityId))
+      .collect();
+  },
+});
+
+// Open activities that can't be focused on yet, with what each waits on
+export const listBlockedActivities = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    const blocked = blockedActivities(await loadOpenActivities(ctx, userId));
+    return [...blocked].map(([activityId, waitingOn]) => ({ activityId, waitingOn }));
+  },
+});
+
+// Ready activities ranked by what to do next, each with the reasons behind its rank
+export const recommendNextActivities = query({
+  args: { userId: v.id("users"), limit: v.optional(v.number()) },
+  handler: async (ctx, { userId, limit }) => {
+    const open = await loadOpenActivities(ctx, userId);
+    const blocked = blockedActivities(open);
+    const ranked = rankActivities(
+      open.filter(a => a.status === "organized"),
+      { now: Date.now(), blocked: new Set(blocked.keys()), waitingOn: countWaitingOn(blocked) },
+    );
+    return limit === undefined ? ranked : ranked.slice(0, limit);
+  },
+});
+
+export const getActivityByActivityId = query({
+  args: { userId: v.id("users"), activityId: v.string() },
+  handler: async (ctx, { userId, activityId }) => {
+    return ctx.db.query("activities")
+      .withIndex("by_user_activity_id", q => q.eq("userId", userId).eq("activityId", activityId))
+      .unique();
+  },
+});
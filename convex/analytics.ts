@@ -0,0 +1,87 @@
+/**
+ * convex/analytics.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Read-only analytics over a user's history for the Mini App Map tab.
+ * The maths lives in the pure libs (lib/estimation.ts, lib/mood.ts).
+ */
+
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { isDone } from "./lib/graph";
+import { loadActivities } from "./lib/subtasks";
+import { DEFAULT_EST_MINUTES } from "./lib/planner";
+import { correctionFor, estimationBreakdown } from "./lib/estimation";
+import { localDayKey } from "./lib/dates";
+import { moodBreakdown, moodSamples, moodTrend } from "./lib/mood";
+
+const DEFAULT_MOOD_WEEKS = 12;
+const MAX_MOOD_WEEKS = 52;
+
+/**
+ * getEstimationAccuracy
+ * Estimate vs actual time for every finished activity, overall and broken
+ * down by category, life area, type and mental block. With `activityId`,
+ * also suggests a calibrated estimate for that activity: its own estimate
+ * (or the 25-minute default) times the best-fitting correction factor.
+ */
+export const getEstimationAccuracy = query({
+  args: { userId: v.id("users"), activityId: v.optional(v.string()) },
+  handler: async (ctx, { userId, activityId }) => {
+    const all = await loadActivities(ctx, userId);
+    const breakdown = estimationBreakdown(
+      all
+        .filter((a) => isDone(a.status) && a.estMinutes !== undefined && a.actualMinutes !== undefined)
+        .map((a) => ({
+          estMinutes: a.estMinutes!,
+          actualMinutes: a.actualMinutes!,
+          category: a.category,
+          lifeArea: a.lifeArea,
+          exeType: a.exeType,
+          mentalBlock: a.mentalBlock ?? false,
+        })),
+    );
+
+    const activity = activityId ? all.find((a) => a.activityId === activityId) : undefined;
+    if (activityId && !activity) throw new Error(`Activity not found: ${activityId}`);
+    if (!activity) return { ...breakdown, suggestion: null };
+
+    const { correction, basis } = correctionFor(breakdown, activity);
+    const baseMinutes = activity.estMinutes ?? DEFAULT_EST_MINUTES;
+    return {
+      ...breakdown,
+      suggestion: { baseMinutes, correction, basis, minutes: Math.max(1, Math.round(baseMinutes * correction)) },
+    };
+  },
+});
+
+/**
+ * getMoodTrends
+ * Weekly mood averages over the last `weeks` weeks (default 12), and the
+ * average emotion delta per category, life area and habit across every
+ * evaluated activity and habit session, with which of them reliably lift
+ * or drain the user's mood.
+ */
+export const getMoodTrends = query({
+  args: { userId: v.id("users"), weeks: v.optional(v.number()) },
+  handler: async (ctx, { userId, weeks = DEFAULT_MOOD_WEEKS }) => {
+    if (!(Number.isInteger(weeks) && weeks >= 1 && weeks <= MAX_MOOD_WEEKS)) {
+      throw new Error(`Weeks must be a whole number from 1 to ${MAX_MOOD_WEEKS}`);
+    }
+    const user = await ctx.db.get(userId);
+    if (!user) throw new Error(`User not found: ${userId}`);
+    const timeZone = user.settings.timezone;
+
+    const [activities, habits, logs] = await Promise.all([
+      loadActivities(ctx, userId),
+      ctx.db.query("habits").withIndex("by_user", (q) => q.eq("userId", userId)).collect(),
+      ctx.db.query("habitLogs").withIndex("by_user", (q) => q.eq("userId", userId)).collect(),
+    ]);
+    const habitById = new Map(habits.map((h) => [h._id as string, h]));
+    const samples = moodSamples(activities, logs, habitById, timeZone);
+
+    return {
+      trend: moodTrend(samples, localDayKey(Date.now(), timeZone), weeks),
+      ...moodBreakdown(samples),
+    };
+  },
+});
@@ -0,0 +1,20 @@
+/**
+ * convex/crons.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Recurring background jobs.
+ */
+
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Flag activities whose deadline has passed, dock HP once per item and
+// remind the user (deadlines.ts).
+crons.interval("sweep overdue deadlines", { minutes: 15 }, internal.deadlines.sweepOverdue, {});
+
+// Create today's instance of each recurring template once its day starts
+// in the user's timezone (recurring.ts).
+crons.interval("create recurring activities", { hours: 1 }, internal.recurring.createDueInstances, {});
+
+export default crons;
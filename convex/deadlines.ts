@@ -0,0 +1,91 @@
+/**
+ * convex/deadlines.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Deadline sweep, run by crons.ts.
+ *
+ * Finds organized / in-progress activities whose deadline has passed and
+ * that haven't been flagged yet, then for each one, in a single transaction:
+ *   - sets activities.overdueAt (the "already handled" marker)
+ *   - docks HP_DELTA.overdue through awardUser (ledger source "overdue")
+ * and finally schedules one Telegram reminder per user listing their newly
+ * overdue items. Because the flag and the penalty are written together,
+ * sweeping again never penalises the same deadline twice.
+ *
+ * Moving an activity's deadline into the future (organizeActivity) clears
+ * overdueAt, so a missed new deadline counts again.
+ */
+
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { type Doc } from "./_generated/dataModel";
+import { awardUser } from "./lib/award";
+import { HP_DELTA } from "./lib/hp";
+import { localDayKey } from "./lib/dates";
+import { escapeHtml } from "./lib/html";
+
+// Items handled per run; a full batch reschedules the sweep straight away
+const SWEEP_BATCH = 100;
+
+const OPEN_STATUSES = ["organized", "in-progress"] as const;
+
+function reminderText(items: Doc<"activities">[], timeZone: string | undefined): string {
+  const lines = items.map(
+    (a) => `• <code>${a.activityId}</code> ${escapeHtml(a.activity.substring(0, 60))} (due ${localDayKey(a.deadline!, timeZone)})`,
+  );
+  return (
+    `⏰ <b>Deadline passed</b>\n\n${lines.join("\n")}\n\n` +
+    `❤️ ${HP_DELTA.overdue * items.length} HP. Finish, reschedule or abandon with /do.`
+  );
+}
+
+/**
+ * sweepOverdue
+ * One pass of the sweep. Safe to run concurrently with itself and with the
+ * lifecycle mutations — Convex retries on conflicting writes.
+ */
+export const sweepOverdue = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const overdue: Doc<"activities">[] = [];
+    for (const status of OPEN_STATUSES) {
+      const remaining = SWEEP_BATCH - overdue.length;
+      if (remaining <= 0) break;
+      const due = await ctx.db
+        .query("activities")
+        .withIndex("by_status_overdue_deadline", (q) =>
+          q.eq("status", status).eq("overdueAt", undefined).gt("deadline", 0).lt("deadline", now),
+        )
+        .take(remaining);
+      overdue.push(...due);
+    }
+
+    const byUser = new Map<string, Doc<"activities">[]>();
+    for (const a of overdue) {
+      await ctx.db.patch(a._id, { overdueAt: now, updatedAt: now });
+      // Re-read the user each time: several items may belong to the same user
+      const user = await ctx.db.get(a.userId);
+      if (!user) continue;
+      await awardUser(ctx, user, {
+        source: "overdue", activityDocId: a._id, xp: 0, hpDelta: HP_DELTA.overdue,
+      }, now);
+      byUser.set(user._id, [...(byUser.get(user._id) ?? []), a]);
+    }
+
+    for (const items of byUser.values()) {
+      const user = (await ctx.db.get(items[0].userId))!;
+      // settings.chatId is stored by the bot on /start
+      const chatId = user.settings.chatId;
+      if (!chatId) continue;
+      await ctx.scheduler.runAfter(0, internal.notifications.sendTelegramMessage, {
+        chatId,
+        text: reminderText(items, user.settings.timezone),
+      });
+    }
+
+    if (overdue.length === SWEEP_BATCH) {
+      await ctx.scheduler.runAfter(0, internal.deadlines.sweepOverdue, {});
+    }
+    return { flagged: overdue.length, usersNotified: byUser.size };
+  },
+});
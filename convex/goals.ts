@@ -5,9 +5,50 @@
  * organize flow.
  */
 
-import { mutation, query } from "./_generated/server";
+import { mutation, query, type DatabaseReader } from "./_generated/server";
 import { v } from "convex/values";
+import { type Doc, type Id } from "./_generated/dataModel";
 import { nextGoalId } from "./lib/ids";
+import { assertBotSecret, callerArgs, requireOwned } from "./lib/auth";
+import { completeGoalsIfRuleMet } from "./lib/goalCompletion";
+import {
+  childrenByGoal, isShorterHorizon, isValidRule, rollUpProgress, ruleProgress,
+  subtreeGoalIds, summariseGoal, type GoalProgress,
+} from "./lib/goals";
+import { type HorizonKey } from "./lib/xp";
+
+// ─── Hierarchy checks ───────────────────────────────────────────────────────────────
+
+/**
+ * Load the goal a new or moved goal will sit under. It must belong to the
+ * user and have a longer horizon than `horizon`.
+ */
+async function requireParentGoal(
+  ctx: { db: DatabaseReader },
+  userId: Id<"users">,
+  parentGoalId: string,
+  horizon: HorizonKey,
+): Promise<Doc<"goals">> {
+  const parent = await ctx.db
+    .query("goals")
+    .withIndex("by_user_goal_id", (q) => q.eq("userId", userId).eq("goalId", parentGoalId))
+    .unique();
+  if (!parent) throw new Error(`Goal not found: ${parentGoalId}`);
+  if (!isShorterHorizon(horizon, parent.horizon)) {
+    throw new Error(`A ${horizon} goal can't sit under a ${parent.horizon} goal`);
+  }
+  return parent;
+}
+
+/** Throws if any child of `goal` would no longer be shorter than `horizon`. */
+async function assertChildrenFit(ctx: { db: DatabaseReader }, goal: Doc<"goals">, horizon: HorizonKey) {
+  const children = await ctx.db
+    .query("goals")
+    .withIndex("by_user_parent", (q) => q.eq("userId", goal.userId).eq("parentGoalId", goal.goalId))
+    .collect();
+  const misfit = children.find((c) => !isShorterHorizon(c.horizon, horizon));
+  if (misfit) throw new Error(`${misfit.goalId} is a ${misfit.horizon} goal; move it before changing this one to ${horizon}`);
+}
 
 // ─── Mutations ──────────────────────────────────────────────────────────────────────
 
@@ -20,12 +61,18 @@ import { nextGoalId } from "./lib/ids";
  * life area, a title the bot composed (or the user typed), a horizon,
  * and a category for quest classification.
  *
+ * An entry may carry milestones: shorter-horizon goals created under it in
+ * the same life area (category defaults to the parent's), e.g. an annum
+ * goal with one quarterly milestone.
+ *
  * Generates sequential goalIds (G-0001, G-0002 …) and inserts goal records.
- * Returns the list of created goals with their IDs.
+ * Returns the list of created goals with their IDs, milestones after their
+ * parent.
  */
 export const createGoalsFromGapAnalysis = mutation({
   args: {
     userId: v.id("users"),
+    botSecret: v.string(),
     goals: v.array(
       v.object({
         title: v.string(),
@@ -54,14 +101,38 @@ export const createGoalsFromGapAnalysis = mutation({
           v.literal("void-filler"),
         ),
         gapScore: v.optional(v.number()),
+        milestones: v.optional(
+          v.array(
+            v.object({
+              title: v.string(),
+              description: v.optional(v.string()),
+              horizon: v.union(
+                v.literal("today"), v.literal("week"), v.literal("month"),
+                v.literal("quarter"), v.literal("annum"), v.literal("someday"),
+              ),
+              category: v.optional(
+                v.union(
+                  v.literal("main-quest"), v.literal("side-quest"), v.literal("fake-boss"),
+                  v.literal("sleeping-dragon"), v.literal("void-filler"),
+                ),
+              ),
+            }),
+          ),
+        ),
       }),
     ),
   },
   handler: async (ctx, args) => {
+    assertBotSecret(args.botSecret);
     const now = Date.now();
-    const created: Array<{ goalId: string; _id: string }> = [];
+    const created: Array<{ goalId: string; _id: string; parentGoalId?: string }> = [];
 
     for (const g of args.goals) {
+      for (const m of g.milestones ?? []) {
+        if (!isShorterHorizon(m.horizon, g.horizon)) {
+          throw new Error(`Milestone "${m.title}" must have a shorter horizon than ${g.horizon}`);
+        }
+      }
       const goalId = await nextGoalId(ctx, args.userId);
       const docId = await ctx.db.insert("goals", {
         userId: args.userId,
@@ -77,6 +148,24 @@ export const createGoalsFromGapAnalysis = mutation({
         updatedAt: now,
       });
       created.push({ goalId, _id: docId });
+
+      for (const m of g.milestones ?? []) {
+        const milestoneId = await nextGoalId(ctx, args.userId);
+        const milestoneDocId = await ctx.db.insert("goals", {
+          userId: args.userId,
+          goalId: milestoneId,
+          title: m.title,
+          description: m.description,
+          lifeArea: g.lifeArea,
+          horizon: m.horizon,
+          status: "active",
+          category: m.category ?? g.category,
+          parentGoalId: goalId,
+          createdAt: now,
+          updatedAt: now,
+        });
+        created.push({ goalId: milestoneId, _id: milestoneDocId, parentGoalId: goalId });
+      }
     }
 
     return created;
@@ -85,11 +174,13 @@ export const createGoalsFromGapAnalysis = mutation({
 
 /**
  * createGoal
- * Create a single goal (used for manual goal creation after onboarding).
+ * Create a single goal (used for manual goal creation after onboarding),
+ * optionally as a milestone under parentGoalId.
  */
 export const createGoal = mutation({
   args: {
     userId: v.id("users"),
+    botSecret: v.string(),
     title: v.string(),
     description: v.optional(v.string()),
     lifeArea: v.union(
@@ -105,8 +196,11 @@ export const createGoal = mutation({
       v.literal("sleeping-dragon"), v.literal("void-filler"),
     ),
     gapScore: v.optional(v.number()),
+    parentGoalId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    assertBotSecret(args.botSecret);
+    if (args.parentGoalId) await requireParentGoal(ctx, args.userId, args.parentGoalId, args.horizon);
     const now = Date.now();
     const goalId = await nextGoalId(ctx, args.userId);
     const docId = await ctx.db.insert("goals", {
@@ -119,6 +213,7 @@ export const createGoal = mutation({
       status: "active",
       category: args.category,
       gapScore: args.gapScore,
+      parentGoalId: args.parentGoalId,
       createdAt: now,
       updatedAt: now,
     });
@@ -129,9 +224,13 @@ export const createGoal = mutation({
 /**
  * updateGoal
  * Patch any fields of an existing goal (e.g. change status, horizon, category).
+ * parentGoalId moves it in the hierarchy (null makes it top-level); the
+ * resulting horizons must still shrink from parent to child.
+ * Only the goal's owner may update it.
  */
 export const updateGoal = mutation({
   args: {
+    ...callerArgs,
     goalDocId: v.id("goals"),
     title: v.optional(v.string()),
     description: v.optional(v.string()),
@@ -153,10 +252,19 @@ export const updateGoal = mutation({
         v.literal("sleeping-dragon"), v.literal("void-filler"),
       ),
     ),
+    parentGoalId: v.optional(v.union(v.string(), v.null())),
   },
   handler: async (ctx, args) => {
-    const { goalDocId, ...fields } = args;
+    const { telegramId, botSecret, goalDocId, ...fields } = args;
+    const { user, doc: goal } = await requireOwned(ctx, { telegramId, botSecret }, goalDocId);
+    const horizon = fields.horizon ?? goal.horizon;
+    const parentGoalId = fields.parentGoalId === undefined ? goal.parentGoalId : fields.parentGoalId ?? undefined;
+    if (fields.horizon !== undefined || fields.parentGoalId !== undefined) {
+      if (parentGoalId) await requireParentGoal(ctx, user._id, parentGoalId, horizon);
+      await assertChildrenFit(ctx, goal, horizon);
+    }
     const patch: Record<string, unknown> = { updatedAt: Date.now() };
+    if (fields.parentGoalId !== undefined) patch.parentGoalId = parentGoalId;
     if (fields.title !== undefined) patch.title = fields.title;
     if (fields.description !== undefined) patch.description = fields.description;
     if (fields.horizon !== undefined) patch.horizon = fields.horizon;
@@ -166,6 +274,40 @@ export const updateGoal = mutation({
   },
 });
 
+/**
+ * setGoalCompletionRule
+ * Set or clear (rule: null) the rule that completes an active goal, e.g.
+ * { count: 3, category: "main-quest" }. The rule is checked straight away,
+ * so a goal that already meets it completes and pays its bonus now.
+ */
+export const setGoalCompletionRule = mutation({
+  args: {
+    ...callerArgs,
+    goalDocId: v.id("goals"),
+    rule: v.union(
+      v.object({
+        count: v.number(),
+        category: v.optional(
+          v.union(
+            v.literal("main-quest"), v.literal("side-quest"), v.literal("fake-boss"),
+            v.literal("sleeping-dragon"), v.literal("void-filler"),
+          ),
+        ),
+      }),
+      v.null(),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const { user, doc: goal } = await requireOwned(ctx, args, args.goalDocId);
+    if (goal.status !== "active") throw new Error(`Goal is ${goal.status}`);
+    if (args.rule && !isValidRule(args.rule)) throw new Error("Rule count must be a whole number of at least 1");
+    const now = Date.now();
+    await ctx.db.patch(args.goalDocId, { completionRule: args.rule ?? undefined, updatedAt: now });
+    const completed = await completeGoalsIfRuleMet(ctx, user._id, [goal.goalId], now);
+    return { completed: completed[0] ?? null };
+  },
+});
+
 // ─── Queries ──────────────────────────────────────────────────────────────────────
 
 /**
@@ -220,3 +362,96 @@ export const getGoalByGoalId = query({
       .unique();
   },
 });
+
+/** Progress for every goal of a user: its own activities and its whole subtree. */
+async function collectGoalProgress(ctx: { db: DatabaseReader }, userId: Id<"users">) {
+  const goals = await ctx.db
+    .query("goals")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  const activities = await ctx.db
+    .query("activities")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  const children = childrenByGoal(goals);
+  const byGoal = new Map<string, typeof activities>();
+  for (const a of activities) {
+    if (a.goalId) byGoal.set(a.goalId, [...(byGoal.get(a.goalId) ?? []), a]);
+  }
+
+  // Children first, so each parent can fold in its children's roll-ups
+  const rollups = new Map<string, GoalProgress>();
+  const rollUp = (goalId: string): GoalProgress => {
+    const cached = rollups.get(goalId);
+    if (cached) return cached;
+    const result = rollUpProgress(
+      summariseGoal(byGoal.get(goalId) ?? []),
+      (children.get(goalId) ?? []).map(rollUp),
+    );
+    rollups.set(goalId, result);
+    return result;
+  };
+
+  return goals.map((g) => {
+    const subtree = subtreeGoalIds(g.goalId, children).flatMap((id) => byGoal.get(id) ?? []);
+    return {
+      _id: g._id,
+      goalId: g.goalId,
+      parentGoalId: g.parentGoalId,
+      title: g.title,
+      lifeArea: g.lifeArea,
+      horizon: g.horizon,
+      category: g.category,
+      status: g.status,
+      completedAt: g.completedAt,
+      completionXp: g.completionXp,
+      rule: g.completionRule ?? null,
+      ruleDone: g.completionRule ? ruleProgress(g.completionRule, subtree) : 0,
+      ...summariseGoal(byGoal.get(g.goalId) ?? []),
+      rollup: rollUp(g.goalId),
+    };
+  });
+}
+
+/**
+ * listGoalProgress
+ * Every active or completed goal with the progress of the activities linked
+ * to it (completed / total, XP earned, minutes spent, last activity), the
+ * same rolled up over its milestones, and, when it has one, how far along
+ * its completion rule is.
+ */
+export const listGoalProgress = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const goals = await collectGoalProgress(ctx, args.userId);
+    return goals.filter((g) => g.status === "active" || g.status === "completed");
+  },
+});
+
+/**
+ * getGoalTree
+ * listGoalProgress nested by parentGoalId for the Mini App: top-level goals,
+ * each with its milestones under `children`, longest horizon first. A goal
+ * whose parent is paused or abandoned is shown at the top level.
+ */
+export const getGoalTree = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const goals = (await collectGoalProgress(ctx, args.userId))
+      .filter((g) => g.status === "active" || g.status === "completed");
+    type Node = (typeof goals)[number] & { children: Node[] };
+    const nodes = new Map<string, Node>(goals.map((g) => [g.goalId, { ...g, children: [] }]));
+    const roots: Node[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentGoalId ? nodes.get(node.parentGoalId) : undefined;
+      (parent ? parent.children : roots).push(node);
+    }
+    const byHorizon = (a: Node, b: Node) => (isShorterHorizon(a.horizon, b.horizon) ? 1 : isShorterHorizon(b.horizon, a.horizon) ? -1 : 0);
+    const sort = (list: Node[]) => {
+      list.sort(byHorizon);
+      list.forEach((n) => sort(n.children));
+    };
+    sort(roots);
+    return roots;
+  },
+});
@@ -1,24 +1,35 @@
 /**
  * convex/habits.ts - Habit tracking and streak management
+ * Streaks count calendar days in the user's timezone (lib/streaks.ts).
  */
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { nextHabitId } from "./lib/ids";
+import { assertBotSecret, callerArgs, requireOwned } from "./lib/auth";
+import { awardUser } from "./lib/award";
+import { checkAchievements } from "./lib/unlocks";
+import { HP_DELTA } from "./lib/hp";
 import * as xp from "./lib/xp";
+import { localDayKey } from "./lib/dates";
+import { nextStreak, effectiveStreak } from "./lib/streaks";
+import { summarizeHabitLogs } from "./lib/habitStats";
+import { normalizeIncup } from "./lib/incup";
 
 export const createHabit = mutation({
   args: {
-    userId: v.id("users"), name: v.string(),
+    userId: v.id("users"), botSecret: v.string(), name: v.string(),
     lifeArea: v.union(v.literal("spiritual"),v.literal("physical"),v.literal("mental"),v.literal("financial"),v.literal("social"),v.literal("emotional")),
     incup: v.optional(v.string()),
     easy: v.optional(v.string()), medium: v.optional(v.string()),
     hard: v.optional(v.string()), peak: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    assertBotSecret(args.botSecret);
     const habitId = await nextHabitId(ctx, args.userId);
     const docId = await ctx.db.insert("habits", {
       userId: args.userId, habitId, name: args.name,
-      lifeArea: args.lifeArea, incup: args.incup,
+      lifeArea: args.lifeArea,
+      incup: args.incup === undefined ? undefined : normalizeIncup(args.incup),
       easy: args.easy, medium: args.medium, hard: args.hard, peak: args.peak,
       startDate: Date.now(), currentStreak: 0, maxStreak: 0,
       createdAt: Date.now(), updatedAt: Date.now(),
@@ -29,31 +40,76 @@ export const createHabit = mutation({
 
 export const logHabitSession = mutation({
   args: {
+    ...callerArgs,
     habitDocId: v.id("habits"),
     difficultyLevel: v.union(v.literal("easy"),v.literal("medium"),v.literal("hard"),v.literal("peak")),
     feelingBefore: v.optional(v.union(v.literal("joyful"),v.literal("excited"),v.literal("hopeful"),v.literal("calm"),v.literal("curious"),v.literal("neutral"),v.literal("bored"),v.literal("anxious"),v.literal("frustrated"),v.literal("overwhelmed"),v.literal("defeated"))),
     feelingAfter: v.optional(v.union(v.literal("joyful"),v.literal("excited"),v.literal("hopeful"),v.literal("calm"),v.literal("curious"),v.literal("neutral"),v.literal("bored"),v.literal("anxious"),v.literal("frustrated"),v.literal("overwhelmed"),v.literal("defeated"))),
+    mentalBlock: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const habit = await ctx.db.get(args.habitDocId);
-    if (!habit) throw new Error("Habit not found");
-    const newStreak = habit.currentStreak + 1;
-    const habitXp = xp.computeHabitXp({ difficulty: args.difficultyLevel as xp.DifficultyLevel, currentStreak: newStreak });
+    const { user, doc: habit } = await requireOwned(ctx, args, args.habitDocId);
+    const now = Date.now();
+    const today = localDayKey(now, user.settings.timezone);
+    const streak = nextStreak(habit, today);
+    const award = await awardUser(ctx, user, {
+      source: "habit", habitDocId: habit._id,
+      xp: xp.computeHabitXp({ difficulty: args.difficultyLevel as xp.DifficultyLevel, currentStreak: streak.currentStreak }),
+      hpDelta: HP_DELTA.habitLog,
+    }, now);
+    const habitXp = award.xp;
     const emotionDelta = xp.computeEmotionDelta(args.feelingBefore, args.feelingAfter);
+    await ctx.db.insert("habitLogs", {
+      userId: user._id, habitDocId: habit._id, habitId: habit.habitId,
+      loggedAt: now, day: today, difficulty: args.difficultyLevel,
+      feelingBefore: args.feelingBefore, feelingAfter: args.feelingAfter, emotionDelta,
+      mentalBlock: args.mentalBlock || undefined, xpEarned: habitXp,
+    });
+    // Aggregates are derived from the whole log history, including this entry
+    const logs = await ctx.db.query("habitLogs")
+      .withIndex("by_habit", q => q.eq("habitDocId", habit._id))
+      .collect();
     await ctx.db.patch(args.habitDocId, {
-      currentStreak: newStreak, maxStreak: Math.max(newStreak, habit.maxStreak),
-      emotionBefore: args.feelingBefore, emotionAfter: args.feelingAfter, emotionDelta,
-      updatedAt: Date.now(),
+      currentStreak: streak.currentStreak, maxStreak: streak.maxStreak, lastLoggedDay: streak.lastLoggedDay,
+      ...summarizeHabitLogs(logs),
+      updatedAt: now,
     });
-    const user = await ctx.db.get(habit.userId);
-    if (user) await ctx.db.patch(habit.userId, { totalXp: user.totalXp + habitXp, updatedAt: Date.now() });
-    return { habitXp, currentStreak: newStreak };
+    return {
+      habitXp, currentStreak: streak.currentStreak, streakCounted: streak.counted,
+      hp: award.hp, levelUp: award.levelUp,
+      achievements: await checkAchievements(ctx, user._id, "habit-log", now),
+    };
   },
 });
 
 export const listHabits = query({
   args: { userId: v.id("users") },
   handler: async (ctx, { userId }) => {
-    return ctx.db.query("habits").withIndex("by_user", q => q.eq("userId", userId)).collect();
+    const user = await ctx.db.get(userId);
+    const today = localDayKey(Date.now(), user?.settings.timezone);
+    const habits = await ctx.db.query("habits").withIndex("by_user", q => q.eq("userId", userId)).collect();
+    // Report broken streaks as 0 even before the next log resets them
+    return habits.map(h => ({ ...h, currentStreak: effectiveStreak(h, today) }));
+  },
+});
+
+// Chronological log history for one habit (charts in the Mini App)
+export const listHabitLogs = query({
+  args: { habitDocId: v.id("habits"), limit: v.optional(v.number()) },
+  handler: async (ctx, { habitDocId, limit }) => {
+    const logs = await ctx.db.query("habitLogs")
+      .withIndex("by_habit", q => q.eq("habitDocId", habitDocId))
+      .order("desc")
+      .take(limit ?? 90);
+    return logs.reverse();
+  },
+});
+
+export const getHabitByHabitId = query({
+  args: { userId: v.id("users"), habitId: v.string() },
+  handler: async (ctx, { userId, habitId }) => {
+    return ctx.db.query("habits")
+      .withIndex("by_user_habit_id", q => q.eq("userId", userId).eq("habitId", habitId))
+      .unique();
   },
 });
@@ -0,0 +1,753 @@
+/**
+ * convex/http.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * HTTP API for the Telegram Mini App (src/api.ts).
+ *
+ * Serves the same routes the old Apps Script backend exposed, backed by the
+ * Convex queries/mutations, and answers in the TaskRow / HabitRow / GoalRow /
+ * SummaryData shapes from src/types.ts (see lib/rows.ts).
+ *
+ * Base URL is the deployment's HTTP actions domain, e.g.
+ *   https://enduring-hummingbird-483.convex.site
+ *
+ * Every request must carry the Mini App's signed initData in an
+ *   Authorization: tma <initData>
+ * header. The user is resolved from that signature (lib/telegramAuth.ts),
+ * never from a client-supplied id.
+ *
+ * Env vars:
+ *   BOT_TOKEN       – Telegram bot token, used to verify initData
+ *   BOT_API_SECRET  – shared secret passed to the mutations (lib/auth.ts)
+ *   MINI_APP_ORIGIN – value for Access-Control-Allow-Origin (default "*")
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { httpRouter } from "convex/server";
+import { ConvexError } from "convex/values";
+import { httpAction, type ActionCtx } from "./_generated/server";
+import { api } from "./_generated/api";
+import { type Doc } from "./_generated/dataModel";
+import {
+  toTaskRow, toHabitRow, toHabitLogRow, toGoalRow, toSummaryData,
+  toRewardRow, toRedemptionRow, toBadgeRow, toRolledUpRow, toGoalProgressRow, toGoalTreeRow,
+  habitIdFromRowIndex, parseMinutes,
+} from "./lib/rows";
+import { verifyInitData, InitDataError } from "./lib/telegramAuth";
+import { normalizeIncup, IncupError } from "./lib/incup";
+import { type AuthErrorData, type Caller } from "./lib/auth";
+import { CATEGORY_MULTIPLIER, EMOTIONS, HABIT_XP, type CategoryKey, type DifficultyLevel } from "./lib/xp";
+
+// ─── Response helpers ─────────────────────────────────────────────────────────
+
+function corsHeaders(): Record<string, string> {
+  return {
+    "Access-Control-Allow-Origin": process.env.MINI_APP_ORIGIN ?? "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Max-Age": "86400",
+  };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders() },
+  });
+}
+
+/** Thrown inside a handler to short-circuit with a specific HTTP status. */
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/** HTTP status for the typed errors thrown through lib/auth.ts authError. */
+const AUTH_ERROR_STATUS: Record<AuthErrorData["code"], number> = {
+  UNAUTHENTICATED: 401,
+  USER_NOT_FOUND: 404,
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  INVALID_INPUT: 400,
+  CONFLICT: 409,
+};
+
+/**
+ * Verify the initData in the Authorization header and load the matching
+ * users doc via the by_telegram_id index.
+ */
+async function authenticate(ctx: ActionCtx, req: Request): Promise<Doc<"users">> {
+  const botToken = process.env.BOT_TOKEN;
+  if (!botToken) throw new Error("Missing env var: BOT_TOKEN");
+
+  const header = req.headers.get("Authorization") ?? "";
+  const initData = header.startsWith("tma ") ? header.slice(4) : "";
+  let telegramId: string;
+  try {
+    ({ telegramId } = await verifyInitData(initData, botToken));
+  } catch (e) {
+    if (e instanceof InitDataError) throw new HttpError(401, e.message);
+    throw e;
+  }
+
+  const user = await ctx.runQuery(api.users.getUserByTelegramId, { telegramId });
+  if (!user) throw new HttpError(404, "User not found, send /start to the bot first");
+  return user;
+}
+
+/** The authenticated user as a mutation caller (see lib/auth.ts). */
+function callerOf(user: Doc<"users">): Caller {
+  const botSecret = process.env.BOT_API_SECRET;
+  if (!botSecret) throw new Error("Missing env var: BOT_API_SECRET");
+  return { telegramId: user.telegramId, botSecret };
+}
+
+/**
+ * Wrap a route handler: authenticates the caller, parses the request into a
+ * flat params object (query string for GET, JSON body for POST) and turns
+ * thrown errors into JSON error responses.
+ */
+function route(
+  handler: (ctx: ActionCtx, user: Doc<"users">, params: Params) => Promise<unknown>,
+) {
+  return httpAction(async (ctx, req) => {
+    try {
+      const user = await authenticate(ctx, req);
+      const params = req.method === "GET"
+        ? Object.fromEntries(new URL(req.url).searchParams)
+        : await readBody(req);
+      return json(await handler(ctx, user, params));
+    } catch (e) {
+      if (e instanceof ConvexError) {
+        const data = e.data as AuthErrorData;
+        return json({ ok: false, error: data.message, code: data.code }, AUTH_ERROR_STATUS[data.code] ?? 400);
+      }
+      const status = e instanceof HttpError ? e.status : 500;
+      const message = e instanceof Error ? e.message : String(e);
+      if (status === 500) console.error("HTTP API error:", e);
+      return json({ ok: false, error: message }, status);
+    }
+  });
+}
+
+// ─── Params ───────────────────────────────────────────────────────────────────
+// Params come straight from the client, so handlers narrow every field they
+// use with these helpers. A field of the wrong shape is a 400, not a 500 from
+// the Convex validator further down.
+
+type Params = Record<string, unknown>;
+
+const CATEGORIES = Object.keys(CATEGORY_MULTIPLIER) as CategoryKey[];
+const DIFFICULTIES = Object.keys(HABIT_XP) as DifficultyLevel[];
+
+async function readBody(req: Request): Promise<Params> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new HttpError(400, "Request body must be JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+  return body as Params;
+}
+
+/** A text field; null and "" count as missing. */
+function optString(params: Params, key: string): string | undefined {
+  const value = params[key];
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new HttpError(400, `${key} must be a string`);
+  }
+  return String(value);
+}
+
+/** A numeric field, sent as a number (JSON) or a numeric string (query). */
+function optNumber(params: Params, key: string): number | undefined {
+  const value = params[key];
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+  if (!Number.isFinite(n)) throw new HttpError(400, `${key} must be a number`);
+  return n;
+}
+
+/** A field that must be one of `allowed`, e.g. an emotion or category. */
+function optOneOf<T extends string>(params: Params, key: string, allowed: readonly T[]): T | undefined {
+  const value = optString(params, key);
+  if (value === undefined) return undefined;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new HttpError(400, `${key} must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+function required<T>(value: T | undefined, key: string): T {
+  if (value === undefined) throw new HttpError(400, `Missing ${key}`);
+  return value;
+}
+
+// ─── Lookups ──────────────────────────────────────────────────────────────────
+
+async function requireActivity(
+  ctx: ActionCtx,
+  user: Doc<"users">,
+  activityId: unknown,
+): Promise<Doc<"activities">> {
+  if (!activityId) throw new HttpError(400, "Missing activityId");
+  if (typeof activityId !== "string") throw new HttpError(400, "activityId must be a string");
+  const activity = await ctx.runQuery(api.activities.getActivityByActivityId, {
+    userId: user._id,
+    activityId,
+  });
+  if (!activity) throw new HttpError(404, `Activity not found: ${activityId}`);
+  return activity;
+}
+
+async function requireHabit(
+  ctx: ActionCtx,
+  user: Doc<"users">,
+  habitRowIndex: unknown,
+): Promise<Doc<"habits">> {
+  const rowIndex = required(optNumber({ habitRowIndex }, "habitRowIndex"), "habitRowIndex");
+  if (!Number.isInteger(rowIndex)) throw new HttpError(400, "habitRowIndex must be a whole number");
+  const habit = await ctx.runQuery(api.habits.getHabitByHabitId, {
+    userId: user._id,
+    habitId: habitIdFromRowIndex(rowIndex),
+  });
+  if (!habit) throw new HttpError(404, `Habit not found: ${habitRowIndex}`);
+  return habit;
+}
+
+async function requireReward(
+  ctx: ActionCtx,
+  user: Doc<"users">,
+  rewardId: unknown,
+): Promise<Doc<"rewards">> {
+  if (!rewardId) throw new HttpError(400, "Missing rewardId");
+  if (typeof rewardId !== "string") throw new HttpError(400, "rewardId must be a string");
+  const reward = await ctx.runQuery(api.shop.getRewardByRewardId, {
+    userId: user._id,
+    rewardId,
+  });
+  if (!reward) throw new HttpError(404, `Reward not found: ${rewardId}`);
+  return reward;
+}
+
+async function requireGoal(
+  ctx: ActionCtx,
+  user: Doc<"users">,
+  goalId: unknown,
+): Promise<Doc<"goals">> {
+  if (!goalId) throw new HttpError(400, "Missing goalId");
+  if (typeof goalId !== "string") throw new HttpError(400, "goalId must be a string");
+  const goal = await ctx.runQuery(api.goals.getGoalByGoalId, {
+    userId: user._id,
+    goalId,
+  });
+  if (!goal) throw new HttpError(404, `Goal not found: ${goalId}`);
+  return goal;
+}
+
+/** Normalised INCUP code, or a 400 naming the tag that didn't parse. */
+function requireIncup(incup: unknown): string {
+  if (typeof incup !== "string") throw new HttpError(400, "incup must be a string");
+  try {
+    return normalizeIncup(incup);
+  } catch (e) {
+    if (e instanceof IncupError) throw new HttpError(400, e.message);
+    throw e;
+  }
+}
+
+/** goalId → title map for decorating task rows. */
+async function goalTitles(ctx: ActionCtx, user: Doc<"users">): Promise<Map<string, string>> {
+  const goals = await ctx.runQuery(api.goals.listGoalsForUser, { userId: user._id });
+  return new Map(goals.map((g) => [g.goalId, g.title]));
+}
+
+// ─── Router ───────────────────────────────────────────────────────────────────
+
+const http = httpRouter();
+
+// CORS preflight for every /api/* route
+http.route({
+  pathPrefix: "/api/",
+  method: "OPTIONS",
+  handler: httpAction(async () => new Response(null, { status: 204, headers: corsHeaders() })),
+});
+
+// ── GET ──────────────────────────────────────────────────────────────────────
+
+http.route({
+  path: "/api/tasks/ready",
+  method: "GET",
+  handler: route(async (ctx, user) => {
+    // Running / paused items first, then everything ready to start
+    const [inProgress, ready, blocked, titles] = await Promise.all([
+      ctx.runQuery(api.activities.listInProgressActivities, { userId: user._id }),
+      ctx.runQuery(api.activities.listReadyActivities, { userId: user._id }),
+      ctx.runQuery(api.activities.listBlockedActivities, { userId: user._id }),
+      goalTitles(ctx, user),
+    ]);
+    const waitingOn = new Map(blocked.map((b) => [b.activityId, b.waitingOn]));
+    return [...inProgress, ...ready].map((a) =>
+      toTaskRow(a, titles.get(a.goalId ?? ""), waitingOn.get(a.activityId)),
+    );
+  }),
+});
+
+http.route({
+  path: "/api/tasks/recommended",
+  method: "GET",
+  handler: route(async (ctx, user, params) => {
+    return ctx.runQuery(api.activities.recommendNextActivities, {
+      userId: user._id,
+      limit: optNumber(params, "limit") || 3,
+    });
+  }),
+});
+
+http.route({
+  path: "/api/plan",
+  method: "GET",
+  handler: route(async (ctx, user, params) => {
+    const budget = required(optNumber(params, "minutes"), "minutes");
+    if (!(budget > 0)) throw new HttpError(400, "minutes must be a positive number");
+    const areas = optString(params, "areas");
+    return ctx.runQuery(api.planner.planMyDay, {
+      userId: user._id,
+      minutes: budget,
+      lifeAreas: areas ? areas.split(",").filter(Boolean) : undefined,
+    });
+  }),
+});
+
+http.route({
+  path: "/api/analytics/estimation",
+  method: "GET",
+  handler: route(async (ctx, user, { activityId }) => {
+    // Checked here so an unknown activityId is a 404, not a 500
+    const activity = activityId ? await requireActivity(ctx, user, activityId) : undefined;
+    return ctx.runQuery(api.analytics.getEstimationAccuracy, {
+      userId: user._id,
+      activityId: activity?.activityId,
+    });
+  }),
+});
+
+http.route({
+  path: "/api/analytics/mood",
+  method: "GET",
+  handler: route(async (ctx, user, params) => {
+    const count = optNumber(params, "weeks");
+    if (count !== undefined && !(Number.isInteger(count) && count > 0)) {
+      throw new HttpError(400, "weeks must be a positive whole number");
+    }
+    return ctx.runQuery(api.analytics.getMoodTrends, { userId: user._id, weeks: count });
+  }),
+});
+
+http.route({
+  path: "/api/reviews",
+  method: "GET",
+  handler: route(async (ctx, user) => {
+    return ctx.runQuery(api.weeklyReviews.listWeeklyReviews, { userId: user._id });
+  }),
+});
+
+http.route({
+  path: "/api/tasks/completed",
+  method: "GET",
+  handler: route(async (ctx, user) => {
+    const [activities, titles] = await Promise.all([
+      ctx.runQuery(api.activities.listCompletedActivities, { userId: user._id }),
+      goalTitles(ctx, user),
+    ]);
+    // The Evaluate tab only lists items still waiting for reflection
+    return activities
+      .filter((a) => a.evaluateXp === undefined)
+      .map((a) => toTaskRow(a, titles.get(a.goalId ?? "")));
+  }),
+});
+
+http.route({
+  path: "/api/tasks/abandoned",
+  method: "GET",
+  handler: route(async (ctx, user) => {
+    const [activities, titles] = await Promise.all([
+      ctx.runQuery(api.activities.listAbandonedActivities, { userId: user._id }),
+      goalTitles(ctx, user),
+    ]);
+    return activities.map((a) => toTaskRow(a, titles.get(a.goalId ?? "")));
+  }),
+});
+
+http.route({
+  path: "/api/goals",
+  method: "GET",
+  handler: route(async (ctx, user) => {
+    const goals = await ctx.runQuery(api.goals.listGoalsForUser, { userId: user._id });
+    return goals.map(toGoalRow);
+  }),
+});
+
+http.route({
+  path: "/api/goals/progress",
+  method: "GET",
+  handler: route(async (ctx, user) => {
+    const goals = await ctx.runQuery(api.goals.listGoalProgress, { userId: user._id });
+    return goals.map(toGoalProgressRow);
+  }),
+});
+
+http.route({
+  path: "/api/goals/tree",
+  method: "GET",
+  handler: route(async (ctx, user) => {
+    const roots = await ctx.runQuery(api.goals.getGoalTree, { userId: user._id });
+    return roots.map(toGoalTreeRow);
+  }),
+});
+
+http.route({
+  path: "/api/habits",
+  method: "GET",
+  handler: route(async (ctx, user) => {
+    const habits = await ctx.runQuery(api.habits.listHabits, { userId: user._id });
+    return habits.map(toHabitRow);
+  }),
+});
+
+http.route({
+  path: "/api/habits/logs",
+  method: "GET",
+  handler: route(async (ctx, user, { habitRowIndex }) => {
+    const habit = await requireHabit(ctx, user, habitRowIndex);
+    const logs = await ctx.runQuery(api.habits.listHabitLogs, { habitDocId: habit._id });
+    return logs.map(toHabitLogRow);
+  }),
+});
+
+http.route({
+  path: "/api/summary",
+  method: "GET",
+  handler: route(async (ctx, user) => {
+    const summary = await ctx.runQuery(api.users.getUserSummary, {
+      telegramId: user.telegramId,
+    });
+    if (!summary) throw new HttpError(404, "User not found");
+    return toSummaryData(summary);
+  }),
+});
+
+// ── POST ─────────────────────────────────────────────────────────────────────
+
+http.route({
+  path: "/api/tasks/startFocus",
+  method: "POST",
+  handler: route(async (ctx, user, params) => {
+    const activity = await requireActivity(ctx, user, params.activityId);
+    const result = await ctx.runMutation(api.activities.startFocusSession, {
+      ...callerOf(user),
+      activityDocId: activity._id,
+      feelingBefore: optOneOf(params, "feelingB4", EMOTIONS),
+      estMinutes: parseMinutes(params.estTime),
+    });
+    return { ok: true, startTime: new Date(result.sessionStart).toISOString() };
+  }),
+});
+
+http.route({
+  path: "/api/tasks/pauseFocus",
+  method: "POST",
+  handler: route(async (ctx, user, params) => {
+    const activity = await requireActivity(ctx, user, params.activityId);
+    const result = await ctx.runMutation(api.activities.pauseFocusSession, {
+      ...callerOf(user),
+      activityDocId: activity._id,
+      reason: optString(params, "reason"),
+    });
+    return { ok: true, actualTime: String(result.actualMinutes) };
+  }),
+});
+
+http.route({
+  path: "/api/tasks/resumeFocus",
+  method: "POST",
+  handler: route(async (ctx, user, { activityId }) => {
+    const activity = await requireActivity(ctx, user, activityId);
+    const result = await ctx.runMutation(api.activities.resumeFocusSession, {
+      ...callerOf(user),
+      activityDocId: activity._id,
+    });
+    return { ok: true, startTime: new Date(result.sessionStart).toISOString() };
+  }),
+});
+
+http.route({
+  path: "/api/tasks/stopFocus",
+  method: "POST",
+  handler: route(async (ctx, user, params) => {
+    const activity = await requireActivity(ctx, user, params.activityId);
+    const result = await ctx.runMutation(api.activities.stopFocusSession, {
+      ...callerOf(user),
+      activityDocId: activity._id,
+      reason: optString(params, "reason"),
+    });
+    return { ok: true, actualTime: String(result.actualMinutes) };
+  }),
+});
+
+http.route({
+  path: "/api/tasks/abandon",
+  method: "POST",
+  handler: route(async (ctx, user, params) => {
+    const activity = await requireActivity(ctx, user, params.activityId);
+    const result = await ctx.runMutation(api.activities.abandonActivity, {
+      ...callerOf(user),
+      activityDocId: activity._id,
+      reason: optString(params, "reason"),
+    });
+    return {
+      ok: true,
+      hp: result.hp,
+      hpLost: result.hpLost,
+      xpLost: result.xpLost,
+      knockedOut: result.knockedOut,
+      rolledUp: result.rolledUp.map(toRolledUpRow),
+      goalsCompleted: result.goalsCompleted,
+    };
+  }),
+});
+
+http.route({
+  path: "/api/tasks/restore",
+  method: "POST",
+  handler: route(async (ctx, user, { activityId }) => {
+    const activity = await requireActivity(ctx, user, activityId);
+    const result = await ctx.runMutation(api.activities.restoreActivity, {
+      ...callerOf(user),
+      activityDocId: activity._id,
+    });
+    return { ok: true, status: result.status };
+  }),
+});
+
+http.route({
+  path: "/api/tasks/completeFocus",
+  method: "POST",
+  handler: route(async (ctx, user, { activityId }) => {
+    const activity = await requireActivity(ctx, user, activityId);
+    const result = await ctx.runMutation(api.activities.finishFocusSession, {
+      ...callerOf(user),
+      activityDocId: activity._id,
+    });
+    if ("recoveryPending" in result) {
+      return { ok: true, status: "in-progress", minutesLeft: result.minutesLeft };
+    }
+    return {
+      ok: true,
+      status: result.status,
+      actualTime: String(result.actualMinutes),
+      doneXP: result.doneXp,
+      hp: result.hp,
+      knockedOut: result.knockedOut,
+      revived: result.revived,
+      rolledUp: result.rolledUp.map(toRolledUpRow),
+      goalsCompleted: result.goalsCompleted,
+      levelUp: result.levelUp,
+      achievements: result.achievements,
+    };
+  }),
+});
+
+http.route({
+  path: "/api/tasks/evaluate",
+  method: "POST",
+  handler: route(async (ctx, user, params) => {
+    const activity = await requireActivity(ctx, user, params.activityId);
+    const result = await ctx.runMutation(api.activities.evaluateActivity, {
+      ...callerOf(user),
+      activityDocId: activity._id,
+      feelingAfter: required(optOneOf(params, "feelingAfter", EMOTIONS), "feelingAfter"),
+    });
+    return {
+      ok: true,
+      evaluateXP: result.evaluateXp,
+      totalXP: result.totalXp,
+      chrysolite: result.chrysolite,
+      eDelta: result.emotionDelta,
+      levelUp: result.levelUp,
+      achievements: result.achievements,
+    };
+  }),
+});
+
+http.route({
+  path: "/api/tasks/enrich",
+  method: "POST",
+  handler: route(async (ctx, user, params) => {
+    const activity = await requireActivity(ctx, user, params.activityId);
+    await ctx.runMutation(api.activities.enrichActivity, {
+      ...callerOf(user),
+      activityDocId: activity._id,
+      feelingBefore: optOneOf(params, "feelingB4", EMOTIONS),
+      estMinutes: parseMinutes(params.estTime),
+      incup: params.incup !== undefined ? requireIncup(params.incup) : undefined,
+    });
+    return { ok: true };
+  }),
+});
+
+http.route({
+  path: "/api/tasks/breakdown",
+  method: "POST",
+  handler: route(async (ctx, user, { parentId, subtasks }) => {
+    const parent = await requireActivity(ctx, user, parentId);
+    if (!Array.isArray(subtasks)) throw new HttpError(400, "subtasks must be an array");
+    const result = await ctx.runMutation(api.activities.breakdownActivity, {
+      ...callerOf(user),
+      activityDocId: parent._id,
+      subtasks: subtasks.map((s: unknown) => {
+        const text = typeof s === "object" && s !== null ? (s as Params).activity ?? "" : s;
+        if (typeof text !== "string") throw new HttpError(400, "Each subtask needs an activity string");
+        return text;
+      }),
+    });
+    return {
+      ok: true,
+      createdIds: result.createdIds,
+      levelUp: result.levelUp,
+      achievements: result.achievements,
+    };
+  }),
+});
+
+http.route({
+  path: "/api/goals/rule",
+  method: "POST",
+  handler: route(async (ctx, user, params) => {
+    const goal = await requireGoal(ctx, user, params.goalId);
+    // count 0 clears the rule
+    const n = optNumber(params, "count") ?? 0;
+    const result = await ctx.runMutation(api.goals.setGoalCompletionRule, {
+      ...callerOf(user),
+      goalDocId: goal._id,
+      rule: n > 0 ? { count: n, category: optOneOf(params, "category", CATEGORIES) } : null,
+    });
+    return { ok: true, completed: result.completed };
+  }),
+});
+
+http.route({
+  path: "/api/habits/log",
+  method: "POST",
+  handler: route(async (ctx, user, params) => {
+    const habit = await requireHabit(ctx, user, params.habitRowIndex);
+    const result = await ctx.runMutation(api.habits.logHabitSession, {
+      ...callerOf(user),
+      habitDocId: habit._id,
+      difficultyLevel: required(optOneOf(params, "difficulty", DIFFICULTIES), "difficulty"),
+      feelingBefore: optOneOf(params, "emotionB4", EMOTIONS),
+      feelingAfter: optOneOf(params, "emotionAfter", EMOTIONS),
+      mentalBlock: optString(params, "mentalBlock"),
+    });
+    return {
+      ok: true,
+      habitXP: result.habitXp,
+      streak: result.currentStreak,
+      levelUp: result.levelUp,
+      achievements: result.achievements,
+    };
+  }),
+});
+
+// Knocked-out users come back either by paying chrysolite or by taking on a
+// recovery quest, which then appears in the ready list.
+http.route({
+  path: "/api/revive",
+  method: "POST",
+  handler: route(async (ctx, user, params) => {
+    const method = optString(params, "method");
+    if (method === "chrysolite") {
+      const result = await ctx.runMutation(api.users.reviveWithChrysolite, callerOf(user));
+      return { ok: true, hp: result.hp, chrysolite: result.chrysolite };
+    }
+    if (method === "recovery-quest") {
+      const quest = await ctx.runMutation(api.activities.startRecoveryQuest, callerOf(user));
+      return { ok: true, activityId: quest.activityId };
+    }
+    throw new HttpError(400, `Unknown revive method: ${method}`);
+  }),
+});
+
+http.route({
+  path: "/api/achievements",
+  method: "GET",
+  handler: route(async (ctx, user) => {
+    const badges = await ctx.runQuery(api.achievements.listAchievements, { userId: user._id });
+    return badges.map(toBadgeRow);
+  }),
+});
+
+// ─── Chrysolite shop ──────────────────────────────────────────────────────────
+
+http.route({
+  path: "/api/shop",
+  method: "GET",
+  handler: route(async (ctx, user) => {
+    const [rewards, redemptions] = await Promise.all([
+      ctx.runQuery(api.shop.listRewards, { userId: user._id }),
+      ctx.runQuery(api.shop.listRedemptions, { userId: user._id, limit: 20 }),
+    ]);
+    return {
+      chrysolite: user.chrysolite,
+      rewards: rewards.map(toRewardRow),
+      redemptions: redemptions.map(toRedemptionRow),
+    };
+  }),
+});
+
+http.route({
+  path: "/api/shop/rewards",
+  method: "POST",
+  handler: route(async (ctx, user, params) => {
+    const result = await ctx.runMutation(api.shop.createReward, {
+      ...callerOf(user),
+      title: required(optString(params, "title"), "title"),
+      description: optString(params, "description"),
+      price: required(optNumber(params, "price"), "price"),
+    });
+    return { ok: true, rewardId: result.rewardId };
+  }),
+});
+
+http.route({
+  path: "/api/shop/archive",
+  method: "POST",
+  handler: route(async (ctx, user, { rewardId }) => {
+    const reward = await requireReward(ctx, user, rewardId);
+    await ctx.runMutation(api.shop.updateReward, {
+      ...callerOf(user),
+      rewardDocId: reward._id,
+      active: false,
+    });
+    return { ok: true };
+  }),
+});
+
+http.route({
+  path: "/api/shop/redeem",
+  method: "POST",
+  handler: route(async (ctx, user, { rewardId }) => {
+    const reward = await requireReward(ctx, user, rewardId);
+    const result = await ctx.runMutation(api.shop.redeemReward, {
+      ...callerOf(user),
+      rewardDocId: reward._id,
+    });
+    return { ok: true, chrysolite: result.chrysolite };
+  }),
+});
+
+export default http;
@@ -0,0 +1,156 @@
+/**
+ * convex/ledger.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * XP ledger: history queries plus maintenance mutations that seed and
+ * rebuild the cached totals from xpEvents (see lib/ledger.ts).
+ *
+ * The maintenance mutations are internal; run them from the dashboard or
+ *   npx convex run ledger:rebuildUserTotals '{"userId": "...", "dryRun": true}'
+ */
+
+import { internalMutation, query, type MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { type Id } from "./_generated/dataModel";
+import {
+  appendXpEvent, rebuildTotals, rebuildActivityTotals, totalsDrift,
+} from "./lib/ledger";
+
+async function listUserEvents(ctx: MutationCtx, userId: Id<"users">) {
+  return ctx.db
+    .query("xpEvents")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────────
+
+/**
+ * listXpEvents
+ * A user's ledger rows, oldest first, optionally from a point in time.
+ * Used for XP-over-time charts and for auditing a balance.
+ */
+export const listXpEvents = query({
+  args: { userId: v.id("users"), since: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    return ctx.db
+      .query("xpEvents")
+      .withIndex("by_user", (q) =>
+        q.eq("userId", args.userId).gte("createdAt", args.since ?? 0),
+      )
+      .collect();
+  },
+});
+
+// ─── Maintenance ──────────────────────────────────────────────────────────────────
+
+/**
+ * seedOpeningBalance
+ * One-off migration for users who earned XP before the ledger existed.
+ * Writes "opening-balance" rows so that rebuilding from the ledger gives
+ * exactly today's stored totals: one per activity holding the XP the ledger
+ * doesn't know about, plus one for whatever the user total holds beyond that
+ * (habit XP, HP changes). Safe to run after new events have been written;
+ * users who were already seeded are left alone.
+ */
+export const seedOpeningBalance = internalMutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) throw new Error(`User not found: ${args.userId}`);
+    const events = await listUserEvents(ctx, user._id);
+    if (events.some((e) => e.source === "opening-balance")) return { seeded: false };
+
+    const now = Date.now();
+    const known = rebuildTotals(events);
+    const knownPerActivity = rebuildActivityTotals(events);
+    const activities = await ctx.db
+      .query("activities")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    let activityXp = 0;
+    let activityChrysolite = 0;
+    for (const a of activities) {
+      const seen = knownPerActivity.get(a._id) ?? { totalXp: 0, chrysolite: 0 };
+      const xp = a.totalXp - seen.totalXp;
+      const chrysolite = (a.chrysolite ?? 0) - seen.chrysolite;
+      if (xp === 0 && chrysolite === 0) continue;
+      await appendXpEvent(ctx, user._id, {
+        source: "opening-balance", xp, chrysolite, hp: 0, activityDocId: a._id,
+      }, now);
+      activityXp += xp;
+      activityChrysolite += chrysolite;
+    }
+    await appendXpEvent(ctx, user._id, {
+      source: "opening-balance",
+      xp: user.totalXp - known.totalXp - activityXp,
+      chrysolite: user.chrysolite - known.chrysolite - activityChrysolite,
+      hp: user.hp - known.hp,
+      note: "Balance not attributable to a single activity",
+    }, now);
+    return { seeded: true };
+  },
+});
+
+/**
+ * seedAllOpeningBalances
+ * Schedules seedOpeningBalance for every user, one mutation each.
+ */
+export const seedAllOpeningBalances = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const users = await ctx.db.query("users").collect();
+    for (const u of users) {
+      await ctx.scheduler.runAfter(0, internal.ledger.seedOpeningBalance, { userId: u._id });
+    }
+    return { scheduled: users.length };
+  },
+});
+
+/**
+ * rebuildUserTotals
+ * Recompute a user's totalXp / chrysolite / hp and every activity's
+ * totalXp / chrysolite from the ledger, and report where the stored values
+ * drift from it (stored − rebuilt). With dryRun (the default) nothing is
+ * written; otherwise the stored values are overwritten with the rebuilt ones.
+ */
+export const rebuildUserTotals = internalMutation({
+  args: { userId: v.id("users"), dryRun: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const dryRun = args.dryRun ?? true;
+    const user = await ctx.db.get(args.userId);
+    if (!user) throw new Error(`User not found: ${args.userId}`);
+    const events = await listUserEvents(ctx, user._id);
+
+    const rebuilt = rebuildTotals(events);
+    const userDrift = totalsDrift(
+      { totalXp: user.totalXp, chrysolite: user.chrysolite, hp: user.hp },
+      rebuilt,
+    );
+
+    const perActivity = rebuildActivityTotals(events);
+    const activities = await ctx.db
+      .query("activities")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    const activityDrift: Array<{ activityId: string; drift: Record<string, number> }> = [];
+    for (const a of activities) {
+      const expected = perActivity.get(a._id) ?? { totalXp: 0, chrysolite: 0 };
+      const drift = totalsDrift({ totalXp: a.totalXp, chrysolite: a.chrysolite ?? 0 }, expected);
+      if (Object.keys(drift).length === 0) continue;
+      activityDrift.push({ activityId: a.activityId, drift });
+      if (!dryRun) {
+        await ctx.db.patch(a._id, { totalXp: expected.totalXp, chrysolite: expected.chrysolite });
+      }
+    }
+
+    if (!dryRun && Object.keys(userDrift).length > 0) {
+      await ctx.db.patch(user._id, { ...rebuilt, updatedAt: Date.now() });
+    }
+    if (Object.keys(userDrift).length > 0 || activityDrift.length > 0) {
+      console.warn(`XP ledger drift for ${user.telegramId}`, JSON.stringify({ userDrift, activityDrift }));
+    }
+
+    return { dryRun, eventCount: events.length, rebuilt, userDrift, activityDrift };
+  },
+});
@@ -0,0 +1,146 @@
+/**
+ * convex/lib/achievements.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Achievement catalogue. No Convex imports — the rules are plain functions
+ * of an AchievementStats snapshot, so they can be tested and extended
+ * without touching the mutations.
+ *
+ * Each achievement reads one metric from the stats and unlocks once that
+ * metric reaches its target. It also names the event that moves the metric,
+ * so a mutation only has to check the achievements its own event can unlock.
+ * Unlocks are stored per user in the `achievements` table (see
+ * lib/unlocks.ts) and never revoked.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { type CategoryKey } from "./xp";
+
+// ─── Stats ────────────────────────────────────────────────────────────────────
+
+export interface AchievementStats {
+  capturedCount: number;
+  organisedCount: number;
+  doneCount: number;
+  doneByCategory: Record<CategoryKey, number>;
+  onTimeWithDeadlineCount: number; // completed before a deadline that was set
+  doneDespiteBlockCount: number;   // completed with mentalBlock set
+  evaluatedCount: number;
+  habitLogCount: number;
+  bestHabitStreak: number;         // max of habits.maxStreak
+}
+
+export function emptyStats(): AchievementStats {
+  return {
+    capturedCount: 0,
+    organisedCount: 0,
+    doneCount: 0,
+    doneByCategory: {
+      "main-quest": 0,
+      "side-quest": 0,
+      "fake-boss": 0,
+      "sleeping-dragon": 0,
+      "void-filler": 0,
+    },
+    onTimeWithDeadlineCount: 0,
+    doneDespiteBlockCount: 0,
+    evaluatedCount: 0,
+    habitLogCount: 0,
+    bestHabitStreak: 0,
+  };
+}
+
+// ─── Catalogue ────────────────────────────────────────────────────────────────
+
+/** The lifecycle step that can move an achievement's metric. */
+export type AchievementEvent = "capture" | "organise" | "done" | "evaluate" | "habit-log";
+
+export interface Achievement {
+  key: string;
+  name: string;
+  emoji: string;
+  description: string;
+  target: number;
+  on: AchievementEvent;
+  metric: (s: AchievementStats) => number;
+}
+
+export const ACHIEVEMENTS: ReadonlyArray<Achievement> = [
+  {
+    key: "first-capture", name: "Brain Dump", emoji: "⚡",
+    description: "Capture your first item",
+    target: 1, on: "capture", metric: (s) => s.capturedCount,
+  },
+  {
+    key: "organiser-50", name: "Quartermaster", emoji: "🗂️",
+    description: "Organise 50 items",
+    target: 50, on: "organise", metric: (s) => s.organisedCount,
+  },
+  {
+    key: "first-main-quest", name: "Hero's Journey", emoji: "⚔️",
+    description: "Complete your first main-quest",
+    target: 1, on: "done", metric: (s) => s.doneByCategory["main-quest"],
+  },
+  {
+    key: "dragons-10", name: "Dragon Tamer", emoji: "🐉",
+    description: "Wake ten sleeping-dragons",
+    target: 10, on: "done", metric: (s) => s.doneByCategory["sleeping-dragon"],
+  },
+  {
+    key: "done-100", name: "Centurion", emoji: "🏛️",
+    description: "Complete 100 activities",
+    target: 100, on: "done", metric: (s) => s.doneCount,
+  },
+  {
+    key: "on-time-10", name: "Right on Time", emoji: "⏰",
+    description: "Beat a deadline ten times",
+    target: 10, on: "done", metric: (s) => s.onTimeWithDeadlineCount,
+  },
+  {
+    key: "block-breaker-10", name: "Block Breaker", emoji: "🧱",
+    description: "Finish despite a mental block ten times",
+    target: 10, on: "done", metric: (s) => s.doneDespiteBlockCount,
+  },
+  {
+    key: "reflective-25", name: "Reflective Soul", emoji: "🪞",
+    description: "Evaluate 25 completed activities",
+    target: 25, on: "evaluate", metric: (s) => s.evaluatedCount,
+  },
+  {
+    key: "habit-streak-7", name: "Week Warrior", emoji: "🔥",
+    description: "Reach a 7-day habit streak",
+    target: 7, on: "habit-log", metric: (s) => s.bestHabitStreak,
+  },
+  {
+    key: "habit-streak-30", name: "Iron Habit", emoji: "🛡️",
+    description: "Reach a 30-day habit streak",
+    target: 30, on: "habit-log", metric: (s) => s.bestHabitStreak,
+  },
+  {
+    key: "habit-logs-100", name: "Creature of Habit", emoji: "📿",
+    description: "Log 100 habit sessions",
+    target: 100, on: "habit-log", metric: (s) => s.habitLogCount,
+  },
+];
+
+export function findAchievement(key: string): Achievement | undefined {
+  return ACHIEVEMENTS.find((a) => a.key === key);
+}
+
+// ─── Evaluation ───────────────────────────────────────────────────────────────
+
+export function isUnlocked(a: Achievement, stats: AchievementStats): boolean {
+  return a.metric(stats) >= a.target;
+}
+
+/** Achievements still locked that one of `events` could unlock. */
+export function candidatesFor(
+  events: ReadonlyArray<AchievementEvent>,
+  alreadyUnlocked: ReadonlySet<string>,
+): Achievement[] {
+  return ACHIEVEMENTS.filter((a) => events.includes(a.on) && !alreadyUnlocked.has(a.key));
+}
+
+/** 0..1 progress towards an achievement. */
+export function achievementProgress(a: Achievement, stats: AchievementStats): number {
+  return Math.min(1, a.metric(stats) / a.target);
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ConvexError } from "convex/values";
+import { type DatabaseReader } from "../_generated/server";
+import { type Doc, type Id } from "../_generated/dataModel";
+import { assertBotSecret, assertOwner, requireOwned, requireUser, type AuthErrorData } from "./auth";
+
+const SECRET = "bot-secret";
+
+const alice = { _id: "users:alice", telegramId: "111" } as unknown as Doc<"users">;
+const bob = { _id: "users:bob", telegramId: "222" } as unknown as Doc<"users">;
+const bobsActivity = { _id: "activities:1", userId: bob._id } as unknown as Doc<"activities">;
+
+/** Just enough of ctx.db for lib/auth: users.by_telegram_id lookups and get(). */
+function fakeCtx(users: Doc<"users">[], docs: Array<{ _id: string }>): { db: DatabaseReader } {
+  const db = {
+    query: () => ({
+      withIndex: (_index: string, range: (q: unknown) => unknown) => {
+        let telegramId: unknown;
+        range({ eq: (_field: string, value: unknown) => { telegramId = value; } });
+        return { unique: async () => users.find((u) => u.telegramId === telegramId) ?? null };
+      },
+    }),
+    get: async (id: string) => docs.find((d) => d._id === id) ?? null,
+  };
+  return { db: db as unknown as DatabaseReader };
+}
+
+/** The ConvexError code a call fails with. */
+async function errorCode(run: () => unknown): Promise<AuthErrorData["code"]> {
+  try {
+    await run();
+  } catch (e) {
+    expect(e).toBeInstanceOf(ConvexError);
+    return (e as ConvexError<AuthErrorData>).data.code;
+  }
+  throw new Error("Expected a ConvexError");
+}
+
+const ctx = fakeCtx([alice, bob], [bobsActivity]);
+
+beforeEach(() => {
+  vi.stubEnv("BOT_API_SECRET", SECRET);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("assertBotSecret", () => {
+  it("accepts the configured secret", () => {
+    expect(() => assertBotSecret(SECRET)).not.toThrow();
+  });
+
+  it("rejects any other secret as UNAUTHENTICATED", async () => {
+    expect(await errorCode(() => assertBotSecret("guess"))).toBe("UNAUTHENTICATED");
+    expect(await errorCode(() => assertBotSecret(""))).toBe("UNAUTHENTICATED");
+  });
+
+  it("refuses every call when the env var is missing", () => {
+    vi.stubEnv("BOT_API_SECRET", "");
+    expect(() => assertBotSecret("")).toThrow("Missing env var: BOT_API_SECRET");
+  });
+});
+
+describe("assertOwner", () => {
+  it("passes for the owner and is FORBIDDEN for anyone else", async () => {
+    expect(() => assertOwner(bob, bobsActivity)).not.toThrow();
+    expect(await errorCode(() => assertOwner(alice, bobsActivity))).toBe("FORBIDDEN");
+  });
+});
+
+describe("requireUser", () => {
+  it("resolves the caller by Telegram id", async () => {
+    await expect(requireUser(ctx, { telegramId: "111", botSecret: SECRET })).resolves.toBe(alice);
+  });
+
+  it("checks the secret before looking anyone up", async () => {
+    expect(await errorCode(() => requireUser(ctx, { telegramId: "111", botSecret: "guess" }))).toBe("UNAUTHENTICATED");
+  });
+
+  it("is USER_NOT_FOUND for an unknown Telegram id", async () => {
+    expect(await errorCode(() => requireUser(ctx, { telegramId: "999", botSecret: SECRET }))).toBe("USER_NOT_FOUND");
+  });
+});
+
+describe("requireOwned", () => {
+  const activityId = bobsActivity._id as Id<"activities">;
+
+  it("returns the user and their own document", async () => {
+    await expect(requireOwned(ctx, { telegramId: "222", botSecret: SECRET }, activityId))
+      .resolves.toEqual({ user: bob, doc: bobsActivity });
+  });
+
+  it("is FORBIDDEN when another user's doc id is passed", async () => {
+    expect(await errorCode(() => requireOwned(ctx, { telegramId: "111", botSecret: SECRET }, activityId)))
+      .toBe("FORBIDDEN");
+  });
+
+  it("rejects a spoofed Telegram id sent without the secret", async () => {
+    expect(await errorCode(() => requireOwned(ctx, { telegramId: "222", botSecret: "guess" }, activityId)))
+      .toBe("UNAUTHENTICATED");
+  });
+
+  it("is NOT_FOUND for a doc id that doesn't exist", async () => {
+    const missing = "activities:404" as Id<"activities">;
+    expect(await errorCode(() => requireOwned(ctx, { telegramId: "111", botSecret: SECRET }, missing)))
+      .toBe("NOT_FOUND");
+  });
+
+  it("is USER_NOT_FOUND before touching the doc for an unknown caller", async () => {
+    expect(await errorCode(() => requireOwned(ctx, { telegramId: "999", botSecret: SECRET }, activityId)))
+      .toBe("USER_NOT_FOUND");
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * convex/lib/auth.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Ownership checks shared by every mutation that takes a document id.
+ *
+ * Callers (bot via convex.js, Mini App via http.ts) pass the Telegram id of
+ * the user acting. We resolve it through users.by_telegram_id and refuse to
+ * touch any activity / goal / habit / reward / recurring template that
+ * belongs to someone else, so a leaked or guessed doc id can't be used to
+ * move XP between accounts.
+ *
+ * Public mutations are reachable by anyone through /api/mutation, so the
+ * Telegram id alone proves nothing. Both trusted callers also send the
+ * BOT_API_SECRET env var as `botSecret` (callerArgs), and every public
+ * mutation checks it before doing anything else.
+ *
+ * Failures are thrown as ConvexError<AuthErrorData> so clients can branch on
+ * `error.data.code` instead of parsing messages. Mutations use the same
+ * shape for the caller's own mistakes: INVALID_INPUT for a bad value,
+ * CONFLICT for an action the document's or user's state doesn't allow.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { ConvexError, v } from "convex/values";
+import { type DatabaseReader } from "../_generated/server";
+import { type Doc, type Id } from "../_generated/dataModel";
+import { safeEqual } from "./telegramAuth";
+
+export type AuthErrorCode =
+  | "UNAUTHENTICATED"
+  | "USER_NOT_FOUND"
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "INVALID_INPUT"
+  | "CONFLICT";
+
+export type AuthErrorData = {
+  code: AuthErrorCode;
+  message: string;
+};
+
+export function authError(code: AuthErrorCode, message: string): ConvexError<AuthErrorData> {
+  return new ConvexError({ code, message });
+}
+
+/** Args every public mutation acting for a Telegram user takes. */
+export const callerArgs = { telegramId: v.string(), botSecret: v.string() };
+
+export type Caller = { telegramId: string; botSecret: string };
+
+/**
+ * The shared secret check. Throws UNAUTHENTICATED when `botSecret` isn't
+ * BOT_API_SECRET; a deployment without the env var refuses every call.
+ */
+export function assertBotSecret(botSecret: string): void {
+  const expected = process.env.BOT_API_SECRET;
+  if (!expected) throw new Error("Missing env var: BOT_API_SECRET");
+  if (!safeEqual(botSecret, expected)) {
+    throw authError("UNAUTHENTICATED", "Invalid bot secret");
+  }
+}
+
+/** Tables whose documents carry a `userId` owner field. */
+type OwnedTable = "activities" | "goals" | "habits" | "rewards" | "recurringTemplates";
+
+/**
+ * Pure ownership rule: the document must belong to the user.
+ * Throws FORBIDDEN otherwise.
+ */
+export function assertOwner(user: Doc<"users">, doc: { userId: Id<"users"> }): void {
+  if (doc.userId !== user._id) {
+    throw authError("FORBIDDEN", "This item belongs to another user");
+  }
+}
+
+/** Check the caller's secret and resolve them by Telegram id. */
+export async function requireUser(
+  ctx: { db: DatabaseReader },
+  { telegramId, botSecret }: Caller,
+): Promise<Doc<"users">> {
+  assertBotSecret(botSecret);
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_telegram_id", (q) => q.eq("telegramId", telegramId))
+    .unique();
+  if (!user) throw authError("USER_NOT_FOUND", `User not found: ${telegramId}`);
+  return user;
+}
+
+/**
+ * Load a document and check it belongs to the calling user.
+ * Returns both so the mutation doesn't have to re-read the user.
+ */
+export async function requireOwned<T extends OwnedTable>(
+  ctx: { db: DatabaseReader },
+  caller: Caller,
+  docId: Id<T>,
+): Promise<{ user: Doc<"users">; doc: Doc<T> }> {
+  const user = await requireUser(ctx, caller);
+  const doc = (await ctx.db.get(docId)) as (Doc<T> & { userId: Id<"users"> }) | null;
+  if (!doc) throw authError("NOT_FOUND", "Item not found");
+  assertOwner(user, doc);
+  return { user, doc };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { ConvexError } from "convex/values";
+import { assertEvaluable } from "./award";
+import { type AuthErrorData } from "./auth";
+
+/** The ConvexError code a call fails with. */
+function errorCode(run: () => unknown): AuthErrorData["code"] {
+  try {
+    run();
+  } catch (e) {
+    expect(e).toBeInstanceOf(ConvexError);
+    return (e as ConvexError<AuthErrorData>).data.code;
+  }
+  throw new Error("Expected a ConvexError");
+}
+
+describe("assertEvaluable", () => {
+  it("lets a completed, unevaluated activity through", () => {
+    expect(() => assertEvaluable({ doneXp: 40 })).not.toThrow();
+  });
+
+  it("is CONFLICT before the activity is completed", () => {
+    expect(errorCode(() => assertEvaluable({}))).toBe("CONFLICT");
+  });
+
+  it("is CONFLICT once the activity has been evaluated, so XP and HP aren't paid twice", () => {
+    expect(errorCode(() => assertEvaluable({ doneXp: 40, evaluateXp: 13 }))).toBe("CONFLICT");
+  });
+
+  it("counts an evaluation that earned 0 XP as done", () => {
+    expect(errorCode(() => assertEvaluable({ doneXp: 40, evaluateXp: 0 }))).toBe("CONFLICT");
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * convex/lib/award.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * The one place user totals change.
+ *
+ * Every lifecycle mutation that earns XP, chrysolite or HP calls awardUser()
+ * instead of patching the user directly, so the knockout rules in lib/hp.ts
+ * apply everywhere the same way and every change lands in the xpEvents
+ * ledger (lib/ledger.ts).
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { type MutationCtx } from "../_generated/server";
+import { type Doc, type Id } from "../_generated/dataModel";
+import { authError } from "./auth";
+import { applyHpDelta, scaleXpForHp, REVIVE_HP } from "./hp";
+import { appendXpEvent, type LedgerSource } from "./ledger";
+import { detectLevelUp, type LevelUp } from "./levels";
+
+export interface Award {
+  source: LedgerSource;
+  xp: number;
+  chrysolite?: number;
+  hpDelta?: number;
+  activityDocId?: Id<"activities">;
+  habitDocId?: Id<"habits">;
+  goalDocId?: Id<"goals">;
+}
+
+export interface AwardResult {
+  xp: number;          // XP actually credited (after the knockout multiplier)
+  chrysolite: number;  // new balance
+  hp: number;          // new HP
+  knockedOut: boolean; // this award dropped the user to 0 HP
+  levelUp: LevelUp | null;
+}
+
+export async function awardUser(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  award: Award,
+  now: number = Date.now(),
+): Promise<AwardResult> {
+  const xp = scaleXpForHp(award.xp, user);
+  const change = applyHpDelta(user, award.hpDelta ?? 0, now);
+  const chrysoliteDelta = award.chrysolite ?? 0;
+  const chrysolite = user.chrysolite + chrysoliteDelta;
+  await ctx.db.patch(user._id, {
+    totalXp: user.totalXp + xp,
+    chrysolite,
+    hp: change.hp,
+    knockedOutAt: change.knockedOutAt,
+    updatedAt: now,
+  });
+  await appendXpEvent(ctx, user._id, {
+    source: award.source,
+    xp,
+    chrysolite: chrysoliteDelta,
+    hp: change.hp - user.hp,
+    activityDocId: award.activityDocId,
+    habitDocId: award.habitDocId,
+    goalDocId: award.goalDocId,
+  }, now);
+  return {
+    xp, chrysolite, hp: change.hp, knockedOut: change.knockedOut,
+    levelUp: detectLevelUp(user.totalXp, user.totalXp + xp),
+  };
+}
+
+/**
+ * Bring a knocked-out user back to REVIVE_HP, charging chrysoliteCost.
+ * Pass a freshly read user doc — the HP delta is logged against it.
+ */
+export async function reviveUser(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  opts: { chrysoliteCost?: number; activityDocId?: Id<"activities"> } = {},
+  now: number = Date.now(),
+) {
+  const cost = opts.chrysoliteCost ?? 0;
+  const chrysolite = user.chrysolite - cost;
+  await ctx.db.patch(user._id, { hp: REVIVE_HP, chrysolite, knockedOutAt: undefined, updatedAt: now });
+  await appendXpEvent(ctx, user._id, {
+    source: "revive",
+    xp: 0,
+    chrysolite: -cost,
+    hp: REVIVE_HP - user.hp,
+    activityDocId: opts.activityDocId,
+  }, now);
+  return { hp: REVIVE_HP, chrysolite };
+}
+
+/**
+ * Evaluating pays XP and restores HP, so it happens once per activity: the
+ * activity must be completed and carry no evaluateXp yet. Throws CONFLICT
+ * otherwise.
+ */
+export function assertEvaluable(activity: Pick<Doc<"activities">, "doneXp" | "evaluateXp">): void {
+  if (!activity.doneXp) throw authError("CONFLICT", "Activity not completed");
+  if (activity.evaluateXp !== undefined) throw authError("CONFLICT", "Activity already evaluated");
+}
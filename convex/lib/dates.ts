@@ -0,0 +1,84 @@
+/**
+ * convex/lib/dates.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Calendar-day helpers that respect the user's IANA timezone
+ * (users.settings.timezone). Pure functions, no Convex imports.
+ *
+ * A "day key" is the local calendar date as "YYYY-MM-DD". Keys sort
+ * lexicographically and can be diffed with daysBetween().
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Fall back to UTC for missing or unknown timezone strings. */
+export function safeTimeZone(timeZone: string | undefined): string {
+  if (!timeZone) return "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return "UTC";
+  }
+}
+
+/** Local calendar date of an instant, e.g. 1700000000000 → "2023-11-14". */
+export function localDayKey(epochMs: number, timeZone?: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: safeTimeZone(timeZone),
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(epochMs));
+}
+
+/** Day key → whole days since 1970-01-01 (timezone-free). */
+export function dayNumber(dayKey: string): number {
+  const [y, m, d] = dayKey.split("-").map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+}
+
+/** Inverse of dayNumber: 19675 → "2023-11-14". */
+export function dayKeyFromNumber(n: number): string {
+  return new Date(n * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Day of the week of a day key, 0 = Sunday … 6 = Saturday. */
+export function weekdayOf(dayKey: string): number {
+  return new Date(dayNumber(dayKey) * DAY_MS).getUTCDay();
+}
+
+/** Whole calendar days from `from` to `to` (negative if `to` is earlier). */
+export function daysBetween(from: string, to: string): number {
+  return dayNumber(to) - dayNumber(from);
+}
+
+/** Minutes since local midnight, 0–1439. */
+export function localMinuteOfDay(epochMs: number, timeZone?: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: safeTimeZone(timeZone),
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(epochMs));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return get("hour") * 60 + get("minute");
+}
+
+/**
+ * Instant at which the local clock in `timeZone` shows `minuteOfDay` on
+ * `dayKey`. A wall-clock time skipped by a DST jump resolves to the
+ * instant just after the jump.
+ */
+export function localTimeToEpoch(dayKey: string, minuteOfDay: number, timeZone?: string): number {
+  const wallClock = dayNumber(dayKey) * DAY_MS + minuteOfDay * 60 * 1000;
+  // Guess with the offset at the wall-clock time read as UTC, then once more
+  // with the offset at the guess in case it lies across a DST change
+  let t = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const shown = dayNumber(localDayKey(t, timeZone)) * DAY_MS + localMinuteOfDay(t, timeZone) * 60 * 1000;
+    t += wallClock - shown;
+  }
+  return t;
+}
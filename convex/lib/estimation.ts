@@ -0,0 +1,145 @@
+/**
+ * convex/lib/estimation.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * How well a user's time estimates hold up. Pure functions, no Convex imports.
+ *
+ * Every finished activity with both estMinutes and actualMinutes is a sample.
+ * For a group of samples:
+ *   - ratio       total actual / total estimated minutes (1 = spot on,
+ *                 1.5 = things take half again as long as planned)
+ *   - biasMinutes mean of actual − estimate per item; positive means the
+ *                 user under-estimates
+ *   - spread      standard deviation of the per-item actual/estimate ratio,
+ *                 i.e. how consistent the misjudgement is
+ *   - onTarget    share of items that landed within ±20% of the estimate
+ *   - correction  the ratio clamped to 0.5–3, or 1 when there are too few
+ *                 samples to learn from; multiply a new estimate by it
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+export interface EstimateSample {
+  estMinutes: number;
+  actualMinutes: number;
+}
+
+export const MIN_SAMPLES = 3;
+const CORRECTION_MIN = 0.5;
+const CORRECTION_MAX = 3;
+const ON_TARGET_TOLERANCE = 0.2;
+
+export interface EstimateStats {
+  count: number;
+  estMinutes: number;    // total
+  actualMinutes: number; // total
+  ratio: number;
+  biasMinutes: number;
+  spread: number;
+  onTarget: number;      // 0–1
+  correction: number;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function usable<T extends EstimateSample>(samples: ReadonlyArray<T>): T[] {
+  return samples.filter((s) => s.estMinutes > 0 && s.actualMinutes > 0);
+}
+
+/**
+ * Total actual over total estimated minutes, clamped to 0.5–3. With fewer
+ * than three samples there is nothing to learn from yet and estimates are
+ * taken at face value.
+ */
+export function estimateScale(samples: ReadonlyArray<EstimateSample>): number {
+  const ok = usable(samples);
+  if (ok.length < MIN_SAMPLES) return 1;
+  const est = ok.reduce((sum, s) => sum + s.estMinutes, 0);
+  const actual = ok.reduce((sum, s) => sum + s.actualMinutes, 0);
+  return Math.min(CORRECTION_MAX, Math.max(CORRECTION_MIN, actual / est));
+}
+
+export function estimateStats(samples: ReadonlyArray<EstimateSample>): EstimateStats {
+  const ok = usable(samples);
+  const count = ok.length;
+  const est = ok.reduce((sum, s) => sum + s.estMinutes, 0);
+  const actual = ok.reduce((sum, s) => sum + s.actualMinutes, 0);
+  if (!count) {
+    return { count: 0, estMinutes: 0, actualMinutes: 0, ratio: 1, biasMinutes: 0, spread: 0, onTarget: 0, correction: 1 };
+  }
+  const ratios = ok.map((s) => s.actualMinutes / s.estMinutes);
+  const meanRatio = ratios.reduce((sum, r) => sum + r, 0) / count;
+  const variance = ratios.reduce((sum, r) => sum + (r - meanRatio) ** 2, 0) / count;
+  return {
+    count,
+    estMinutes: est,
+    actualMinutes: actual,
+    ratio: round2(actual / est),
+    biasMinutes: Math.round((actual - est) / count),
+    spread: round2(Math.sqrt(variance)),
+    onTarget: round2(ratios.filter((r) => Math.abs(r - 1) <= ON_TARGET_TOLERANCE).length / count),
+    correction: round2(estimateScale(ok)),
+  };
+}
+
+// ─── Breakdown ────────────────────────────────────────────────────────────────
+
+export interface DimensionedSample extends EstimateSample {
+  category?: string;
+  lifeArea?: string;
+  exeType?: string;
+  mentalBlock?: boolean;
+}
+
+export type EstimateDimension = "category" | "lifeArea" | "exeType" | "mentalBlock";
+export const ESTIMATE_DIMENSIONS: EstimateDimension[] = ["category", "lifeArea", "exeType", "mentalBlock"];
+
+export interface EstimateGroup extends EstimateStats {
+  key: string;
+}
+
+export interface EstimateBreakdown {
+  overall: EstimateStats;
+  groups: Record<EstimateDimension, EstimateGroup[]>; // most samples first
+}
+
+function groupKey(s: DimensionedSample, dim: EstimateDimension): string | undefined {
+  if (dim === "mentalBlock") return s.mentalBlock ? "mental block" : "no block";
+  return s[dim];
+}
+
+export function estimationBreakdown(samples: ReadonlyArray<DimensionedSample>): EstimateBreakdown {
+  const ok = usable(samples);
+  const groups = {} as Record<EstimateDimension, EstimateGroup[]>;
+  for (const dim of ESTIMATE_DIMENSIONS) {
+    const byKey = new Map<string, DimensionedSample[]>();
+    for (const s of ok) {
+      const key = groupKey(s, dim);
+      if (key === undefined) continue;
+      byKey.set(key, [...(byKey.get(key) ?? []), s]);
+    }
+    groups[dim] = [...byKey]
+      .map(([key, group]) => ({ key, ...estimateStats(group) }))
+      .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+  }
+  return { overall: estimateStats(ok), groups };
+}
+
+/**
+ * The most specific correction factor with enough samples behind it for an
+ * activity: its category, then its life area, then the user's overall one.
+ */
+export function correctionFor(
+  breakdown: EstimateBreakdown,
+  activity: { category?: string; lifeArea?: string },
+): { correction: number; basis: string } {
+  const tries: Array<[EstimateDimension, string | undefined]> = [
+    ["category", activity.category],
+    ["lifeArea", activity.lifeArea],
+  ];
+  for (const [dim, key] of tries) {
+    const group = key ? breakdown.groups[dim].find((g) => g.key === key) : undefined;
+    if (group && group.count >= MIN_SAMPLES) return { correction: group.correction, basis: key! };
+  }
+  return { correction: breakdown.overall.correction, basis: "overall" };
+}
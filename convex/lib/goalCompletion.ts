@@ -0,0 +1,70 @@
+/**
+ * convex/lib/goalCompletion.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Applies goal completion rules (lib/goals.ts) on the `goals` table.
+ *
+ * Called after an activity closes, and when a rule is set. Work on a
+ * milestone counts towards every goal above it, so the goals checked are the
+ * given ones plus their ancestors. A goal whose rule is met moves to
+ * "completed" and its bonus goes through awardUser with ledger source
+ * "goal"; goals without a rule are only completed by hand.
+ *
+ * The bonus is paid once per goal. completionXp marks a goal its rule has
+ * already completed, so reopening it with updateGoal can't earn it again,
+ * whether it is checked directly or as an ancestor.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { type MutationCtx } from "../_generated/server";
+import { type Id } from "../_generated/dataModel";
+import { awardUser } from "./award";
+import { ancestorGoalIds, childrenByGoal, isRuleMet, subtreeGoalIds } from "./goals";
+import { computeGoalCompletionXp } from "./xp";
+
+export interface CompletedGoal {
+  goalId: string;
+  title: string;
+  bonusXp: number;
+}
+
+export async function completeGoalsIfRuleMet(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  goalIds: ReadonlyArray<string | undefined>,
+  now: number,
+): Promise<CompletedGoal[]> {
+  const given = goalIds.filter((id): id is string => !!id);
+  if (given.length === 0) return [];
+  const goals = await ctx.db
+    .query("goals")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  const byGoalId = new Map(goals.map((g) => [g.goalId, g]));
+  const children = childrenByGoal(goals);
+  const toCheck = new Set(given.flatMap((id) => ancestorGoalIds(id, goals)));
+
+  const completed: CompletedGoal[] = [];
+  for (const goalId of toCheck) {
+    const goal = byGoalId.get(goalId);
+    if (!goal || goal.status !== "active" || !goal.completionRule) continue;
+    if (goal.completionXp !== undefined) continue;
+    const linked = [];
+    for (const id of subtreeGoalIds(goalId, children)) {
+      linked.push(...await ctx.db
+        .query("activities")
+        .withIndex("by_user_goal", (q) => q.eq("userId", userId).eq("goalId", id))
+        .collect());
+    }
+    if (!isRuleMet(goal.completionRule, linked)) continue;
+
+    const user = (await ctx.db.get(userId))!;
+    const { xp } = await awardUser(ctx, user, {
+      source: "goal", goalDocId: goal._id, xp: computeGoalCompletionXp(goal.category),
+    }, now);
+    await ctx.db.patch(goal._id, {
+      status: "completed", completedAt: now, completionXp: xp, updatedAt: now,
+    });
+    completed.push({ goalId, title: goal.title, bonusXp: xp });
+  }
+  return completed;
+}
@@ -0,0 +1,135 @@
+/**
+ * convex/lib/goals.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Goal progress and completion rules. Pure functions, no Convex imports.
+ *
+ * Progress is derived from the activities that link to a goal through
+ * activities.goalId. Abandoned activities are left out of the totals.
+ *
+ * A completion rule ("complete when N linked main-quests are done") is
+ * optional. It counts activities linked to the goal or to any goal below it,
+ * and when it is met the goal moves to "completed" and pays
+ * computeGoalCompletionXp once (see lib/goalCompletion.ts).
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { type CategoryKey, type HorizonKey } from "./xp";
+import { isDone } from "./graph";
+
+export interface CompletionRule {
+  count: number;           // how many linked activities must be done
+  category?: CategoryKey;  // only count this category; any when unset
+}
+
+export interface GoalActivity {
+  status: string;
+  category?: CategoryKey;
+  totalXp: number;
+  actualMinutes?: number;
+  capturedAt: number;
+  completedAt?: number;
+}
+
+export interface GoalProgress {
+  total: number;
+  completed: number;
+  xpEarned: number;
+  minutesSpent: number;
+  lastActivityAt: number | null; // latest capture or completion
+}
+
+export function summariseGoal(activities: ReadonlyArray<GoalActivity>): GoalProgress {
+  const progress: GoalProgress = { total: 0, completed: 0, xpEarned: 0, minutesSpent: 0, lastActivityAt: null };
+  for (const a of activities) {
+    if (a.status === "abandoned") continue;
+    progress.total++;
+    if (isDone(a.status)) progress.completed++;
+    progress.xpEarned += a.totalXp;
+    progress.minutesSpent += a.actualMinutes ?? 0;
+    const last = a.completedAt ?? a.capturedAt;
+    progress.lastActivityAt = Math.max(progress.lastActivityAt ?? 0, last);
+  }
+  return progress;
+}
+
+export function isValidRule(rule: CompletionRule): boolean {
+  return Number.isInteger(rule.count) && rule.count >= 1;
+}
+
+/** Done activities that count towards the rule. */
+export function ruleProgress(rule: CompletionRule, activities: ReadonlyArray<GoalActivity>): number {
+  return activities.filter(
+    (a) => isDone(a.status) && (rule.category === undefined || a.category === rule.category),
+  ).length;
+}
+
+export function isRuleMet(rule: CompletionRule, activities: ReadonlyArray<GoalActivity>): boolean {
+  return ruleProgress(rule, activities) >= rule.count;
+}
+
+// ─── Hierarchy ────────────────────────────────────────────────────────────────
+// Goals nest through goals.parentGoalId: an annum goal can hold quarterly
+// milestones, which hold monthly ones, and so on. A child's horizon must be
+// strictly shorter than its parent's, which also rules out cycles.
+
+const HORIZON_RANK: Record<HorizonKey, number> = {
+  today: 0, week: 1, month: 2, quarter: 3, annum: 4, someday: 5,
+};
+
+export function isShorterHorizon(child: HorizonKey, parent: HorizonKey): boolean {
+  return HORIZON_RANK[child] < HORIZON_RANK[parent];
+}
+
+export interface GoalLink {
+  goalId: string;
+  parentGoalId?: string;
+}
+
+/** goalId → goalIds of its direct children. */
+export function childrenByGoal(goals: ReadonlyArray<GoalLink>): Map<string, string[]> {
+  const out = new Map<string, string[]>();
+  for (const g of goals) {
+    if (!g.parentGoalId) continue;
+    out.set(g.parentGoalId, [...(out.get(g.parentGoalId) ?? []), g.goalId]);
+  }
+  return out;
+}
+
+/** The goal and every goal below it. */
+export function subtreeGoalIds(goalId: string, children: ReadonlyMap<string, string[]>): string[] {
+  const out: string[] = [];
+  const stack = [goalId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    out.push(id);
+    stack.push(...(children.get(id) ?? []));
+  }
+  return out;
+}
+
+/** The goal and every goal above it, nearest first. */
+export function ancestorGoalIds(goalId: string, goals: ReadonlyArray<GoalLink>): string[] {
+  const parentOf = new Map(goals.map((g) => [g.goalId, g.parentGoalId]));
+  const out: string[] = [];
+  for (let id: string | undefined = goalId; id && !out.includes(id); id = parentOf.get(id)) {
+    out.push(id);
+  }
+  return out;
+}
+
+/** Combine a goal's own progress with its child goals' rolled-up progress. */
+export function rollUpProgress(own: GoalProgress, children: ReadonlyArray<GoalProgress>): GoalProgress {
+  return children.reduce<GoalProgress>(
+    (acc, c) => ({
+      total: acc.total + c.total,
+      completed: acc.completed + c.completed,
+      xpEarned: acc.xpEarned + c.xpEarned,
+      minutesSpent: acc.minutesSpent + c.minutesSpent,
+      lastActivityAt:
+        acc.lastActivityAt === null ? c.lastActivityAt
+        : c.lastActivityAt === null ? acc.lastActivityAt
+        : Math.max(acc.lastActivityAt, c.lastActivityAt),
+    }),
+    own,
+  );
+}
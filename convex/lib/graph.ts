@@ -0,0 +1,78 @@
+/**
+ * convex/lib/graph.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Activity dependency graph. Pure functions, no Convex imports.
+ *
+ * Nodes are a user's activities keyed by activityId ("A-0042"). An edge
+ * a → b means "a waits on b":
+ *   - a.dependsOn = b          (b is a prerequisite of a)
+ *   - b.parentActivityId = a   (a is a project, b one of its subtasks)
+ * The graph must stay acyclic, otherwise something would wait on itself
+ * forever. A node is blocked while any node it waits on is still open.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+export interface GraphNode {
+  activityId: string;
+  status: string;
+  dependsOn?: string;
+  parentActivityId?: string;
+}
+
+export type WaitsOn = Map<string, string[]>;
+
+export function isDone(status: string): boolean {
+  return status === "complete" || status === "complete-late";
+}
+
+/** Done or given up — either way, nothing should wait on it any more. */
+export function isClosed(status: string): boolean {
+  return isDone(status) || status === "abandoned";
+}
+
+export function buildWaitsOn(nodes: ReadonlyArray<GraphNode>): WaitsOn {
+  const graph: WaitsOn = new Map(nodes.map((n) => [n.activityId, []]));
+  const add = (from: string, to: string) => graph.set(from, [...(graph.get(from) ?? []), to]);
+  for (const n of nodes) {
+    if (n.dependsOn) add(n.activityId, n.dependsOn);
+    if (n.parentActivityId) add(n.parentActivityId, n.activityId);
+  }
+  return graph;
+}
+
+/** activityIds `node` waits on that are still open (unknown ids are ignored). */
+export function openPrerequisites(
+  node: GraphNode,
+  graph: WaitsOn,
+  byId: ReadonlyMap<string, GraphNode>,
+): string[] {
+  return (graph.get(node.activityId) ?? []).filter((id) => {
+    const other = byId.get(id);
+    return other !== undefined && !isClosed(other.status);
+  });
+}
+
+/** Every open node that is blocked, with what it's waiting on. */
+export function blockedActivities(nodes: ReadonlyArray<GraphNode>): Map<string, string[]> {
+  const graph = buildWaitsOn(nodes);
+  const byId = new Map(nodes.map((n) => [n.activityId, n]));
+  const out = new Map<string, string[]>();
+  for (const n of nodes) {
+    if (isClosed(n.status)) continue;
+    const open = openPrerequisites(n, graph, byId);
+    if (open.length > 0) out.set(n.activityId, open);
+  }
+  return out;
+}
+
+/**
+ * A project completes once all of its subtasks are closed and at least one
+ * was actually done — a project whose subtasks were all abandoned stays open.
+ */
+export function readyToRollUp(children: ReadonlyArray<GraphNode>): boolean {
+  return (
+    children.length > 0 &&
+    children.every((c) => isClosed(c.status)) &&
+    children.some((c) => isDone(c.status))
+  );
+}
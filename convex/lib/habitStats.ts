@@ -0,0 +1,41 @@
+/**
+ * convex/lib/habitStats.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Aggregates stored on a habit (avgDifficulty, latest emotions, average
+ * emotion delta), recomputed from its full habitLogs history on every log.
+ * Pure functions, no Convex imports.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+export const DIFFICULTY_SCORE: Record<string, number> = {
+  easy: 1,
+  medium: 2,
+  hard: 3,
+  peak: 4,
+};
+
+export interface HabitLogLike {
+  loggedAt: number;
+  difficulty: string;
+  feelingBefore?: string;
+  feelingAfter?: string;
+  emotionDelta: number;
+}
+
+export function summarizeHabitLogs<L extends HabitLogLike>(logs: L[]): {
+  avgDifficulty?: number;
+  emotionBefore?: L["feelingBefore"];
+  emotionAfter?: L["feelingAfter"];
+  emotionDelta?: number;
+} {
+  if (logs.length === 0) return {};
+  const sorted = [...logs].sort((a, b) => a.loggedAt - b.loggedAt);
+  const latest = sorted[sorted.length - 1];
+  const avg = (xs: number[]) => Math.round((xs.reduce((a, b) => a + b, 0) / xs.length) * 100) / 100;
+  return {
+    avgDifficulty: avg(sorted.map((l) => DIFFICULTY_SCORE[l.difficulty] ?? 0)),
+    emotionBefore: latest.feelingBefore,
+    emotionAfter: latest.feelingAfter,
+    emotionDelta: avg(sorted.map((l) => l.emotionDelta)),
+  };
+}
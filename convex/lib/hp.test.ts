@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  ABANDON_HP_PENALTY,
+  HP_DELTA,
+  MAX_HP,
+  REVIVE_CHRYSOLITE_COST,
+  abandonHpDelta,
+  applyHpDelta,
+  canReviveWithChrysolite,
+  recoveryMinutesLeft,
+  scaleXpForHp,
+} from "./hp";
+
+const NOW = 1_700_000_000_000;
+
+describe("applyHpDelta", () => {
+  it("moves HP by the delta", () => {
+    expect(applyHpDelta({ hp: 60 }, HP_DELTA.lateCompletion, NOW)).toEqual({
+      hp: 50, knockedOutAt: undefined, knockedOut: false,
+    });
+  });
+
+  it("knocks the user out when HP hits 0", () => {
+    expect(applyHpDelta({ hp: 5 }, HP_DELTA.overdue, NOW)).toEqual({ hp: 0, knockedOutAt: NOW, knockedOut: true });
+    expect(applyHpDelta({ hp: 4 }, -15, NOW)).toEqual({ hp: 0, knockedOutAt: NOW, knockedOut: true });
+  });
+
+  it("keeps a knocked-out user at 0 HP, whatever the delta", () => {
+    const out = { hp: 0, knockedOutAt: NOW - 1000 };
+    expect(applyHpDelta(out, HP_DELTA.onTimeCompletion, NOW)).toEqual({
+      hp: 0, knockedOutAt: NOW - 1000, knockedOut: false,
+    });
+    expect(applyHpDelta(out, -10, NOW).knockedOut).toBe(false);
+  });
+
+  it("never heals past MAX_HP", () => {
+    expect(applyHpDelta({ hp: MAX_HP - 1 }, HP_DELTA.onTimeCompletion, NOW).hp).toBe(MAX_HP);
+    expect(applyHpDelta({ hp: MAX_HP }, HP_DELTA.habitLog, NOW).hp).toBe(MAX_HP);
+  });
+});
+
+describe("scaleXpForHp", () => {
+  const out = { hp: 0, knockedOutAt: NOW };
+
+  it("leaves XP alone while the user is up", () => {
+    expect(scaleXpForHp(40, { hp: 30 })).toBe(40);
+  });
+
+  it("halves gains while knocked out, but always pays at least 1", () => {
+    expect(scaleXpForHp(40, out)).toBe(20);
+    expect(scaleXpForHp(1, out)).toBe(1);
+  });
+
+  it("doesn't soften losses while knocked out", () => {
+    expect(scaleXpForHp(-30, out)).toBe(-30);
+    expect(scaleXpForHp(0, out)).toBe(0);
+  });
+});
+
+describe("abandonHpDelta", () => {
+  it("costs more the more the category matters", () => {
+    expect(abandonHpDelta("main-quest")).toBe(-15);
+    expect(abandonHpDelta("sleeping-dragon")).toBe(-10);
+    expect(abandonHpDelta("side-quest")).toBe(-6);
+    expect(abandonHpDelta("fake-boss")).toBe(-4);
+    expect(abandonHpDelta("void-filler")).toBe(-2);
+  });
+
+  it("charges the minimum for an unorganised item", () => {
+    expect(abandonHpDelta(undefined)).toBe(ABANDON_HP_PENALTY["void-filler"]);
+  });
+});
+
+describe("recoveryMinutesLeft", () => {
+  it("owes the whole quest before any focus", () => {
+    expect(recoveryMinutesLeft(0)).toBe(15);
+  });
+
+  it("rounds a part-minute up", () => {
+    expect(recoveryMinutesLeft(10.2)).toBe(5);
+    expect(recoveryMinutesLeft(14.9)).toBe(1);
+  });
+
+  it("is 0 once the estimate is reached or passed", () => {
+    expect(recoveryMinutesLeft(15)).toBe(0);
+    expect(recoveryMinutesLeft(40)).toBe(0);
+  });
+});
+
+describe("canReviveWithChrysolite", () => {
+  it("needs at least REVIVE_CHRYSOLITE_COST", () => {
+    expect(canReviveWithChrysolite(REVIVE_CHRYSOLITE_COST)).toBe(true);
+    expect(canReviveWithChrysolite(REVIVE_CHRYSOLITE_COST + 1)).toBe(true);
+    expect(canReviveWithChrysolite(REVIVE_CHRYSOLITE_COST - 1)).toBe(false);
+    expect(canReviveWithChrysolite(0)).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * convex/lib/hp.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Pure HP (health) rules. No Convex imports — sits next to xp.ts so the
+ * numbers can be tuned and tested on their own.
+ *
+ * HP Philosophy:
+ *   Late completions, missed deadlines and abandoned activities hurt,
+ *   showing up heals.
+ *   On-time completions, habit logs and evaluations each restore a little HP.
+ *   Dropping to 0 HP knocks the user out: XP gains are reduced and HP stops
+ *   recovering until they revive, either by spending chrysolite or by
+ *   finishing a small recovery quest.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { type CategoryKey } from "./xp";
+
+// ─── Limits ───────────────────────────────────────────────────────────────────
+
+export const MAX_HP = 100;
+
+// ─── HP Changes ───────────────────────────────────────────────────────────────
+
+export const HP_DELTA = {
+  lateCompletion: -10,
+  onTimeCompletion: 5,
+  habitLog: 3,
+  evaluation: 2,
+  overdue: -5,  // once per missed deadline, applied by the deadline sweep
+} as const;
+
+// Abandoning costs more the more the activity mattered. Items dropped
+// before they were organised have no category and cost the minimum.
+export const ABANDON_HP_PENALTY: Record<CategoryKey, number> = {
+  "main-quest": -15,
+  "sleeping-dragon": -10,
+  "side-quest": -6,
+  "fake-boss": -4,
+  "void-filler": -2,
+};
+
+export function abandonHpDelta(category: CategoryKey | undefined): number {
+  return category ? ABANDON_HP_PENALTY[category] : ABANDON_HP_PENALTY["void-filler"];
+}
+
+export function clampHp(hp: number): number {
+  return Math.max(0, Math.min(MAX_HP, Math.round(hp)));
+}
+
+export function completionHpDelta(isLate: boolean): number {
+  return isLate ? HP_DELTA.lateCompletion : HP_DELTA.onTimeCompletion;
+}
+
+// ─── Knockout ─────────────────────────────────────────────────────────────────
+// While knocked out, every XP award is scaled down by this factor.
+
+export const KNOCKOUT_XP_MULTIPLIER = 0.5;
+
+export interface HpState {
+  hp: number;
+  knockedOutAt?: number; // epoch ms; set while the user is knocked out
+}
+
+export interface HpChange {
+  hp: number;
+  knockedOutAt: number | undefined;
+  knockedOut: boolean; // true only on the change that caused the knockout
+}
+
+export function isKnockedOut(state: HpState): boolean {
+  return state.knockedOutAt !== undefined;
+}
+
+/**
+ * Apply an HP delta. A knocked-out user's HP is frozen at 0 — only a revive
+ * brings them back, so recovery can't happen by accident.
+ */
+export function applyHpDelta(state: HpState, delta: number, now: number): HpChange {
+  if (isKnockedOut(state)) {
+    return { hp: 0, knockedOutAt: state.knockedOutAt, knockedOut: false };
+  }
+  const hp = clampHp(state.hp + delta);
+  if (hp === 0) return { hp, knockedOutAt: now, knockedOut: true };
+  return { hp, knockedOutAt: undefined, knockedOut: false };
+}
+
+export function scaleXpForHp(xp: number, state: HpState): number {
+  if (!isKnockedOut(state) || xp <= 0) return xp;
+  return Math.max(1, Math.round(xp * KNOCKOUT_XP_MULTIPLIER));
+}
+
+// ─── Revival ──────────────────────────────────────────────────────────────────
+
+export const REVIVE_CHRYSOLITE_COST = 3;
+export const REVIVE_HP = 50;
+
+export type ReviveMethod = "chrysolite" | "recovery-quest";
+
+// Recovery quest: a short, pre-organised task that gets the user moving again.
+export const RECOVERY_QUEST = {
+  activity: "🩹 Recovery quest: spend 15 minutes on something small you've been putting off",
+  estMinutes: 15,
+} as const;
+
+/**
+ * Whole minutes of focus still owed before a recovery quest can be finished
+ * while knocked out; the quest's estimate is the minimum.
+ */
+export function recoveryMinutesLeft(focusedMinutes: number): number {
+  return Math.max(0, Math.ceil(RECOVERY_QUEST.estMinutes - focusedMinutes));
+}
+
+export function canReviveWithChrysolite(chrysolite: number): boolean {
+  return chrysolite >= REVIVE_CHRYSOLITE_COST;
+}
@@ -0,0 +1,15 @@
+/**
+ * convex/lib/html.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Helpers for the HTML messages sent through notifications.sendTelegramMessage
+ * (parse_mode HTML). Pure functions, no Convex imports.
+ *
+ * Anything a user typed (activity text, habit names…) must go through
+ * escapeHtml before it is put into a message, or a stray "<" makes Telegram
+ * reject the whole message.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
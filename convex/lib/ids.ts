@@ -1,9 +1,10 @@
 /**
  * convex/lib/ids.ts
  * ─────────────────────────────────────────────────────────────────────────────
- * Human-readable ID generators for goals, activities, and habits.
+ * Human-readable ID generators for goals, activities, habits, rewards and
+ * recurring templates.
  *
- * Pattern:  PREFIX-NNNN   (e.g. G-0001, A-0042, H-0003)
+ * Pattern:  PREFIX-NNNN   (e.g. G-0001, A-0042, H-0003, R-0002, T-0001)
  *
  * Strategy: query the relevant table for the user, find the highest existing
  * numeric suffix, and return prefix + (max + 1) zero-padded to 4 digits.
@@ -16,12 +17,12 @@ import { type MutationCtx } from "../_generated/server";
 import { type Id } from "../_generated/dataModel";
 
 /** Zero-pad a number to 4 digits: 1 → "0001". */
-function pad(n: number): string {
+export function pad(n: number): string {
   return String(n).padStart(4, "0");
 }
 
 /** Extract numeric suffix from an ID string like "G-0042" → 42. */
-function extractNum(id: string): number {
+export function extractNum(id: string): number {
   const parts = id.split("-");
   const last = parts[parts.length - 1];
   const n = parseInt(last, 10);
@@ -81,3 +82,37 @@ export async function nextHabitId(
   const max = habits.reduce((acc, h) => Math.max(acc, extractNum(h.habitId)), 0);
   return `H-${pad(max + 1)}`;
 }
+
+/**
+ * Generate the next reward ID for a user.
+ * Queries all rewards for the user and returns the next sequential ID.
+ */
+export async function nextRewardId(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+): Promise<string> {
+  const rewards = await ctx.db
+    .query("rewards")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  const max = rewards.reduce((acc, r) => Math.max(acc, extractNum(r.rewardId)), 0);
+  return `R-${pad(max + 1)}`;
+}
+
+/**
+ * Generate the next recurring template ID for a user.
+ * Queries all templates for the user and returns the next sequential ID.
+ */
+export async function nextTemplateId(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+): Promise<string> {
+  const templates = await ctx.db
+    .query("recurringTemplates")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  const max = templates.reduce((acc, t) => Math.max(acc, extractNum(t.templateId)), 0);
+  return `T-${pad(max + 1)}`;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { IncupError, emptyIncup, normalizeIncup, normalizeLegacyIncup, parseIncup } from "./incup";
+
+describe("parseIncup", () => {
+  it("reads comma or space separated tags in any case", () => {
+    expect(parseIncup("Interesting,Urgent")).toEqual({ ...emptyIncup(), interesting: true, urgent: true });
+    expect(parseIncup("novel challenging")).toEqual({ ...emptyIncup(), novel: true, challenging: true });
+  });
+
+  it("reads aliases and the full Pressure/Passion label", () => {
+    expect(parseIncup("Important, Uncomfortable")).toEqual({ ...emptyIncup(), interesting: true, challenging: true });
+    expect(parseIncup("Pressure/Passion")).toEqual({ ...emptyIncup(), pressure: true });
+  });
+
+  it("reads tags run together", () => {
+    expect(parseIncup("InterestingUrgent")).toEqual({ ...emptyIncup(), interesting: true, urgent: true });
+  });
+
+  it("reads a case code, uppercase = yes", () => {
+    expect(parseIncup("InCuP")).toEqual({
+      interesting: true, novel: false, challenging: true, urgent: false, pressure: true,
+    });
+    expect(parseIncup("incup")).toEqual(emptyIncup());
+  });
+
+  it("reads a lone five-letter tag as a tag, not a code", () => {
+    expect(parseIncup("Novel")).toEqual({ ...emptyIncup(), novel: true });
+  });
+
+  it("treats blank input as no dimension", () => {
+    expect(parseIncup("  ")).toEqual(emptyIncup());
+  });
+
+  it("rejects unknown tags, naming the first one", () => {
+    expect(() => parseIncup("Interesting,Boring")).toThrow(IncupError);
+    expect(() => parseIncup("Interesting,Boring")).toThrow('"Boring"');
+  });
+
+  it("rejects five letters that aren't I, N, C, U, P in order", () => {
+    expect(() => parseIncup("IIICU")).toThrow(IncupError);
+    expect(() => parseIncup("Crazy")).toThrow(IncupError);
+  });
+});
+
+describe("normalizeIncup", () => {
+  it("gives the canonical case code for either notation", () => {
+    expect(normalizeIncup("Interesting,Urgent")).toBe("IncUp");
+    expect(normalizeIncup("iNCUP")).toBe("iNCUP");
+  });
+
+  it("keeps blank input blank", () => {
+    expect(normalizeIncup("")).toBe("");
+  });
+});
+
+describe("normalizeLegacyIncup", () => {
+  it("normalizes anything normalizeIncup accepts the same way", () => {
+    expect(normalizeLegacyIncup("Novel")).toBe("iNcup");
+    expect(normalizeLegacyIncup("Interesting,Urgent")).toBe("IncUp");
+  });
+
+  it("reads old codes where only the case of each letter counted", () => {
+    expect(normalizeLegacyIncup("IIICU")).toBe("INCUP");
+    expect(normalizeLegacyIncup("IiIcU")).toBe("InCuP");
+  });
+
+  it("still rejects values that are neither", () => {
+    expect(() => normalizeLegacyIncup("Boring")).toThrow(IncupError);
+    expect(() => normalizeLegacyIncup("IIIC")).toThrow(IncupError);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * convex/lib/incup.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * The INCUP model: five yes/no dimensions of what gets an ADHD brain moving
+ * (Interesting, Novel, Challenging, Urgent, Pressure/Passion). Pure
+ * functions, no Convex imports.
+ *
+ * Two notations are accepted:
+ *   - tags: "Interesting,Urgent" (comma or space separated, any case,
+ *     a few aliases such as "important" or "passion"). Tags run together
+ *     ("InterestingUrgent"), as older bot versions stored them, also parse.
+ *   - case code: the letters I, N, C, U, P in that order, uppercase = yes,
+ *     lowercase = no, e.g. "InCuP". Any other five letters are not a code;
+ *     the loose reading older bot versions stored ("IIICU") is only
+ *     understood by normalizeLegacyIncup, for migrations.normalizeIncupCodes.
+ *
+ * activities.incup and habits.incup always hold the canonical case code
+ * from serializeIncup ("IncUp" = Interesting + Urgent); the empty string
+ * means nobody rated it yet.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+// ─── Dimensions ───────────────────────────────────────────────────────────────
+
+export type IncupKey = "interesting" | "novel" | "challenging" | "urgent" | "pressure";
+
+export interface IncupDimension {
+  key: IncupKey;
+  letter: string;   // position letter in the case code
+  label: string;    // tag shown by the bot and the Mini App
+  aliases: string[]; // other lower-case tags that mean the same
+}
+
+export const INCUP_DIMENSIONS: ReadonlyArray<IncupDimension> = [
+  { key: "interesting", letter: "I", label: "Interesting", aliases: ["interest", "important"] },
+  { key: "novel", letter: "N", label: "Novel", aliases: ["novelty", "new"] },
+  { key: "challenging", letter: "C", label: "Challenging", aliases: ["challenge", "uncomfortable"] },
+  { key: "urgent", letter: "U", label: "Urgent", aliases: ["urgency"] },
+  { key: "pressure", letter: "P", label: "Pressure/Passion", aliases: ["pressure", "passion"] },
+];
+
+export type Incup = Record<IncupKey, boolean>;
+
+export function emptyIncup(): Incup {
+  return { interesting: false, novel: false, challenging: false, urgent: false, pressure: false };
+}
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class IncupError extends Error {
+  constructor(public input: string, message: string) {
+    super(message);
+    this.name = "IncupError";
+  }
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+function dimensionForTag(tag: string): IncupDimension | undefined {
+  const t = tag.toLowerCase();
+  return INCUP_DIMENSIONS.find((d) => d.label.toLowerCase() === t || d.aliases.includes(t));
+}
+
+/** "InterestingUrgent" → ["Interesting", "Urgent"]; "Pressure/Passion" stays whole. */
+function splitRunTogether(token: string): string[] {
+  return token.split(/(?<=[a-z])(?=[A-Z])/);
+}
+
+function isCaseCode(token: string): boolean {
+  return token.length === INCUP_DIMENSIONS.length
+    && INCUP_DIMENSIONS.every((d, i) => token[i].toUpperCase() === d.letter);
+}
+
+/**
+ * Parse either notation. Blank input means no dimension applies.
+ * Throws IncupError naming the first tag it doesn't recognise.
+ */
+export function parseIncup(input: string): Incup {
+  const incup = emptyIncup();
+  const tokens = input.split(/[\s,;+]+/).filter(Boolean);
+
+  // A lone token that isn't a tag may be a case code ("Novel" is a tag, "iNcup" is a code)
+  if (tokens.length === 1 && !dimensionForTag(tokens[0]) && isCaseCode(tokens[0])) {
+    INCUP_DIMENSIONS.forEach((d, i) => {
+      const ch = tokens[0][i];
+      incup[d.key] = ch !== ch.toLowerCase();
+    });
+    return incup;
+  }
+
+  for (const token of tokens) {
+    const parts = dimensionForTag(token) ? [token] : splitRunTogether(token);
+    for (const part of parts) {
+      const d = dimensionForTag(part);
+      if (!d) {
+        const known = INCUP_DIMENSIONS.map((x) => x.label).join(", ");
+        throw new IncupError(input, `Unknown INCUP tag "${part}". Use ${known}, or a five-letter code like "InCuP"`);
+      }
+      incup[d.key] = true;
+    }
+  }
+  return incup;
+}
+
+// ─── Output ───────────────────────────────────────────────────────────────────
+
+/** Canonical case code, e.g. { interesting, urgent } → "IncUp". */
+export function serializeIncup(incup: Incup): string {
+  return INCUP_DIMENSIONS.map((d) => (incup[d.key] ? d.letter : d.letter.toLowerCase())).join("");
+}
+
+/** Parse any notation and return the canonical case code; "" stays "". */
+export function normalizeIncup(input: string): string {
+  if (!input.trim()) return "";
+  return serializeIncup(parseIncup(input));
+}
+
+/**
+ * normalizeIncup, plus the loose case codes older bot versions stored: any
+ * five letters where only the case counted, "IIICU" = all five apply.
+ * Only for migrations.normalizeIncupCodes; user input goes through
+ * normalizeIncup.
+ */
+export function normalizeLegacyIncup(input: string): string {
+  try {
+    return normalizeIncup(input);
+  } catch (e) {
+    const code = input.trim();
+    if (!(e instanceof IncupError) || !/^[A-Za-z]{5}$/.test(code)) throw e;
+    return INCUP_DIMENSIONS.map((d, i) => (code[i] !== code[i].toLowerCase() ? d.letter : d.letter.toLowerCase())).join("");
+  }
+}
+
+/** Labels of the dimensions that apply, in INCUP order. */
+export function incupTags(incup: Incup): string[] {
+  return INCUP_DIMENSIONS.filter((d) => incup[d.key]).map((d) => d.label);
+}
+
+/** How many dimensions apply, 0-5. */
+export function incupScore(incup: Incup): number {
+  return INCUP_DIMENSIONS.filter((d) => incup[d.key]).length;
+}
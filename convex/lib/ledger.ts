@@ -0,0 +1,167 @@
+/**
+ * convex/lib/ledger.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Append-only XP ledger on the `xpEvents` table.
+ *
+ * Every change to a user's XP, chrysolite or HP is one row, written in the
+ * same mutation that changes the stored totals. users.totalXp / chrysolite /
+ * hp and activities.totalXp / chrysolite are caches of these rows and can be
+ * rebuilt from them (see ledger.ts rebuildUserTotals).
+ *
+ * Rows are never edited or deleted; corrections are new "adjustment" rows.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { type DatabaseReader, type MutationCtx } from "../_generated/server";
+import { type Id } from "../_generated/dataModel";
+import { MAX_HP } from "./hp";
+import { type LifeAreaKey } from "./lifeWheel";
+
+export type LedgerSource =
+  | "capture"
+  | "organise"
+  | "done"
+  | "evaluate"
+  | "abandon"
+  | "overdue"
+  | "habit"
+  | "goal"
+  | "revive"
+  | "redeem"
+  | "opening-balance"
+  | "adjustment";
+
+export interface LedgerEvent {
+  source: LedgerSource;
+  xp: number;
+  chrysolite: number;
+  hp: number;
+  activityDocId?: Id<"activities">;
+  habitDocId?: Id<"habits">;
+  rewardDocId?: Id<"rewards">;
+  goalDocId?: Id<"goals">;
+  note?: string;
+}
+
+export async function appendXpEvent(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  event: LedgerEvent,
+  now: number,
+) {
+  return ctx.db.insert("xpEvents", { userId, ...event, createdAt: now });
+}
+
+// ─── Reading ──────────────────────────────────────────────────────────────────
+
+async function eventsBetween(ctx: { db: DatabaseReader }, userId: Id<"users">, since: number, until: number) {
+  return ctx.db
+    .query("xpEvents")
+    .withIndex("by_user", (q) => q.eq("userId", userId).gte("createdAt", since).lt("createdAt", until))
+    .collect();
+}
+
+/** Positive XP earned from `since` up to (not including) `until`, from every source. */
+export async function xpEarned(
+  ctx: { db: DatabaseReader },
+  userId: Id<"users">,
+  since: number,
+  until = Number.MAX_SAFE_INTEGER,
+) {
+  const events = await eventsBetween(ctx, userId, since, until);
+  return events.reduce((sum, e) => sum + Math.max(0, e.xp), 0);
+}
+
+/**
+ * Positive XP earned per life area from `since` up to (not including)
+ * `until`. Activities count towards their own life area, or their goal's
+ * when they have none; habit logs towards the habit's; goal bonuses
+ * towards the goal's.
+ */
+export async function xpByLifeArea(
+  ctx: { db: DatabaseReader },
+  userId: Id<"users">,
+  since: number,
+  until = Number.MAX_SAFE_INTEGER,
+) {
+  const events = await eventsBetween(ctx, userId, since, until);
+
+  const goalAreas = new Map<string, LifeAreaKey>();
+  for (const g of await ctx.db.query("goals").withIndex("by_user", (q) => q.eq("userId", userId)).collect()) {
+    goalAreas.set(g.goalId, g.lifeArea);
+    goalAreas.set(g._id, g.lifeArea);
+  }
+
+  const areaCache = new Map<string, LifeAreaKey | undefined>();
+  const areaOf = async (e: (typeof events)[number]): Promise<LifeAreaKey | undefined> => {
+    if (e.goalDocId) return goalAreas.get(e.goalDocId);
+    const key = e.activityDocId ?? e.habitDocId;
+    if (!key) return undefined;
+    if (areaCache.has(key)) return areaCache.get(key);
+    let area: LifeAreaKey | undefined;
+    if (e.activityDocId) {
+      const a = await ctx.db.get(e.activityDocId);
+      area = a?.lifeArea ?? (a?.goalId ? goalAreas.get(a.goalId) : undefined);
+    } else if (e.habitDocId) {
+      area = (await ctx.db.get(e.habitDocId))?.lifeArea;
+    }
+    areaCache.set(key, area);
+    return area;
+  };
+
+  const out: Partial<Record<LifeAreaKey, number>> = {};
+  for (const e of events) {
+    if (e.xp <= 0) continue;
+    const area = await areaOf(e);
+    if (area) out[area] = (out[area] ?? 0) + e.xp;
+  }
+  return out;
+}
+
+// ─── Rebuilding totals ────────────────────────────────────────────────────────
+
+export interface Totals {
+  totalXp: number;
+  chrysolite: number;
+  hp: number;
+}
+
+type EventAmounts = Pick<LedgerEvent, "xp" | "chrysolite" | "hp">;
+
+/**
+ * Fold a user's events (in insertion order) into totals.
+ * New users start with 0 XP, 0 chrysolite and full HP.
+ */
+export function rebuildTotals(events: EventAmounts[]): Totals {
+  return events.reduce<Totals>(
+    (acc, e) => ({
+      totalXp: acc.totalXp + e.xp,
+      chrysolite: acc.chrysolite + e.chrysolite,
+      hp: acc.hp + e.hp,
+    }),
+    { totalXp: 0, chrysolite: 0, hp: MAX_HP },
+  );
+}
+
+/** Per-activity XP and chrysolite, for events tied to an activity. */
+export function rebuildActivityTotals<K extends string>(
+  events: Array<EventAmounts & { activityDocId?: K }>,
+): Map<K, { totalXp: number; chrysolite: number }> {
+  const out = new Map<K, { totalXp: number; chrysolite: number }>();
+  for (const e of events) {
+    if (e.activityDocId === undefined) continue;
+    const t = out.get(e.activityDocId) ?? { totalXp: 0, chrysolite: 0 };
+    out.set(e.activityDocId, { totalXp: t.totalXp + e.xp, chrysolite: t.chrysolite + e.chrysolite });
+  }
+  return out;
+}
+
+/** Fields where the stored value differs from the rebuilt one (stored − rebuilt). */
+export function totalsDrift<T extends Record<string, number>>(stored: T, rebuilt: T): Partial<T> {
+  const drift: Partial<T> = {};
+  for (const key of Object.keys(rebuilt) as Array<keyof T>) {
+    const d = stored[key] - rebuilt[key];
+    if (d !== 0) drift[key] = d as T[keyof T];
+  }
+  return drift;
+}
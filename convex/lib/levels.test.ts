@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { RANKS, detectLevelUp, levelForXp, levelProgress, rankForLevel, xpForLevel } from "./levels";
+
+describe("xpForLevel / levelForXp", () => {
+  it("starts level 1 at 0 XP and level 2 at LEVEL_BASE_XP", () => {
+    expect(xpForLevel(1)).toBe(0);
+    expect(xpForLevel(2)).toBe(300);
+  });
+
+  it("grows strictly from level to level", () => {
+    for (let level = 1; level < 40; level++) {
+      expect(xpForLevel(level + 1)).toBeGreaterThan(xpForLevel(level));
+    }
+  });
+
+  it("reaches a level at exactly its threshold, not one XP before", () => {
+    for (let level = 2; level <= 30; level++) {
+      expect(levelForXp(xpForLevel(level))).toBe(level);
+      expect(levelForXp(xpForLevel(level) - 1)).toBe(level - 1);
+    }
+  });
+});
+
+describe("rankForLevel", () => {
+  it("unlocks each rank at exactly its minLevel", () => {
+    for (const [i, r] of RANKS.entries()) {
+      expect(rankForLevel(r.minLevel)).toBe(r.name);
+      if (i > 0) expect(rankForLevel(r.minLevel - 1)).toBe(RANKS[i - 1].name);
+    }
+  });
+
+  it("keeps the top rank past its threshold", () => {
+    expect(rankForLevel(99)).toBe("Legend");
+  });
+});
+
+describe("levelProgress", () => {
+  it("is at the very start of level 1 with no XP", () => {
+    expect(levelProgress(0)).toEqual({
+      level: 1,
+      rank: "Novice",
+      levelStartXp: 0,
+      nextLevelXp: 300,
+      xpIntoLevel: 0,
+      xpToNextLevel: 300,
+      progress: 0,
+    });
+  });
+
+  it("rolls over to the next level on the exact boundary", () => {
+    const atL2 = levelProgress(300);
+    expect(atL2.level).toBe(2);
+    expect(atL2.levelStartXp).toBe(300);
+    expect(atL2.nextLevelXp).toBe(xpForLevel(3));
+    expect(atL2.xpIntoLevel).toBe(0);
+    expect(atL2.progress).toBe(0);
+
+    const justBefore = levelProgress(299);
+    expect(justBefore.level).toBe(1);
+    expect(justBefore.xpToNextLevel).toBe(1);
+  });
+
+  it("reports the share of the current level done", () => {
+    const start = xpForLevel(4);
+    const span = xpForLevel(5) - start;
+    const p = levelProgress(start + span / 2);
+    expect(p.level).toBe(4);
+    expect(p.progress).toBeCloseTo(0.5);
+    expect(p.xpIntoLevel + p.xpToNextLevel).toBe(span);
+  });
+
+  it("carries the rank of the current level", () => {
+    expect(levelProgress(xpForLevel(5)).rank).toBe("Journeyman");
+    expect(levelProgress(xpForLevel(5) - 1).rank).toBe("Apprentice");
+  });
+});
+
+describe("detectLevelUp", () => {
+  it("is null when the level doesn't change", () => {
+    expect(detectLevelUp(0, 299)).toBeNull();
+    expect(detectLevelUp(300, 300)).toBeNull();
+    expect(detectLevelUp(500, 400)).toBeNull();
+  });
+
+  it("fires when the new total lands exactly on a threshold", () => {
+    expect(detectLevelUp(299, 300)).toEqual({ from: 1, to: 2, rank: "Novice", newRank: false });
+  });
+
+  it("reports a multi-level jump in one step", () => {
+    expect(detectLevelUp(0, xpForLevel(4) + 10)).toEqual({ from: 1, to: 4, rank: "Apprentice", newRank: true });
+  });
+
+  it("flags a new rank only when the jump crosses a rank threshold", () => {
+    expect(detectLevelUp(xpForLevel(3), xpForLevel(4))?.newRank).toBe(false);
+    expect(detectLevelUp(xpForLevel(4), xpForLevel(5))).toEqual({
+      from: 4, to: 5, rank: "Journeyman", newRank: true,
+    });
+  });
+
+  it("skips over intermediate ranks to the one reached", () => {
+    expect(detectLevelUp(0, xpForLevel(12))).toEqual({ from: 1, to: 12, rank: "Expert", newRank: true });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * convex/lib/levels.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Pure level curve and rank table. No Convex imports — same rules as xp.ts.
+ *
+ * Curve: reaching level L takes LEVEL_BASE_XP * (L - 1)^LEVEL_EXPONENT total
+ * XP, so early levels come quickly and later ones need steadily more work:
+ *   L2 = 300, L3 ≈ 910, L5 ≈ 2 760, L10 ≈ 10 100, L20 ≈ 33 400
+ *
+ * Ranks unlock at fixed levels and are looked up from RANKS.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+// ─── Curve ────────────────────────────────────────────────────────────────────
+
+export const LEVEL_BASE_XP = 300;
+export const LEVEL_EXPONENT = 1.6;
+
+/** Total XP needed to reach `level` (level 1 starts at 0). */
+export function xpForLevel(level: number): number {
+  if (level <= 1) return 0;
+  return Math.round(LEVEL_BASE_XP * Math.pow(level - 1, LEVEL_EXPONENT));
+}
+
+export function levelForXp(totalXp: number): number {
+  let level = 1;
+  while (xpForLevel(level + 1) <= totalXp) level++;
+  return level;
+}
+
+// ─── Ranks ────────────────────────────────────────────────────────────────────
+
+export const RANKS: ReadonlyArray<{ minLevel: number; name: string }> = [
+  { minLevel: 1, name: "Novice" },
+  { minLevel: 3, name: "Apprentice" },
+  { minLevel: 5, name: "Journeyman" },
+  { minLevel: 8, name: "Adept" },
+  { minLevel: 12, name: "Expert" },
+  { minLevel: 17, name: "Master" },
+  { minLevel: 23, name: "Grandmaster" },
+  { minLevel: 30, name: "Legend" },
+];
+
+export function rankForLevel(level: number): string {
+  let rank = RANKS[0].name;
+  for (const r of RANKS) if (level >= r.minLevel) rank = r.name;
+  return rank;
+}
+
+// ─── Progress ─────────────────────────────────────────────────────────────────
+
+export interface LevelProgress {
+  level: number;
+  rank: string;
+  levelStartXp: number;   // total XP at which the current level began
+  nextLevelXp: number;    // total XP at which the next level begins
+  xpIntoLevel: number;
+  xpToNextLevel: number;
+  progress: number;       // 0..1 through the current level
+}
+
+export function levelProgress(totalXp: number): LevelProgress {
+  const level = levelForXp(totalXp);
+  const levelStartXp = xpForLevel(level);
+  const nextLevelXp = xpForLevel(level + 1);
+  const span = nextLevelXp - levelStartXp;
+  return {
+    level,
+    rank: rankForLevel(level),
+    levelStartXp,
+    nextLevelXp,
+    xpIntoLevel: totalXp - levelStartXp,
+    xpToNextLevel: nextLevelXp - totalXp,
+    progress: span > 0 ? (totalXp - levelStartXp) / span : 0,
+  };
+}
+
+// ─── Level-ups ────────────────────────────────────────────────────────────────
+
+export interface LevelUp {
+  from: number;
+  to: number;
+  rank: string;
+  newRank: boolean; // the level-up also unlocked a rank
+}
+
+/** Describe the level-up between two XP totals, or null if none happened. */
+export function detectLevelUp(xpBefore: number, xpAfter: number): LevelUp | null {
+  const from = levelForXp(xpBefore);
+  const to = levelForXp(xpAfter);
+  if (to <= from) return null;
+  const rank = rankForLevel(to);
+  return { from, to, rank, newRank: rank !== rankForLevel(from) };
+}
@@ -0,0 +1,109 @@
+/**
+ * convex/lib/lifeWheel.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Life-wheel ratings and gap suggestions. Pure functions, no Convex imports.
+ *
+ * A life-wheel assessment rates satisfaction with each of the six life areas
+ * from 0 (not at all) to 10 (fully). Assessments are kept as a history in
+ * the `lifeRatings` table, so repeated gap analysis shows whether an area
+ * improved.
+ *
+ * Gap suggestions compare the latest ratings with where XP was actually
+ * earned: an area rated low that also got less than its fair share of XP
+ * is neglected, and a good candidate for a new goal.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+// ─── Ratings ──────────────────────────────────────────────────────────────────
+
+export const LIFE_AREAS = [
+  "spiritual", "physical", "mental", "financial", "social", "emotional",
+] as const;
+
+export type LifeAreaKey = (typeof LIFE_AREAS)[number];
+
+export type LifeRatings = Record<LifeAreaKey, number>;
+
+export const RATING_MAX = 10;
+
+export function isValidRating(rating: number): boolean {
+  return Number.isInteger(rating) && rating >= 0 && rating <= RATING_MAX;
+}
+
+export function isValidRatings(ratings: LifeRatings): boolean {
+  return LIFE_AREAS.every((area) => isValidRating(ratings[area]));
+}
+
+// ─── Trends ───────────────────────────────────────────────────────────────────
+
+export interface Assessment {
+  assessedAt: number;
+  ratings: LifeRatings;
+}
+
+export interface AreaTrend {
+  lifeArea: LifeAreaKey;
+  latest: number | null;
+  previous: number | null;
+  change: number | null;                          // latest − previous
+  history: Array<{ at: number; rating: number }>; // oldest first
+}
+
+/** One trend per life area, from assessments in any order. */
+export function areaTrends(assessments: Assessment[]): AreaTrend[] {
+  const ordered = [...assessments].sort((a, b) => a.assessedAt - b.assessedAt);
+  return LIFE_AREAS.map((lifeArea) => {
+    const history = ordered.map((a) => ({ at: a.assessedAt, rating: a.ratings[lifeArea] }));
+    const latest = history.length > 0 ? history[history.length - 1].rating : null;
+    const previous = history.length > 1 ? history[history.length - 2].rating : null;
+    return {
+      lifeArea,
+      latest,
+      previous,
+      change: latest !== null && previous !== null ? latest - previous : null,
+      history,
+    };
+  });
+}
+
+// ─── Gap suggestions ──────────────────────────────────────────────────────────
+
+// Ratings at or below this count as a gap worth a goal
+export const GAP_RATING_THRESHOLD = 6;
+
+// An area earning less than this share of recent XP counts as neglected
+export const FAIR_XP_SHARE = 1 / LIFE_AREAS.length;
+
+export interface GapSuggestion {
+  lifeArea: LifeAreaKey;
+  rating: number;
+  gap: number;      // RATING_MAX − rating
+  xp: number;       // XP earned in the area over the window
+  xpShare: number;  // 0..1 of all XP with a known life area
+  score: number;    // 0..1, higher = more in need of a goal
+}
+
+/**
+ * Low-rated areas that also got less than their fair share of XP, most
+ * neglected first. Score is need (gap / RATING_MAX) times neglect (how far
+ * below the fair share the area's XP fell). With no XP at all, every
+ * low-rated area is fully neglected.
+ */
+export function gapSuggestions(
+  ratings: LifeRatings,
+  xpByArea: Partial<Record<LifeAreaKey, number>>,
+): GapSuggestion[] {
+  const totalXp = LIFE_AREAS.reduce((sum, area) => sum + Math.max(0, xpByArea[area] ?? 0), 0);
+  const out: GapSuggestion[] = [];
+  for (const lifeArea of LIFE_AREAS) {
+    const rating = ratings[lifeArea];
+    if (rating > GAP_RATING_THRESHOLD) continue;
+    const xp = Math.max(0, xpByArea[lifeArea] ?? 0);
+    const xpShare = totalXp > 0 ? xp / totalXp : 0;
+    if (xpShare >= FAIR_XP_SHARE) continue;
+    const gap = RATING_MAX - rating;
+    const neglect = 1 - xpShare / FAIR_XP_SHARE;
+    out.push({ lifeArea, rating, gap, xp, xpShare, score: (gap / RATING_MAX) * neglect });
+  }
+  return out.sort((a, b) => b.score - a.score || a.rating - b.rating);
+}
@@ -0,0 +1,171 @@
+/**
+ * convex/lib/mood.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Mood analytics over the feelings recorded before and after activities and
+ * habit sessions. Pure functions, no Convex imports.
+ *
+ * Feelings are scored with emotionScore (lib/xp.ts, 0 = defeated … 10 =
+ * joyful) and a sample's delta is after − before, as stored on evaluated
+ * activities and habit logs.
+ *
+ *   - moodTrend      weekly averages (weeks start on Monday, local days)
+ *   - moodBreakdown  average delta per group, with a verdict: a group
+ *                    "lifts" or "drains" when, over at least three samples,
+ *                    the average moves by a point or more and at least 60%
+ *                    of the samples go the same way
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { dayKeyFromNumber, dayNumber, localDayKey, weekdayOf } from "./dates";
+import { emotionScore } from "./xp";
+
+export interface MoodSample {
+  day: string;            // local "YYYY-MM-DD"
+  feelingBefore?: string;
+  feelingAfter?: string;
+  delta: number;          // emotion delta, after − before
+  category?: string;      // activities only
+  lifeArea?: string;
+  habit?: string;         // habit sessions only: the habit's name
+}
+
+/**
+ * One sample per evaluated activity (dated by when it was completed) and
+ * per habit session, in the user's timezone.
+ */
+export function moodSamples(
+  activities: ReadonlyArray<{
+    emotionDelta?: number; feelingBefore?: string; feelingAfter?: string;
+    category?: string; lifeArea?: string; completedAt?: number; updatedAt: number;
+  }>,
+  logs: ReadonlyArray<{
+    habitDocId: string; habitId: string; day: string;
+    feelingBefore?: string; feelingAfter?: string; emotionDelta: number;
+  }>,
+  habits: ReadonlyMap<string, { name: string; lifeArea: string }>,
+  timeZone: string | undefined,
+): MoodSample[] {
+  return [
+    ...activities
+      .filter((a) => a.emotionDelta !== undefined)
+      .map((a) => ({
+        day: localDayKey(a.completedAt ?? a.updatedAt, timeZone),
+        feelingBefore: a.feelingBefore,
+        feelingAfter: a.feelingAfter,
+        delta: a.emotionDelta!,
+        category: a.category,
+        lifeArea: a.lifeArea,
+      })),
+    ...logs.map((l) => ({
+      day: l.day,
+      feelingBefore: l.feelingBefore,
+      feelingAfter: l.feelingAfter,
+      delta: l.emotionDelta,
+      lifeArea: habits.get(l.habitDocId)?.lifeArea,
+      habit: habits.get(l.habitDocId)?.name ?? l.habitId,
+    })),
+  ];
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function mean(xs: number[]): number | null {
+  return xs.length ? round2(xs.reduce((a, b) => a + b, 0) / xs.length) : null;
+}
+
+// ─── Trend ────────────────────────────────────────────────────────────────────
+
+export interface MoodWeek {
+  weekStart: string;         // Monday, "YYYY-MM-DD"
+  count: number;
+  avgBefore: number | null;  // null when nothing was recorded that week
+  avgAfter: number | null;
+  avgDelta: number | null;
+}
+
+export function weekStartOf(day: string): string {
+  return dayKeyFromNumber(dayNumber(day) - ((weekdayOf(day) + 6) % 7));
+}
+
+/** The `weeks` weeks up to and including the one containing `today`, oldest first. */
+export function moodTrend(samples: ReadonlyArray<MoodSample>, today: string, weeks: number): MoodWeek[] {
+  const lastWeek = dayNumber(weekStartOf(today));
+  const byWeek = new Map<string, MoodSample[]>();
+  for (const s of samples) {
+    const week = weekStartOf(s.day);
+    byWeek.set(week, [...(byWeek.get(week) ?? []), s]);
+  }
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = dayKeyFromNumber(lastWeek - (weeks - 1 - i) * 7);
+    const group = byWeek.get(weekStart) ?? [];
+    return {
+      weekStart,
+      count: group.length,
+      avgBefore: mean(group.filter((s) => s.feelingBefore).map((s) => emotionScore(s.feelingBefore))),
+      avgAfter: mean(group.filter((s) => s.feelingAfter).map((s) => emotionScore(s.feelingAfter))),
+      avgDelta: mean(group.map((s) => s.delta)),
+    };
+  });
+}
+
+// ─── Breakdown ────────────────────────────────────────────────────────────────
+
+const MIN_SAMPLES = 3;
+const VERDICT_DELTA = 1;
+const VERDICT_SHARE = 0.6;
+
+export type MoodVerdict = "lifts" | "drains" | "mixed" | "too few";
+
+export interface MoodGroup {
+  key: string;
+  count: number;
+  avgDelta: number;
+  liftedShare: number;   // 0–1, samples with delta > 0
+  drainedShare: number;  // 0–1, samples with delta < 0
+  verdict: MoodVerdict;
+}
+
+export type MoodDimension = "category" | "lifeArea" | "habit";
+export const MOOD_DIMENSIONS: MoodDimension[] = ["category", "lifeArea", "habit"];
+
+function verdictOf(g: Omit<MoodGroup, "verdict">): MoodVerdict {
+  if (g.count < MIN_SAMPLES) return "too few";
+  if (g.avgDelta >= VERDICT_DELTA && g.liftedShare >= VERDICT_SHARE) return "lifts";
+  if (g.avgDelta <= -VERDICT_DELTA && g.drainedShare >= VERDICT_SHARE) return "drains";
+  return "mixed";
+}
+
+function summarize(key: string, group: ReadonlyArray<MoodSample>): MoodGroup {
+  const count = group.length;
+  const g = {
+    key,
+    count,
+    avgDelta: mean(group.map((s) => s.delta)) ?? 0,
+    liftedShare: round2(group.filter((s) => s.delta > 0).length / count),
+    drainedShare: round2(group.filter((s) => s.delta < 0).length / count),
+  };
+  return { ...g, verdict: verdictOf(g) };
+}
+
+export interface MoodBreakdown {
+  overall: { count: number; avgDelta: number | null };
+  groups: Record<MoodDimension, MoodGroup[]>; // best for the mood first
+}
+
+export function moodBreakdown(samples: ReadonlyArray<MoodSample>): MoodBreakdown {
+  const groups = {} as Record<MoodDimension, MoodGroup[]>;
+  for (const dim of MOOD_DIMENSIONS) {
+    const byKey = new Map<string, MoodSample[]>();
+    for (const s of samples) {
+      const key = s[dim];
+      if (key === undefined) continue;
+      byKey.set(key, [...(byKey.get(key) ?? []), s]);
+    }
+    groups[dim] = [...byKey]
+      .map(([key, group]) => summarize(key, group))
+      .sort((a, b) => b.avgDelta - a.avgDelta || b.count - a.count);
+  }
+  return { overall: { count: samples.length, avgDelta: mean(samples.map((s) => s.delta)) }, groups };
+}
@@ -0,0 +1,125 @@
+/**
+ * convex/lib/planner.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * "Plan my day": fit ready activities into the minutes the user has.
+ * Pure functions, no Convex imports.
+ *
+ * Estimates are scaled by the user's own track record (how long finished
+ * items really took against their estimate, see lib/estimation.ts), so a
+ * habitual under-estimator gets a smaller, more honest plan. Items without
+ * an estimate count as one default focus session.
+ *
+ * Selection is greedy in three rules:
+ *   1. anything due before the day ends goes first, earliest deadline first
+ *   2. the rest follows the recommendation score (lib/recommend.ts), plus a
+ *      bonus for the life areas the user asked to focus on
+ *   3. an item only goes in after everything it waits on, and only if its
+ *      prerequisites are done or already in the plan
+ * The plan's order is the order items were picked, which keeps every item
+ * after its prerequisites.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { scoreActivity, type Candidate, type RankContext } from "./recommend";
+
+// ─── Estimate scaling ─────────────────────────────────────────────────────────
+
+export const DEFAULT_EST_MINUTES = 25; // one focus session
+
+export function plannedMinutes(estMinutes: number | undefined, scale: number): number {
+  return Math.max(1, Math.round((estMinutes ?? DEFAULT_EST_MINUTES) * scale));
+}
+
+// ─── Planning ─────────────────────────────────────────────────────────────────
+
+export interface PlanCandidate extends Candidate {
+  lifeArea?: string;
+  waitingOn: string[]; // open prerequisites (activityIds)
+}
+
+export interface PlanOptions {
+  budgetMinutes: number;
+  lifeAreas?: ReadonlyArray<string>; // preferred areas; empty = no preference
+  scale: number;                     // from estimateScale (lib/estimation.ts)
+  dayEnd: number;                    // epoch ms; deadlines before this must go first
+  rank: RankContext;
+}
+
+export interface PlanItem {
+  activityId: string;
+  minutes: number;           // scaled estimate
+  estMinutes: number | null; // as entered; null when the default was used
+  startOffset: number;       // minutes from the start of the plan
+  dueToday: boolean;
+  reasons: string[];
+}
+
+export interface DayPlan {
+  budgetMinutes: number;
+  plannedMinutes: number;
+  scale: number;
+  items: PlanItem[];
+  dueTodayLeftOut: string[]; // due before the day ends but didn't fit or still blocked
+}
+
+// Score bonus for an item in one of the preferred life areas
+const PREFERRED_AREA_BONUS = 15;
+
+export function planDay(candidates: ReadonlyArray<PlanCandidate>, opts: PlanOptions): DayPlan {
+  const isDueToday = (c: PlanCandidate) => c.deadline !== undefined && c.deadline <= opts.dayEnd;
+  const preferred = new Set(opts.lifeAreas ?? []);
+
+  const scored = candidates.map((c) => {
+    const rec = scoreActivity(c, opts.rank);
+    const preferredArea = !!c.lifeArea && preferred.has(c.lifeArea);
+    return {
+      c,
+      score: rec.score + (preferredArea ? PREFERRED_AREA_BONUS : 0),
+      reasons: preferredArea ? [`${c.lifeArea} focus`, ...rec.reasons].slice(0, 3) : rec.reasons,
+    };
+  });
+  scored.sort((a, b) => {
+    const dueA = isDueToday(a.c), dueB = isDueToday(b.c);
+    if (dueA !== dueB) return dueA ? -1 : 1;
+    if (dueA && dueB) return a.c.deadline! - b.c.deadline!;
+    return b.score - a.score;
+  });
+
+  const planned = new Set<string>();
+  const items: PlanItem[] = [];
+  let used = 0;
+
+  // Picking an item can unlock a dependent seen earlier, so repeat until stable
+  let added = true;
+  while (added) {
+    added = false;
+    for (const s of scored) {
+      if (planned.has(s.c.activityId)) continue;
+      if (!s.c.waitingOn.every((id) => planned.has(id))) continue;
+      const minutes = plannedMinutes(s.c.estMinutes, opts.scale);
+      if (used + minutes > opts.budgetMinutes) continue;
+      items.push({
+        activityId: s.c.activityId,
+        minutes,
+        estMinutes: s.c.estMinutes ?? null,
+        startOffset: used,
+        dueToday: isDueToday(s.c),
+        reasons: s.reasons,
+      });
+      planned.add(s.c.activityId);
+      used += minutes;
+      added = true;
+      break; // rescan from the top so priorities stay in order
+    }
+  }
+
+  return {
+    budgetMinutes: opts.budgetMinutes,
+    plannedMinutes: used,
+    scale: opts.scale,
+    items,
+    dueTodayLeftOut: candidates
+      .filter((c) => isDueToday(c) && !planned.has(c.activityId))
+      .map((c) => c.activityId),
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * convex/lib/recommend.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * "What should I do next?" ranking. Pure functions, no Convex imports.
+ *
+ * Each ready activity gets points from six signals:
+ *   - deadline    up to 30, rising over the last week; overdue gets all 30
+ *   - category    CATEGORY_MULTIPLIER × 10 (void-filler 5 … main-quest 20)
+ *   - INCUP       3 per dimension that applies, up to 15
+ *   - horizon     today 10 … someday 0 (same order as the Mini App's
+ *                 HORIZON_ORDER)
+ *   - size        quick wins get a small boost, very long items a small dip
+ *   - unblocking  5 per open activity waiting on this one, up to 15
+ * Blocked activities can't be started and are left out.
+ *
+ * Every recommendation carries the reasons behind its biggest signals so
+ * the Mini App can say why it ranked where it did.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { CATEGORY_MULTIPLIER, type CategoryKey, type HorizonKey } from "./xp";
+import { incupScore, incupTags, parseIncup, type Incup } from "./incup";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ─── Signals ──────────────────────────────────────────────────────────────────
+
+const DEADLINE_MAX = 30;
+const DEADLINE_WINDOW_HOURS = 7 * 24; // deadlines further out than this score 0
+
+const HORIZON_POINTS: Record<HorizonKey, number> = {
+  today: 10,
+  week: 8,
+  month: 6,
+  quarter: 4,
+  annum: 2,
+  someday: 0,
+};
+
+const INCUP_POINTS = 3;   // per dimension
+const UNBLOCK_POINTS = 5; // per waiting activity
+const UNBLOCK_MAX = 15;
+
+function deadlinePoints(deadline: number, now: number): number {
+  const hoursLeft = (deadline - now) / HOUR_MS;
+  if (hoursLeft <= 0) return DEADLINE_MAX;
+  return Math.max(0, DEADLINE_MAX * (1 - hoursLeft / DEADLINE_WINDOW_HOURS));
+}
+
+function sizePoints(estMinutes: number): number {
+  if (estMinutes <= 15) return 6;
+  if (estMinutes <= 30) return 4;
+  if (estMinutes <= 60) return 2;
+  if (estMinutes > 120) return -2;
+  return 0;
+}
+
+function dueLabel(deadline: number, now: number): string {
+  const hoursLeft = (deadline - now) / HOUR_MS;
+  if (hoursLeft <= 0) return "overdue";
+  if (hoursLeft < 24) return `due in ${Math.max(1, Math.round(hoursLeft))}h`;
+  return `due in ${Math.round(hoursLeft / 24)}d`;
+}
+
+// ─── Ranking ──────────────────────────────────────────────────────────────────
+
+export interface Candidate {
+  activityId: string;
+  category?: CategoryKey;
+  horizon?: HorizonKey;
+  incup?: string;      // canonical case code (lib/incup.ts)
+  deadline?: number;   // epoch ms
+  estMinutes?: number;
+}
+
+export interface Recommendation {
+  activityId: string;
+  score: number;
+  reasons: string[]; // biggest signals first, e.g. ["due in 5h", "main-quest"]
+}
+
+export interface RankContext {
+  now: number;
+  blocked: ReadonlySet<string>;            // activityIds still waiting on something
+  waitingOn: ReadonlyMap<string, number>;  // activityId → open activities waiting on it
+}
+
+function safeIncup(code: string | undefined): Incup | null {
+  if (!code) return null;
+  try {
+    return parseIncup(code);
+  } catch {
+    return null;
+  }
+}
+
+/** Score one activity; signals worth nothing are left out of the reasons. */
+export function scoreActivity(c: Candidate, rank: RankContext): Recommendation {
+  const signals: Array<{ points: number; reason: string }> = [];
+
+  if (c.deadline !== undefined) {
+    signals.push({ points: deadlinePoints(c.deadline, rank.now), reason: dueLabel(c.deadline, rank.now) });
+  }
+  if (c.category) {
+    signals.push({ points: CATEGORY_MULTIPLIER[c.category] * 10, reason: c.category });
+  }
+  const incup = safeIncup(c.incup);
+  if (incup) {
+    signals.push({ points: incupScore(incup) * INCUP_POINTS, reason: incupTags(incup).join(" + ").toLowerCase() });
+  }
+  if (c.horizon) {
+    signals.push({ points: HORIZON_POINTS[c.horizon], reason: `${c.horizon} horizon` });
+  }
+  if (c.estMinutes !== undefined) {
+    const points = sizePoints(c.estMinutes);
+    const size = c.estMinutes <= 30 ? "quick" : c.estMinutes <= 60 ? "short" : "long";
+    signals.push({ points, reason: `${size} (${c.estMinutes} min)` });
+  }
+  const unblocks = rank.waitingOn.get(c.activityId) ?? 0;
+  if (unblocks > 0) {
+    signals.push({
+      points: Math.min(UNBLOCK_MAX, unblocks * UNBLOCK_POINTS),
+      reason: `unblocks ${unblocks} task${unblocks > 1 ? "s" : ""}`,
+    });
+  }
+
+  const score = signals.reduce((sum, s) => sum + s.points, 0);
+  const reasons = signals
+    .filter((s) => s.points > 0)
+    .sort((a, b) => b.points - a.points)
+    .slice(0, 3)
+    .map((s) => s.reason);
+  return { activityId: c.activityId, score: Math.round(score * 10) / 10, reasons };
+}
+
+/**
+ * Unblocked candidates, best first. Ties go to the earlier deadline, then
+ * to the order they were given in.
+ */
+export function rankActivities(candidates: ReadonlyArray<Candidate>, rank: RankContext): Recommendation[] {
+  const deadlineOf = new Map(candidates.map((c) => [c.activityId, c.deadline ?? Number.MAX_SAFE_INTEGER]));
+  return candidates
+    .filter((c) => !rank.blocked.has(c.activityId))
+    .map((c) => scoreActivity(c, rank))
+    .sort((a, b) => b.score - a.score || deadlineOf.get(a.activityId)! - deadlineOf.get(b.activityId)!);
+}
+
+/** Count, per activity, how many blocked activities are waiting on it. */
+export function countWaitingOn(blocked: ReadonlyMap<string, ReadonlyArray<string>>): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const waitingOn of blocked.values()) {
+    for (const id of waitingOn) out.set(id, (out.get(id) ?? 0) + 1);
+  }
+  return out;
+}
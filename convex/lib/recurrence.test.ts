@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { RecurrenceError, anchorRule, nextOccurrence, parseRecurrence } from "./recurrence";
+
+// 2025-01-01 is a Wednesday; its week starts on Monday 2024-12-30
+
+describe("parseRecurrence", () => {
+  it("reads the shorthands", () => {
+    expect(parseRecurrence("daily")).toEqual({ freq: "daily", interval: 1 });
+    expect(parseRecurrence("Weekdays")).toEqual({ freq: "weekly", interval: 1, byDay: [1, 2, 3, 4, 5] });
+    expect(parseRecurrence(" weekly ")).toEqual({ freq: "weekly", interval: 1 });
+    expect(parseRecurrence("monthly")).toEqual({ freq: "monthly", interval: 1 });
+  });
+
+  it("hands out a fresh copy of a shorthand each time", () => {
+    parseRecurrence("weekdays").byDay!.push(6);
+    expect(parseRecurrence("weekdays").byDay).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("reads an RRULE, with or without the prefix and in any case", () => {
+    expect(parseRecurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO;BYHOUR=17")).toEqual({
+      freq: "weekly", interval: 2, byDay: [1, 4], dueMinute: 17 * 60,
+    });
+    expect(parseRecurrence("rrule:freq=monthly;bymonthday=31;byminute=30")).toEqual({
+      freq: "monthly", interval: 1, byMonthDay: 31, dueMinute: 30,
+    });
+  });
+
+  it.each([
+    ["every day", "KEY=VALUE"],
+    ["INTERVAL=2", "FREQ=DAILY, WEEKLY or MONTHLY"],
+    ["FREQ=YEARLY", "FREQ=DAILY, WEEKLY or MONTHLY"],
+    ["FREQ=DAILY;COUNT=3", "Unsupported rule part: COUNT"],
+    ["FREQ=DAILY;INTERVAL", "KEY=VALUE"],
+    ["FREQ=DAILY;INTERVAL=0", "INTERVAL must be"],
+    ["FREQ=WEEKLY;INTERVAL=53", "INTERVAL must be"],
+    ["FREQ=DAILY;BYDAY=MO", "BYDAY only works with FREQ=WEEKLY"],
+    ["FREQ=WEEKLY;BYDAY=MO,XX", "BYDAY takes"],
+    ["FREQ=WEEKLY;BYMONTHDAY=1", "BYMONTHDAY only works with FREQ=MONTHLY"],
+    ["FREQ=MONTHLY;BYMONTHDAY=32", "BYMONTHDAY must be"],
+    ["FREQ=DAILY;BYHOUR=24", "BYHOUR must be"],
+  ])("rejects %s", (input, message) => {
+    expect(() => parseRecurrence(input)).toThrow(RecurrenceError);
+    expect(() => parseRecurrence(input)).toThrow(message);
+  });
+});
+
+/** The first `count` occurrences from `startDay` on. */
+function occurrences(input: string, startDay: string, count: number): string[] {
+  const rule = anchorRule(parseRecurrence(input), startDay);
+  const days: string[] = [];
+  let after = "2000-01-01";
+  while (days.length < count) {
+    const next = nextOccurrence(rule, startDay, after);
+    if (!next) break;
+    days.push(next);
+    after = next;
+  }
+  return days;
+}
+
+describe("nextOccurrence", () => {
+  it("counts a daily INTERVAL from the start day", () => {
+    expect(occurrences("FREQ=DAILY;INTERVAL=3", "2025-01-01", 3)).toEqual(["2025-01-01", "2025-01-04", "2025-01-07"]);
+  });
+
+  it("counts a weekly INTERVAL in whole weeks from the start week", () => {
+    expect(occurrences("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH", "2025-01-01", 4))
+      .toEqual(["2025-01-02", "2025-01-13", "2025-01-16", "2025-01-27"]);
+  });
+
+  it("anchors a plain weekly rule on the start day's weekday", () => {
+    expect(occurrences("weekly", "2025-01-01", 2)).toEqual(["2025-01-01", "2025-01-08"]);
+  });
+
+  it("skips the weekend for weekdays", () => {
+    expect(occurrences("weekdays", "2025-01-03", 2)).toEqual(["2025-01-03", "2025-01-06"]);
+  });
+
+  it("moves BYMONTHDAY=31 to the last day of shorter months", () => {
+    expect(occurrences("FREQ=MONTHLY;BYMONTHDAY=31", "2025-01-31", 4))
+      .toEqual(["2025-01-31", "2025-02-28", "2025-03-31", "2025-04-30"]);
+    expect(occurrences("FREQ=MONTHLY;BYMONTHDAY=31", "2024-01-31", 2)).toEqual(["2024-01-31", "2024-02-29"]);
+  });
+
+  it("counts a monthly INTERVAL from the start month", () => {
+    expect(occurrences("FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=31", "2025-01-31", 3))
+      .toEqual(["2025-01-31", "2025-03-31", "2025-05-31"]);
+  });
+
+  it("never returns a day before the start", () => {
+    const rule = anchorRule(parseRecurrence("daily"), "2025-01-10");
+    expect(nextOccurrence(rule, "2025-01-10", "2025-01-01")).toBe("2025-01-10");
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * convex/lib/recurrence.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Recurrence rules for recurring activity templates. Pure functions, no
+ * Convex imports.
+ *
+ * Rules are a small subset of iCalendar RRULE:
+ *   FREQ=DAILY|WEEKLY|MONTHLY   INTERVAL=n
+ *   BYDAY=MO,TH (weekly)        BYMONTHDAY=15 (monthly)
+ *   BYHOUR=17;BYMINUTE=30       local time of the deadline (default 23:59)
+ * plus the shorthands "daily", "weekdays", "weekly" and "monthly".
+ *
+ * Occurrences are local calendar days (lib/dates.ts day keys) counted from
+ * the template's start day: "every 2 weeks" means every other week from the
+ * week the template started, weeks starting on Monday as in RRULE.
+ * Monthly rules on the 29th–31st fall on the last day of shorter months.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { dayKeyFromNumber, dayNumber, weekdayOf } from "./dates";
+
+export type Frequency = "daily" | "weekly" | "monthly";
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;     // every N days / weeks / months
+  byDay?: number[];     // weekly: weekdays, 0 = Sunday; defaults to the start day's
+  byMonthDay?: number;  // monthly: 1–31; defaults to the start day's
+  dueMinute?: number;   // local minute of day of the deadline; unset = 23:59
+}
+
+// Longest gap between occurrences stays within a year, so a search of two
+// years always finds the next one
+const MAX_INTERVAL: Record<Frequency, number> = { daily: 365, weekly: 52, monthly: 12 };
+const SEARCH_DAYS = 2 * 366;
+
+export const END_OF_DAY_MINUTE = 23 * 60 + 59;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class RecurrenceError extends Error {
+  constructor(public input: string, message: string) {
+    super(message);
+    this.name = "RecurrenceError";
+  }
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+const SHORTHANDS: Record<string, RecurrenceRule> = {
+  daily: { freq: "daily", interval: 1 },
+  weekdays: { freq: "weekly", interval: 1, byDay: [1, 2, 3, 4, 5] },
+  weekly: { freq: "weekly", interval: 1 },
+  monthly: { freq: "monthly", interval: 1 },
+};
+
+function intPart(input: string, key: string, value: string, min: number, max: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw new RecurrenceError(input, `${key} must be a whole number from ${min} to ${max}`);
+  }
+  return n;
+}
+
+/** Parse a shorthand or an RRULE string. Throws RecurrenceError on anything else. */
+export function parseRecurrence(input: string): RecurrenceRule {
+  const text = input.trim();
+  const shorthand = SHORTHANDS[text.toLowerCase()];
+  if (shorthand) return { ...shorthand, byDay: shorthand.byDay && [...shorthand.byDay] };
+
+  const parts = new Map<string, string>();
+  for (const pair of text.replace(/^RRULE:/i, "").split(";").filter(Boolean)) {
+    const [key, value] = pair.split("=");
+    if (!key || value === undefined) throw new RecurrenceError(input, `Can't read "${pair}", expected KEY=VALUE`);
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freqText = parts.get("FREQ");
+  const freq = ({ DAILY: "daily", WEEKLY: "weekly", MONTHLY: "monthly" } as const)[freqText as string];
+  if (!freq) {
+    throw new RecurrenceError(input, `Use daily, weekdays, weekly, monthly or an RRULE with FREQ=DAILY, WEEKLY or MONTHLY`);
+  }
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = intPart(input, key, value, 1, MAX_INTERVAL[freq]);
+        break;
+      case "BYDAY": {
+        if (freq !== "weekly") throw new RecurrenceError(input, "BYDAY only works with FREQ=WEEKLY");
+        const days = value.split(",").map((code) => WEEKDAY_CODES.indexOf(code));
+        if (days.some((d) => d < 0)) throw new RecurrenceError(input, `BYDAY takes ${WEEKDAY_CODES.join(",")}`);
+        rule.byDay = [...new Set(days)].sort((a, b) => a - b);
+        break;
+      }
+      case "BYMONTHDAY":
+        if (freq !== "monthly") throw new RecurrenceError(input, "BYMONTHDAY only works with FREQ=MONTHLY");
+        rule.byMonthDay = intPart(input, key, value, 1, 31);
+        break;
+      case "BYHOUR":
+      case "BYMINUTE":
+        break; // read together below
+      default:
+        throw new RecurrenceError(input, `Unsupported rule part: ${key}`);
+    }
+  }
+
+  if (parts.has("BYHOUR") || parts.has("BYMINUTE")) {
+    const hour = intPart(input, "BYHOUR", parts.get("BYHOUR") ?? "0", 0, 23);
+    const minute = intPart(input, "BYMINUTE", parts.get("BYMINUTE") ?? "0", 0, 59);
+    rule.dueMinute = hour * 60 + minute;
+  }
+  return rule;
+}
+
+/** Fill the weekday / month day a rule left open from its start day. */
+export function anchorRule(rule: RecurrenceRule, startDay: string): RecurrenceRule {
+  if (rule.freq === "weekly" && !rule.byDay?.length) return { ...rule, byDay: [weekdayOf(startDay)] };
+  if (rule.freq === "monthly" && rule.byMonthDay === undefined) {
+    return { ...rule, byMonthDay: Number(startDay.slice(8, 10)) };
+  }
+  return rule;
+}
+
+export function isValidRecurrence(rule: RecurrenceRule): boolean {
+  const max = MAX_INTERVAL[rule.freq];
+  if (max === undefined || !Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > max) return false;
+  if (rule.byDay && (rule.freq !== "weekly" || rule.byDay.some((d) => !Number.isInteger(d) || d < 0 || d > 6))) {
+    return false;
+  }
+  if (rule.byMonthDay !== undefined && (rule.freq !== "monthly" || !Number.isInteger(rule.byMonthDay)
+      || rule.byMonthDay < 1 || rule.byMonthDay > 31)) {
+    return false;
+  }
+  if (rule.dueMinute !== undefined && (!Number.isInteger(rule.dueMinute) || rule.dueMinute < 0
+      || rule.dueMinute > END_OF_DAY_MINUTE)) {
+    return false;
+  }
+  return true;
+}
+
+// ─── Output ───────────────────────────────────────────────────────────────────
+
+/** Canonical RRULE text, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH". */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map((d) => WEEKDAY_CODES[d]).join(",")}`);
+  if (rule.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.dueMinute !== undefined) {
+    parts.push(`BYHOUR=${Math.floor(rule.dueMinute / 60)}`, `BYMINUTE=${rule.dueMinute % 60}`);
+  }
+  return parts.join(";");
+}
+
+/** Plain-English rule, e.g. "every 2 weeks on Mon, Thu at 17:00". */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = { daily: "day", weekly: "week", monthly: "month" }[rule.freq];
+  let text = rule.interval === 1 ? `every ${unit}` : `every ${rule.interval} ${unit}s`;
+  if (rule.byDay?.length) {
+    text = rule.interval === 1 && rule.byDay.join() === "1,2,3,4,5"
+      ? "every weekday"
+      : `${text} on ${rule.byDay.map((d) => WEEKDAY_NAMES[d]).join(", ")}`;
+  }
+  if (rule.byMonthDay !== undefined) text += ` on day ${rule.byMonthDay}`;
+  if (rule.dueMinute !== undefined) {
+    const hh = String(Math.floor(rule.dueMinute / 60)).padStart(2, "0");
+    const mm = String(rule.dueMinute % 60).padStart(2, "0");
+    text += ` at ${hh}:${mm}`;
+  }
+  return text;
+}
+
+// ─── Occurrences ──────────────────────────────────────────────────────────────
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate(); // month is 1-based here
+}
+
+/** Whether `day` is an occurrence of an anchored rule that started on `startDay`. */
+export function occursOn(rule: RecurrenceRule, startDay: string, day: string): boolean {
+  const start = dayNumber(startDay);
+  const n = dayNumber(day);
+  if (n < start) return false;
+  switch (rule.freq) {
+    case "daily":
+      return (n - start) % rule.interval === 0;
+    case "weekly": {
+      if (!rule.byDay?.includes(weekdayOf(day))) return false;
+      const firstMonday = start - ((weekdayOf(startDay) + 6) % 7);
+      return Math.floor((n - firstMonday) / 7) % rule.interval === 0;
+    }
+    case "monthly": {
+      const [y0, m0] = startDay.split("-").map(Number);
+      const [y, m, d] = day.split("-").map(Number);
+      if (((y - y0) * 12 + (m - m0)) % rule.interval !== 0) return false;
+      return d === Math.min(rule.byMonthDay ?? 1, daysInMonth(y, m));
+    }
+  }
+}
+
+/** First occurrence strictly after `afterDay`, or null if the rule never recurs. */
+export function nextOccurrence(rule: RecurrenceRule, startDay: string, afterDay: string): string | null {
+  const from = Math.max(dayNumber(afterDay) + 1, dayNumber(startDay));
+  for (let n = from; n < from + SEARCH_DAYS; n++) {
+    const day = dayKeyFromNumber(n);
+    if (occursOn(rule, startDay, day)) return day;
+  }
+  return null;
+}
@@ -0,0 +1,60 @@
+/**
+ * convex/lib/reminderJobs.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Keeps exactly one pending organize reminder and one pending weekly
+ * review per user on the Convex scheduler. The job ids are stored in
+ * users.settings.organizeReminderId / weeklyReviewId so they can be
+ * cancelled whenever the timing inputs change.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { type MutationCtx } from "../_generated/server";
+import { type Doc } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { dayKeyFromNumber, dayNumber, localDayKey, localTimeToEpoch } from "./dates";
+import { weekStartOf } from "./mood";
+import { skipQuietHours } from "./reminders";
+
+/**
+ * Replace the user's pending reminder with one at `at` (moved out of quiet
+ * hours), or just cancel it when `at` is null. Pass a freshly read user doc.
+ */
+export async function scheduleOrganizeReminder(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  at: number | null,
+) {
+  const { organizeReminderId, ...settings } = user.settings;
+  if (organizeReminderId) await ctx.scheduler.cancel(organizeReminderId);
+  if (at === null) {
+    await ctx.db.patch(user._id, { settings });
+    return null;
+  }
+  const runAt = skipQuietHours(at, settings);
+  const jobId = await ctx.scheduler.runAt(runAt, internal.reminders.sendOrganizeReminder, {
+    userId: user._id,
+  });
+  await ctx.db.patch(user._id, { settings: { ...settings, organizeReminderId: jobId } });
+  return runAt;
+}
+
+/**
+ * Replace the user's pending weekly review with one for the local week
+ * containing `now`, run as that week ends (Monday midnight in the user's
+ * timezone). Pass a freshly read user doc. A stored job that is already
+ * running is the review calling this, and is left alone: cancelling it
+ * would also cancel the job scheduled here.
+ */
+export async function scheduleWeeklyReview(ctx: MutationCtx, user: Doc<"users">, now = Date.now()) {
+  const { weeklyReviewId, ...settings } = user.settings;
+  const pending = weeklyReviewId ? await ctx.db.system.get(weeklyReviewId) : null;
+  if (pending?.state.kind === "pending") await ctx.scheduler.cancel(pending._id);
+  const weekStart = weekStartOf(localDayKey(now, settings.timezone));
+  const runAt = localTimeToEpoch(dayKeyFromNumber(dayNumber(weekStart) + 7), 0, settings.timezone);
+  const jobId = await ctx.scheduler.runAt(runAt, internal.weeklyReviews.buildWeeklyReview, {
+    userId: user._id,
+    weekStart,
+  });
+  await ctx.db.patch(user._id, { settings: { ...settings, weeklyReviewId: jobId } });
+  return runAt;
+}
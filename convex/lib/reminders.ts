@@ -0,0 +1,66 @@
+/**
+ * convex/lib/reminders.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * When organize reminders are due. Pure functions, no Convex imports; the
+ * scheduling itself lives in lib/reminderJobs.ts.
+ *
+ * A reminder is due organizeIntervalMinutes after the last organize session.
+ * Quiet hours are local whole hours [start, end) in the user's timezone and
+ * may wrap midnight (22 → 7). A reminder that lands inside them is pushed
+ * to the end of the quiet window instead of being dropped.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { localMinuteOfDay } from "./dates";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+export interface QuietHours {
+  start: number; // local hour 0–23, inclusive
+  end: number;   // local hour 0–23, exclusive
+}
+
+export interface ReminderSettings {
+  organizeIntervalMinutes?: number;
+  lastOrganizedAt?: number;
+  timezone?: string;
+  quietHours?: QuietHours;
+}
+
+export function isValidQuietHours(q: QuietHours): boolean {
+  const ok = (h: number) => Number.isInteger(h) && h >= 0 && h <= 23;
+  return ok(q.start) && ok(q.end) && q.start !== q.end;
+}
+
+export function isQuietTime(epochMs: number, settings: ReminderSettings): boolean {
+  const q = settings.quietHours;
+  if (!q) return false;
+  const minute = localMinuteOfDay(epochMs, settings.timezone);
+  const start = q.start * 60;
+  const end = q.end * 60;
+  return start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end; // wraps midnight
+}
+
+/** `at`, or the end of the quiet window it falls in. */
+export function skipQuietHours(at: number, settings: ReminderSettings): number {
+  if (!isQuietTime(at, settings)) return at;
+  const minute = localMinuteOfDay(at, settings.timezone);
+  const wait = (settings.quietHours!.end * 60 - minute + DAY_MINUTES) % DAY_MINUTES;
+  // Land on the minute boundary, not mid-minute
+  return at - (at % MINUTE_MS) + wait * MINUTE_MS;
+}
+
+/**
+ * When the next reminder should fire after settings change or an organize
+ * session ends: one interval after the last session, never in the past.
+ * Null when reminders are off.
+ */
+export function organizeReminderDue(settings: ReminderSettings, now: number): number | null {
+  const interval = settings.organizeIntervalMinutes;
+  if (!interval || interval <= 0) return null;
+  const due = (settings.lastOrganizedAt ?? now) + interval * MINUTE_MS;
+  return Math.max(due, now);
+}
@@ -0,0 +1,270 @@
+/**
+ * convex/lib/rows.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Maps Convex documents into the row shapes the Mini App expects
+ * (TaskRow / HabitRow / GoalRow / SummaryData / ShopData / BadgeRow in
+ * src/types.ts).
+ *
+ * These shapes are inherited from the old Apps Script backend, which read
+ * everything out of Google Sheets — hence the string-typed fields and the
+ * upper-case "XP" suffixes. Keep them stable so the frontend doesn't change.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { type Doc } from "../_generated/dataModel";
+import { extractNum, pad } from "./ids";
+import { type RolledUp } from "./subtasks";
+import { incupTags, parseIncup } from "./incup";
+
+/** Epoch ms → ISO string, or "" when unset (Sheets left blank cells). */
+function iso(ms: number | undefined): string {
+  return ms === undefined ? "" : new Date(ms).toISOString();
+}
+
+/** INCUP labels for display; rows the migration couldn't parse show none. */
+function incupLabels(incup: string | undefined): string[] {
+  if (!incup) return [];
+  try {
+    return incupTags(parseIncup(incup));
+  } catch {
+    return [];
+  }
+}
+
+/** waitingOn: open activityIds this one is blocked by (activities.listBlockedActivities). */
+export function toTaskRow(a: Doc<"activities">, goalTitle: string | undefined, waitingOn: string[] = []) {
+  return {
+    activityId: a.activityId,
+    activity: a.activity,
+    goal: goalTitle ?? "",
+    goalId: a.goalId ?? "",
+    incup: a.incup ?? "",
+    incupTags: incupLabels(a.incup),
+    lifeArea: a.lifeArea ?? "",
+    horizon: a.horizon ?? "",
+    exeType: a.exeType ?? "",
+    category: a.category ?? "",
+    status: a.status,
+    estTime: a.estMinutes !== undefined ? String(a.estMinutes) : "",
+    actualTime: a.actualMinutes !== undefined ? String(a.actualMinutes) : "",
+    deadline: iso(a.deadline),
+    mentalBlock: a.mentalBlock ? "yes" : "",
+    feelingB4: a.feelingBefore ?? "",
+    feelingAfter: a.feelingAfter ?? "",
+    captureXP: a.captureXp,
+    organiseXP: a.organiseXp ?? 0,
+    doneXP: a.doneXp ?? 0,
+    evaluateXP: a.evaluateXp ?? 0,
+    totalXP: a.totalXp,
+    dependsOn: a.dependsOn ?? "",
+    parentId: a.parentActivityId ?? "",
+    blockedBy: waitingOn,
+    link: a.link ?? "",
+    timestamp: iso(a.capturedAt),
+    completedOn: iso(a.completedAt),
+    abandonedOn: iso(a.abandonedAt),
+    abandonReason: a.abandonReason ?? "",
+    overdue: a.overdueAt !== undefined,
+    focusing: a.sessionStart !== undefined,
+  };
+}
+
+/**
+ * The Mini App addresses habits by a numeric "rowIndex" (the Sheets row).
+ * We use the numeric part of the habitId instead: "H-0003" ↔ 3.
+ */
+export function habitRowIndex(habitId: string): number {
+  return extractNum(habitId);
+}
+
+export function habitIdFromRowIndex(rowIndex: number): string {
+  return `H-${pad(rowIndex)}`;
+}
+
+export function toHabitRow(h: Doc<"habits">) {
+  return {
+    rowIndex: habitRowIndex(h.habitId),
+    habit: h.name,
+    easy: h.easy ?? "",
+    medium: h.medium ?? "",
+    hard: h.hard ?? "",
+    peak: h.peak ?? "",
+    lifeArea: h.lifeArea,
+    streak: h.currentStreak,
+    maxStreak: h.maxStreak,
+  };
+}
+
+export function toHabitLogRow(l: Doc<"habitLogs">) {
+  return {
+    loggedAt: iso(l.loggedAt),
+    day: l.day,
+    difficulty: l.difficulty,
+    feelingB4: l.feelingBefore ?? "",
+    feelingAfter: l.feelingAfter ?? "",
+    eDelta: l.emotionDelta,
+    mentalBlock: l.mentalBlock ?? "",
+    xp: l.xpEarned,
+  };
+}
+
+export function toRewardRow(r: Doc<"rewards">) {
+  return {
+    rewardId: r.rewardId,
+    title: r.title,
+    description: r.description ?? "",
+    price: r.price,
+  };
+}
+
+export function toRedemptionRow(r: Doc<"redemptions">) {
+  return {
+    rewardId: r.rewardId,
+    title: r.title,
+    price: r.price,
+    redeemedAt: iso(r.redeemedAt),
+  };
+}
+
+/** A project completed by its last subtask (lib/subtasks.ts rollUpParents). */
+export function toRolledUpRow(r: RolledUp) {
+  return { activityId: r.activityId, status: r.status, doneXP: r.doneXp };
+}
+
+export function toBadgeRow(b: {
+  key: string;
+  name: string;
+  emoji: string;
+  description: string;
+  target: number;
+  current: number;
+  progress: number;
+  unlockedAt?: number;
+}) {
+  return {
+    key: b.key,
+    name: b.name,
+    emoji: b.emoji,
+    description: b.description,
+    target: b.target,
+    current: b.current,
+    progress: b.progress,
+    unlocked: b.unlockedAt !== undefined,
+    unlockedAt: iso(b.unlockedAt),
+  };
+}
+
+export function toGoalRow(g: {
+  goalId: string;
+  title: string;
+  lifeArea: string;
+  horizon: string;
+  status: string;
+  category: string;
+}) {
+  return {
+    goalId: g.goalId,
+    title: g.title,
+    lifeArea: g.lifeArea,
+    horizon: g.horizon,
+    status: g.status,
+    category: g.category,
+  };
+}
+
+type ProgressCounts = {
+  total: number;
+  completed: number;
+  xpEarned: number;
+  minutesSpent: number;
+  lastActivityAt: number | null;
+};
+
+function progressFields(p: ProgressCounts) {
+  return {
+    completedTasks: p.completed,
+    totalTasks: p.total,
+    xpEarned: p.xpEarned,
+    timeSpent: String(p.minutesSpent),
+    lastActivity: iso(p.lastActivityAt ?? undefined),
+  };
+}
+
+type GoalProgressDoc = ProgressCounts & {
+  goalId: string;
+  parentGoalId?: string;
+  title: string;
+  lifeArea: string;
+  horizon: string;
+  status: string;
+  category: string;
+  completedAt?: number;
+  completionXp?: number;
+  rule: { count: number; category?: string } | null;
+  ruleDone: number;
+  rollup: ProgressCounts;
+};
+
+/** Own figures count the goal's linked activities; `rollup` adds its milestones'. */
+export function toGoalProgressRow(g: GoalProgressDoc) {
+  return {
+    ...toGoalRow(g),
+    parentGoalId: g.parentGoalId ?? "",
+    ...progressFields(g),
+    rollup: progressFields(g.rollup),
+    ruleCount: g.rule?.count ?? 0,
+    ruleCategory: g.rule?.category ?? "",
+    ruleDone: g.ruleDone,
+    completedOn: iso(g.completedAt),
+    completionXP: g.completionXp ?? 0,
+  };
+}
+
+type GoalTreeDoc = GoalProgressDoc & { children: GoalTreeDoc[] };
+type GoalTreeRow = ReturnType<typeof toGoalProgressRow> & { children: GoalTreeRow[] };
+
+export function toGoalTreeRow(g: GoalTreeDoc): GoalTreeRow {
+  return { ...toGoalProgressRow(g), children: g.children.map(toGoalTreeRow) };
+}
+
+export function toSummaryData(s: {
+  totalXp: number;
+  level: number;
+  rank: string;
+  xpIntoLevel: number;
+  xpToNextLevel: number;
+  levelProgress: number;
+  hp: number;
+  chrysolite: number;
+  knockedOut: boolean;
+  capturedCount: number;
+  readyCount: number;
+  doneCount: number;
+  habitCount: number;
+  goalCount: number;
+}) {
+  return {
+    totalXP: s.totalXp,
+    level: s.level,
+    rank: s.rank,
+    xpIntoLevel: s.xpIntoLevel,
+    xpToNextLevel: s.xpToNextLevel,
+    levelProgress: s.levelProgress,
+    hp: s.hp,
+    chrysolite: s.chrysolite,
+    knockedOut: s.knockedOut,
+    capturedCount: s.capturedCount,
+    readyCount: s.readyCount,
+    doneCount: s.doneCount,
+    habitCount: s.habitCount,
+    goalCount: s.goalCount,
+  };
+}
+
+/** Parse an estimate like "25", "25 min" or "" into minutes. */
+export function parseMinutes(raw: unknown): number | undefined {
+  if (typeof raw === "number") return raw > 0 ? raw : undefined;
+  if (typeof raw !== "string") return undefined;
+  const n = parseInt(raw, 10);
+  return isNaN(n) || n <= 0 ? undefined : n;
+}
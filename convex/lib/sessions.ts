@@ -0,0 +1,104 @@
+/**
+ * convex/lib/sessions.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Focus-session bookkeeping on the `sessions` table.
+ *
+ * One row per uninterrupted run of focus on an activity. An activity can have
+ * many: pausing closes the current row, resuming opens a new one, and the
+ * activity's actualMinutes is always the sum of its closed rows.
+ *
+ * At most one row per activity is open (no endedAt) at any time; its start
+ * is mirrored on activities.sessionStart for quick display.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { type MutationCtx } from "../_generated/server";
+import { type Doc } from "../_generated/dataModel";
+
+/** Minutes between two epoch-ms timestamps (unrounded). */
+export function minutesBetween(start: number, end: number): number {
+  return Math.max(0, end - start) / 60000;
+}
+
+/** Total focused time across closed sessions, rounded to whole minutes. */
+export function sumSessionMinutes(sessions: Array<{ durationMinutes?: number }>): number {
+  return Math.round(sessions.reduce((acc, s) => acc + (s.durationMinutes ?? 0), 0));
+}
+
+export async function listSessions(ctx: MutationCtx, activity: Doc<"activities">) {
+  return ctx.db
+    .query("sessions")
+    .withIndex("by_activity", (q) => q.eq("activityDocId", activity._id))
+    .collect();
+}
+
+/**
+ * Minutes focused so far (unrounded), counting the open session up to `now`
+ * without closing it.
+ */
+export async function focusedMinutes(
+  ctx: MutationCtx,
+  activity: Doc<"activities">,
+  now: number,
+): Promise<number> {
+  const sessions = await listSessions(ctx, activity);
+  const open = sessions.find((s) => s.endedAt === undefined);
+  const openStart = open?.startedAt ?? activity.sessionStart;
+  const closed = sessions.reduce((acc, s) => acc + (s.durationMinutes ?? 0), 0);
+  return closed + (openStart !== undefined ? minutesBetween(openStart, now) : 0);
+}
+
+/** Open a new session row and mark the activity in-progress. */
+export async function openSession(ctx: MutationCtx, activity: Doc<"activities">, now: number) {
+  const sessionId = await ctx.db.insert("sessions", {
+    userId: activity.userId,
+    activityDocId: activity._id,
+    activityId: activity.activityId,
+    startedAt: now,
+    completedTask: false,
+  });
+  await ctx.db.patch(activity._id, { sessionStart: now, status: "in-progress", updatedAt: now });
+  return sessionId;
+}
+
+/**
+ * Close the activity's open session (if any) and return the new total of
+ * focused minutes across all its sessions.
+ *
+ * Activities started before sessions were recorded only have sessionStart;
+ * those get a row backfilled here so their time isn't lost.
+ */
+export async function closeOpenSession(
+  ctx: MutationCtx,
+  activity: Doc<"activities">,
+  now: number,
+  opts: { completedTask: boolean; interruptedReason?: string },
+): Promise<number> {
+  const sessions = await listSessions(ctx, activity);
+  let open = sessions.find((s) => s.endedAt === undefined);
+
+  if (!open && activity.sessionStart !== undefined) {
+    const legacyId = await ctx.db.insert("sessions", {
+      userId: activity.userId,
+      activityDocId: activity._id,
+      activityId: activity.activityId,
+      startedAt: activity.sessionStart,
+      completedTask: false,
+    });
+    open = (await ctx.db.get(legacyId))!;
+    sessions.push(open);
+  }
+
+  if (open) {
+    const durationMinutes = minutesBetween(open.startedAt, now);
+    await ctx.db.patch(open._id, {
+      endedAt: now,
+      durationMinutes,
+      completedTask: opts.completedTask,
+      interruptedReason: opts.interruptedReason,
+    });
+    open.durationMinutes = durationMinutes;
+  }
+
+  return sumSessionMinutes(sessions);
+}
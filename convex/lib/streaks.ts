@@ -0,0 +1,60 @@
+/**
+ * convex/lib/streaks.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Habit streak rules, based on local calendar days (see lib/dates.ts).
+ *
+ *   • first log of a day on the day after the last log → streak + 1
+ *   • another log on the same day                      → streak unchanged
+ *   • a missed day                                     → streak restarts at 1
+ *
+ * maxStreak is never lowered.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { daysBetween } from "./dates";
+
+export interface StreakState {
+  currentStreak: number;
+  maxStreak: number;
+  // Day key of the last log, undefined if never logged
+  lastLoggedDay?: string;
+}
+
+export interface StreakUpdate {
+  currentStreak: number;
+  maxStreak: number;
+  lastLoggedDay: string;
+  // False when today was already logged, so the streak didn't move
+  counted: boolean;
+}
+
+export function nextStreak(prev: StreakState, today: string): StreakUpdate {
+  const gap = prev.lastLoggedDay ? daysBetween(prev.lastLoggedDay, today) : Infinity;
+
+  if (gap <= 0) {
+    // Same day (or a clock skewed into the past) — already counted
+    return {
+      currentStreak: prev.currentStreak,
+      maxStreak: prev.maxStreak,
+      lastLoggedDay: prev.lastLoggedDay!,
+      counted: false,
+    };
+  }
+
+  const currentStreak = gap === 1 ? prev.currentStreak + 1 : 1;
+  return {
+    currentStreak,
+    maxStreak: Math.max(prev.maxStreak, currentStreak),
+    lastLoggedDay: today,
+    counted: true,
+  };
+}
+
+/**
+ * Streak as it stands today: a streak whose last log is older than yesterday
+ * is already broken, even though nothing has been written yet.
+ */
+export function effectiveStreak(prev: StreakState, today: string): number {
+  if (!prev.lastLoggedDay) return 0;
+  return daysBetween(prev.lastLoggedDay, today) <= 1 ? prev.currentStreak : 0;
+}
@@ -0,0 +1,139 @@
+/**
+ * convex/lib/subtasks.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Dependency checks and project roll-up on the `activities` table, using the
+ * pure graph rules in lib/graph.ts.
+ *
+ * A project completes on its own when its last subtask closes: it earns its
+ * done XP like a finished focus run, timed by the minutes its subtasks took,
+ * and may in turn complete its own parent.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { type DatabaseReader, type MutationCtx } from "../_generated/server";
+import { type Doc, type Id } from "../_generated/dataModel";
+import { awardUser } from "./award";
+import { isClosed, readyToRollUp } from "./graph";
+import { completionHpDelta } from "./hp";
+import { computeDoneXp } from "./xp";
+
+const OPEN_STATUSES = ["captured", "organized", "in-progress"] as const;
+
+export async function loadActivities(ctx: { db: DatabaseReader }, userId: Id<"users">) {
+  return ctx.db
+    .query("activities")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+}
+
+/**
+ * Activities that aren't closed yet. Enough for blockedActivities(): only
+ * an open activity can be blocked, and only an open one can block it.
+ */
+export async function loadOpenActivities(ctx: { db: DatabaseReader }, userId: Id<"users">) {
+  const byStatus = await Promise.all(OPEN_STATUSES.map((status) => ctx.db
+    .query("activities")
+    .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", status))
+    .collect()));
+  return byStatus.flat();
+}
+
+async function findActivity(ctx: { db: DatabaseReader }, userId: Id<"users">, activityId: string) {
+  return ctx.db
+    .query("activities")
+    .withIndex("by_user_activity_id", (q) => q.eq("userId", userId).eq("activityId", activityId))
+    .unique();
+}
+
+async function listSubtasks(ctx: { db: DatabaseReader }, parent: { userId: Id<"users">; activityId: string }) {
+  return ctx.db
+    .query("activities")
+    .withIndex("by_user_parent", (q) => q.eq("userId", parent.userId).eq("parentActivityId", parent.activityId))
+    .collect();
+}
+
+/** What `activity` waits on (lib/graph.ts): its prerequisite, then its subtasks. */
+async function waitsOn(ctx: { db: DatabaseReader }, activity: Doc<"activities">) {
+  const prerequisite = activity.dependsOn ? await findActivity(ctx, activity.userId, activity.dependsOn) : null;
+  return [...(prerequisite ? [prerequisite] : []), ...(await listSubtasks(ctx, activity))];
+}
+
+/** Throws if focusing on `activity` has to wait for something still open. */
+export async function assertUnblocked(ctx: { db: DatabaseReader }, activity: Doc<"activities">) {
+  const open = (await waitsOn(ctx, activity)).filter((a) => !isClosed(a.status)).map((a) => a.activityId);
+  if (open.length > 0) throw new Error(`Blocked until ${open.join(", ")} is done`);
+}
+
+/** Throws unless `activity` may wait on `prerequisiteId`. */
+export async function assertValidDependency(
+  ctx: { db: DatabaseReader },
+  activity: Doc<"activities">,
+  prerequisiteId: string,
+) {
+  const prerequisite = await findActivity(ctx, activity.userId, prerequisiteId);
+  if (!prerequisite) throw new Error(`Activity not found: ${prerequisiteId}`);
+  // Walk everything the prerequisite waits on, directly or not. Reaching the
+  // activity would close a loop; its own edges (including the one being
+  // replaced) are never followed.
+  const seen = new Set([prerequisite.activityId]);
+  const stack = [prerequisite];
+  while (stack.length > 0 && !seen.has(activity.activityId)) {
+    for (const next of await waitsOn(ctx, stack.pop()!)) {
+      if (seen.has(next.activityId)) continue;
+      seen.add(next.activityId);
+      stack.push(next);
+    }
+  }
+  if (seen.has(activity.activityId)) {
+    throw new Error(`${activity.activityId} can't depend on ${prerequisiteId}: that would be circular`);
+  }
+}
+
+export interface RolledUp {
+  activityId: string;
+  status: "complete" | "complete-late";
+  doneXp: number;
+  goalId?: string;
+}
+
+/**
+ * Complete every ancestor of `child` whose subtasks are now all closed.
+ * Call after `child` has been written in its closed state.
+ */
+export async function rollUpParents(
+  ctx: MutationCtx,
+  child: Doc<"activities">,
+  now: number,
+): Promise<RolledUp[]> {
+  const rolled: RolledUp[] = [];
+  let parentId = child.parentActivityId;
+  while (parentId) {
+    const parent = await findActivity(ctx, child.userId, parentId);
+    if (!parent || (parent.status !== "organized" && parent.status !== "in-progress")) break;
+    const children = await listSubtasks(ctx, parent);
+    if (!readyToRollUp(children)) break;
+
+    const actualMinutes = children.reduce((sum, c) => sum + (c.actualMinutes ?? 0), parent.actualMinutes ?? 0);
+    const done = computeDoneXp({
+      organiseXp: parent.organiseXp ?? 0, completedAt: now,
+      deadline: parent.deadline, mentalBlock: parent.mentalBlock ?? false,
+      actualMinutes, estMinutes: parent.estMinutes,
+    });
+    const status = done.isLate ? "complete-late" : "complete";
+    const user = (await ctx.db.get(parent.userId))!;
+    const award = await awardUser(ctx, user, {
+      source: "done", activityDocId: parent._id,
+      xp: done.doneXp, chrysolite: done.chrysolite,
+      hpDelta: completionHpDelta(done.isLate),
+    }, now);
+    await ctx.db.patch(parent._id, {
+      actualMinutes, completedAt: now, status,
+      doneXp: award.xp, totalXp: parent.totalXp + award.xp,
+      chrysolite: (parent.chrysolite ?? 0) + done.chrysolite,
+      updatedAt: now,
+    });
+    rolled.push({ activityId: parent.activityId, status, doneXp: award.xp, goalId: parent.goalId });
+    parentId = parent.parentActivityId;
+  }
+  return rolled;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { createHmac } from "node:crypto";
+import { INIT_DATA_MAX_AGE_SECONDS, InitDataError, verifyInitData, type InitDataErrorReason } from "./telegramAuth";
+
+const BOT_TOKEN = "123456:test-token";
+const NOW = 1_700_000_000_000;
+const AUTH_DATE = NOW / 1000 - 60;
+const USER = JSON.stringify({ id: 111, first_name: "Ada", username: "ada" });
+
+/** initData signed the way Telegram does it (see the header of telegramAuth.ts). */
+function signed(fields: Record<string, string>, botToken = BOT_TOKEN): string {
+  const dataCheckString = Object.keys(fields).sort().map((k) => `${k}=${fields[k]}`).join("\n");
+  const secretKey = createHmac("sha256", "WebAppData").update(botToken).digest();
+  const hash = createHmac("sha256", secretKey).update(dataCheckString).digest("hex");
+  return new URLSearchParams({ ...fields, hash }).toString();
+}
+
+/** The InitDataError reason a call fails with. */
+async function failure(run: () => Promise<unknown>): Promise<InitDataErrorReason> {
+  try {
+    await run();
+  } catch (e) {
+    expect(e).toBeInstanceOf(InitDataError);
+    return (e as InitDataError).reason;
+  }
+  throw new Error("Expected an InitDataError");
+}
+
+describe("verifyInitData", () => {
+  const fields = { auth_date: String(AUTH_DATE), query_id: "AAE1", user: USER };
+
+  it("returns the Telegram user for a valid signature", async () => {
+    await expect(verifyInitData(signed(fields), BOT_TOKEN, { now: NOW })).resolves.toEqual({
+      telegramId: "111", firstName: "Ada", lastName: undefined, username: "ada",
+    });
+  });
+
+  it("rejects a field changed after signing", async () => {
+    const tampered = signed(fields).replace("%22id%22%3A111", "%22id%22%3A222");
+    expect(tampered).not.toBe(signed(fields));
+    expect(await failure(() => verifyInitData(tampered, BOT_TOKEN, { now: NOW }))).toBe("bad-signature");
+  });
+
+  it("rejects initData signed with another bot's token", async () => {
+    const other = signed(fields, "654321:other-token");
+    expect(await failure(() => verifyInitData(other, BOT_TOKEN, { now: NOW }))).toBe("bad-signature");
+  });
+
+  it("rejects initData without a hash", async () => {
+    const unsigned = new URLSearchParams(fields).toString();
+    expect(await failure(() => verifyInitData(unsigned, BOT_TOKEN, { now: NOW }))).toBe("malformed");
+  });
+
+  it("rejects empty initData", async () => {
+    expect(await failure(() => verifyInitData("", BOT_TOKEN, { now: NOW }))).toBe("missing");
+  });
+
+  it("accepts an auth_date right at the maximum age and rejects one a second older", async () => {
+    const at = (age: number) => signed({ ...fields, auth_date: String(NOW / 1000 - age) });
+    await expect(verifyInitData(at(INIT_DATA_MAX_AGE_SECONDS), BOT_TOKEN, { now: NOW })).resolves.toBeTruthy();
+    expect(await failure(() => verifyInitData(at(INIT_DATA_MAX_AGE_SECONDS + 1), BOT_TOKEN, { now: NOW })))
+      .toBe("expired");
+  });
+
+  it("honours a shorter maxAgeSeconds", async () => {
+    expect(await failure(() => verifyInitData(signed(fields), BOT_TOKEN, { now: NOW, maxAgeSeconds: 30 })))
+      .toBe("expired");
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * convex/lib/telegramAuth.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Verification of Telegram Mini App `initData`.
+ *
+ * The Mini App receives a signed query string from Telegram
+ * (window.Telegram.WebApp.initData) and forwards it verbatim with every API
+ * request. We recompute the HMAC with the bot token, as described in
+ * https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+ *
+ *   secret_key        = HMAC_SHA256(key = "WebAppData", msg = bot_token)
+ *   data_check_string = sorted "key=value" pairs (minus `hash`) joined by "\n"
+ *   hash              = hex(HMAC_SHA256(key = secret_key, msg = data_check_string))
+ *
+ * Uses Web Crypto only, so it runs in the default Convex runtime.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+/** How long a signed initData stays valid after Telegram issued it. */
+export const INIT_DATA_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+export interface TelegramInitUser {
+  telegramId: string;
+  firstName?: string;
+  lastName?: string;
+  username?: string;
+}
+
+export type InitDataErrorReason = "missing" | "malformed" | "bad-signature" | "expired";
+
+export class InitDataError extends Error {
+  constructor(public reason: InitDataErrorReason, message: string) {
+    super(message);
+    this.name = "InitDataError";
+  }
+}
+
+const encoder = new TextEncoder();
+
+async function hmacSha256(key: BufferSource, message: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw", key, { name: "HMAC", hash: "SHA-256" }, false, ["sign"],
+  );
+  return crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(message));
+}
+
+function toHex(buf: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buf))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Compare two strings without bailing out on the first mismatch. */
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+/**
+ * Verify a raw initData string and return the Telegram user it was issued for.
+ * Throws InitDataError when the signature is wrong, the payload is older than
+ * `maxAgeSeconds`, or there is no user in it.
+ */
+export async function verifyInitData(
+  initData: string,
+  botToken: string,
+  opts: { now?: number; maxAgeSeconds?: number } = {},
+): Promise<TelegramInitUser> {
+  if (!initData) throw new InitDataError("missing", "Missing Telegram initData");
+
+  const params = new URLSearchParams(initData);
+  const hash = params.get("hash");
+  if (!hash) throw new InitDataError("malformed", "initData has no hash");
+
+  const dataCheckString = Array.from(params.entries())
+    .filter(([key]) => key !== "hash")
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+
+  const secretKey = await hmacSha256(encoder.encode("WebAppData"), botToken);
+  const expected = toHex(await hmacSha256(secretKey, dataCheckString));
+  if (!safeEqual(expected, hash.toLowerCase())) {
+    throw new InitDataError("bad-signature", "initData signature mismatch");
+  }
+
+  const authDate = Number(params.get("auth_date"));
+  if (!Number.isFinite(authDate) || authDate <= 0) {
+    throw new InitDataError("malformed", "initData has no auth_date");
+  }
+  const nowSeconds = Math.floor((opts.now ?? Date.now()) / 1000);
+  const maxAge = opts.maxAgeSeconds ?? INIT_DATA_MAX_AGE_SECONDS;
+  if (nowSeconds - authDate > maxAge) {
+    throw new InitDataError("expired", "initData is too old, reopen the Mini App");
+  }
+
+  let user: { id?: number; first_name?: string; last_name?: string; username?: string };
+  try {
+    user = JSON.parse(params.get("user") ?? "");
+  } catch {
+    throw new InitDataError("malformed", "initData has no user");
+  }
+  if (!user?.id) throw new InitDataError("malformed", "initData has no user");
+
+  return {
+    telegramId: String(user.id),
+    firstName: user.first_name,
+    lastName: user.last_name,
+    username: user.username,
+  };
+}
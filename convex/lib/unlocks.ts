@@ -0,0 +1,116 @@
+/**
+ * convex/lib/unlocks.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Achievement unlocking on the `achievements` table.
+ *
+ * The lifecycle mutations call checkAchievements() after they've written
+ * their changes, naming the event that just happened. Only achievements
+ * that event can unlock and that are still locked get checked, and only the
+ * documents their metrics need are read:
+ *   capture / organise  every activity (capturedCount, organisedCount)
+ *   done / evaluate     completed activities, via by_user_status
+ *   habit-log           habits and habitLogs
+ * Once a user has unlocked everything an event can give, it reads nothing.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { type DatabaseReader, type MutationCtx } from "../_generated/server";
+import { type Doc, type Id } from "../_generated/dataModel";
+import {
+  candidatesFor, emptyStats, isUnlocked, type AchievementEvent, type AchievementStats,
+} from "./achievements";
+
+export interface UnlockedAchievement {
+  key: string;
+  name: string;
+  emoji: string;
+}
+
+const ALL_EVENTS: AchievementEvent[] = ["capture", "organise", "done", "evaluate", "habit-log"];
+
+function tallyActivities(stats: AchievementStats, activities: ReadonlyArray<Doc<"activities">>): void {
+  for (const a of activities) {
+    stats.capturedCount++;
+    if (a.status !== "captured" && !a.isRecoveryQuest) stats.organisedCount++;
+    if (a.evaluateXp !== undefined) stats.evaluatedCount++;
+    if (a.status !== "complete" && a.status !== "complete-late") continue;
+    stats.doneCount++;
+    if (a.category) stats.doneByCategory[a.category]++;
+    if (a.status === "complete" && a.deadline !== undefined) stats.onTimeWithDeadlineCount++;
+    if (a.mentalBlock) stats.doneDespiteBlockCount++;
+  }
+}
+
+/**
+ * The user's stats, filled in for the metrics `events` can move (all of
+ * them by default). Metrics of other events are left at 0.
+ */
+export async function collectAchievementStats(
+  ctx: { db: DatabaseReader },
+  userId: Id<"users">,
+  events: ReadonlyArray<AchievementEvent> = ALL_EVENTS,
+): Promise<AchievementStats> {
+  const stats = emptyStats();
+
+  if (events.includes("capture") || events.includes("organise")) {
+    tallyActivities(stats, await ctx.db
+      .query("activities")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect());
+  } else if (events.includes("done") || events.includes("evaluate")) {
+    // Only completed activities count towards done / evaluated
+    for (const status of ["complete", "complete-late"] as const) {
+      tallyActivities(stats, await ctx.db
+        .query("activities")
+        .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", status))
+        .collect());
+    }
+  }
+
+  if (events.includes("habit-log")) {
+    const habits = await ctx.db
+      .query("habits")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    stats.bestHabitStreak = habits.reduce((acc, h) => Math.max(acc, h.maxStreak), 0);
+
+    const logs = await ctx.db
+      .query("habitLogs")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    stats.habitLogCount = logs.length;
+  }
+
+  return stats;
+}
+
+export async function listUnlockedKeys(
+  ctx: { db: DatabaseReader },
+  userId: Id<"users">,
+): Promise<Set<string>> {
+  const rows = await ctx.db
+    .query("achievements")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  return new Set(rows.map((r) => r.key));
+}
+
+/**
+ * Store any achievements `event` has just unlocked and return them for
+ * celebration.
+ */
+export async function checkAchievements(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  event: AchievementEvent,
+  now: number = Date.now(),
+): Promise<UnlockedAchievement[]> {
+  const candidates = candidatesFor([event], await listUnlockedKeys(ctx, userId));
+  if (candidates.length === 0) return [];
+  const stats = await collectAchievementStats(ctx, userId, [event]);
+  const unlocked = candidates.filter((a) => isUnlocked(a, stats));
+  for (const a of unlocked) {
+    await ctx.db.insert("achievements", { userId, key: a.key, unlockedAt: now });
+  }
+  return unlocked.map(({ key, name, emoji }) => ({ key, name, emoji }));
+}
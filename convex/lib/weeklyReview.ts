@@ -0,0 +1,188 @@
+/**
+ * convex/lib/weeklyReview.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * The weekly review: what happened in one local Monday–Sunday week.
+ * Pure functions, no Convex imports.
+ *
+ * An item belongs to the week when the timestamp for what happened to it
+ * (captured, completed, abandoned, went overdue) falls inside the week's
+ * local midnight-to-midnight range. Habit streaks are read off the days
+ * the habit was logged, with the same rule as lib/streaks.ts: a streak is
+ * still alive the day after its last log.
+ * ─────────────────────────────────────────────────────────────────────────────
+ */
+
+import { dayKeyFromNumber, dayNumber } from "./dates";
+import { estimateStats } from "./estimation";
+import { escapeHtml } from "./html";
+import { moodTrend, type MoodSample } from "./mood";
+
+// Late / abandoned items listed by name; the counts cover the rest
+const MAX_LISTED_ITEMS = 10;
+
+export interface ReviewItem {
+  activityId: string;
+  activity: string;
+}
+
+export interface HabitStreakChange {
+  habitId: string;
+  name: string;
+  sessions: number;     // logs during the week
+  streakBefore: number; // as the week started
+  streakAfter: number;  // as the week ended
+}
+
+export interface WeeklyReport {
+  weekStart: string; // Monday, "YYYY-MM-DD"
+  weekEnd: string;   // Sunday
+  xp: { total: number; byArea: Array<{ lifeArea: string; xp: number }> };
+  quests: { captured: number; completed: number; completedLate: number; abandoned: number; overdue: number };
+  lateItems: ReviewItem[];
+  abandonedItems: ReviewItem[];
+  habits: HabitStreakChange[];
+  estimation: { count: number; ratio: number; biasMinutes: number; onTarget: number };
+  mood: { count: number; avgAfter: number | null; previousAvgAfter: number | null; avgDelta: number | null };
+}
+
+export interface ReviewInput {
+  weekStart: string;
+  start: number; // epoch ms of the week's first local midnight
+  end: number;   // epoch ms of the following Monday's local midnight
+  activities: ReadonlyArray<{
+    activityId: string;
+    activity: string;
+    status: string;
+    capturedAt: number;
+    completedAt?: number;
+    abandonedAt?: number;
+    overdueAt?: number;
+    estMinutes?: number;
+    actualMinutes?: number;
+  }>;
+  habits: ReadonlyArray<{ habitId: string; name: string; loggedDays: ReadonlyArray<string> }>;
+  xpTotal: number; // all XP earned in the week, whether or not it maps to a life area
+  xpByArea: Partial<Record<string, number>>;
+  mood: ReadonlyArray<MoodSample>;
+}
+
+/** Consecutive logged days ending on `day`, or on the day before if `day` isn't logged yet. */
+export function streakAt(loggedDays: ReadonlySet<string>, day: string): number {
+  let n = dayNumber(day);
+  if (!loggedDays.has(day)) n--;
+  let streak = 0;
+  while (loggedDays.has(dayKeyFromNumber(n - streak))) streak++;
+  return streak;
+}
+
+export function buildWeeklyReport(input: ReviewInput): WeeklyReport {
+  const { start, end } = input;
+  const inWeek = (t: number | undefined) => t !== undefined && t >= start && t < end;
+  const weekEnd = dayKeyFromNumber(dayNumber(input.weekStart) + 6);
+  const dayBefore = dayKeyFromNumber(dayNumber(input.weekStart) - 1);
+  const item = (a: ReviewItem): ReviewItem => ({ activityId: a.activityId, activity: a.activity });
+
+  const completed = input.activities.filter(
+    (a) => (a.status === "complete" || a.status === "complete-late") && inWeek(a.completedAt),
+  );
+  const completedLate = completed.filter((a) => a.status === "complete-late");
+  const wentOverdue = input.activities.filter((a) => inWeek(a.overdueAt));
+  const abandoned = input.activities.filter((a) => a.status === "abandoned" && inWeek(a.abandonedAt));
+  const late = [...new Map([...completedLate, ...wentOverdue].map((a) => [a.activityId, a])).values()];
+
+  const byArea = Object.entries(input.xpByArea)
+    .filter(([, xp]) => !!xp)
+    .map(([lifeArea, xp]) => ({ lifeArea, xp: xp! }))
+    .sort((a, b) => b.xp - a.xp);
+
+  const habits = input.habits
+    .map((h) => {
+      const days = new Set(h.loggedDays);
+      return {
+        habitId: h.habitId,
+        name: h.name,
+        sessions: h.loggedDays.filter((d) => d >= input.weekStart && d <= weekEnd).length,
+        streakBefore: streakAt(days, dayBefore),
+        streakAfter: streakAt(days, weekEnd),
+      };
+    })
+    .filter((h) => h.sessions > 0 || h.streakBefore > 0);
+
+  const est = estimateStats(
+    completed
+      .filter((a) => a.estMinutes !== undefined && a.actualMinutes !== undefined)
+      .map((a) => ({ estMinutes: a.estMinutes!, actualMinutes: a.actualMinutes! })),
+  );
+
+  const [previousWeek, thisWeek] = moodTrend(input.mood, weekEnd, 2);
+
+  return {
+    weekStart: input.weekStart,
+    weekEnd,
+    xp: { total: input.xpTotal, byArea },
+    quests: {
+      captured: input.activities.filter((a) => inWeek(a.capturedAt)).length,
+      completed: completed.length,
+      completedLate: completedLate.length,
+      abandoned: abandoned.length,
+      overdue: wentOverdue.length,
+    },
+    lateItems: late.slice(0, MAX_LISTED_ITEMS).map(item),
+    abandonedItems: abandoned.slice(0, MAX_LISTED_ITEMS).map(item),
+    habits,
+    estimation: { count: est.count, ratio: est.ratio, biasMinutes: est.biasMinutes, onTarget: est.onTarget },
+    mood: {
+      count: thisWeek.count,
+      avgAfter: thisWeek.avgAfter,
+      previousAvgAfter: previousWeek.avgAfter,
+      avgDelta: thisWeek.avgDelta,
+    },
+  };
+}
+
+// ─── Telegram text ────────────────────────────────────────────────────────────
+
+function signed(n: number): string {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+/** The review as an HTML message, in the style of the bot's own replies. */
+export function formatWeeklyReview(r: WeeklyReport): string {
+  const lines = [`📅 <b>Weekly review</b> · ${r.weekStart} → ${r.weekEnd}`, ""];
+
+  lines.push(`✨ <b>${r.xp.total} XP</b>` + (r.xp.byArea.length
+    ? ` · ${r.xp.byArea.map((a) => `${a.lifeArea} ${a.xp}`).join(" · ")}`
+    : ""));
+  lines.push(`⚔️ ${r.quests.completed} completed · 📥 ${r.quests.captured} captured`);
+
+  if (r.quests.completedLate || r.quests.overdue || r.quests.abandoned) {
+    lines.push(`⏰ ${r.quests.completedLate} done late · ${r.quests.overdue} went overdue · 🏳️ ${r.quests.abandoned} abandoned`);
+    for (const a of r.lateItems) lines.push(`  • <code>${a.activityId}</code> ${escapeHtml(a.activity.substring(0, 50))} (late)`);
+    for (const a of r.abandonedItems) lines.push(`  • <code>${a.activityId}</code> ${escapeHtml(a.activity.substring(0, 50))} (abandoned)`);
+  }
+
+  if (r.habits.length) {
+    lines.push("", "🔥 <b>Habits</b>");
+    for (const h of r.habits) {
+      const change = h.streakAfter - h.streakBefore;
+      lines.push(`  • ${escapeHtml(h.name)}: ${h.sessions}× · streak ${h.streakBefore} → ${h.streakAfter}${change ? ` (${signed(change)})` : ""}`);
+    }
+  }
+
+  lines.push("");
+  lines.push(r.estimation.count
+    ? `📏 Estimates: tasks took ×${r.estimation.ratio} of plan (${signed(r.estimation.biasMinutes)} min each), ` +
+      `${Math.round(r.estimation.onTarget * 100)}% within ±20%`
+    : "📏 No timed tasks finished this week.");
+
+  if (r.mood.avgAfter !== null) {
+    const shift = r.mood.previousAvgAfter !== null
+      ? Math.round((r.mood.avgAfter - r.mood.previousAvgAfter) * 10) / 10
+      : null;
+    lines.push(`😊 Mood after sessions: ${r.mood.avgAfter}/10` +
+      (shift === null ? "" : shift > 0 ? ` (▲${shift} vs last week)` : shift < 0 ? ` (▼${-shift} vs last week)` : " (same as last week)"));
+  } else {
+    lines.push("😊 No feelings logged this week.");
+  }
+  return lines.join("\n");
+}
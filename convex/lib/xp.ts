@@ -14,6 +14,8 @@
  * ─────────────────────────────────────────────────────────────────────────────
  */
 
+import { incupScore, parseIncup } from "./incup";
+
 // ─── Shared Types ─────────────────────────────────────────────────────────────
 
 export type CategoryKey =
@@ -54,18 +56,13 @@ export const HORIZON_BONUS: Record<HorizonKey, number> = {
   someday: 0,
 };
 
-// ─── INCUP Score Parser ───────────────────────────────────────────────────────
-// INCUP string is 5 chars, each char = one dimension (Importance, Novelty,
-// Control, Urgency, Panic). Uppercase = high (1), lowercase = low (0).
-// Max INCUP score = 5.
+// ─── INCUP Score ──────────────────────────────────────────────────────────────
+// Number of INCUP dimensions that apply (see lib/incup.ts for the model and
+// both accepted notations). Max INCUP score = 5.
 
 export function parseIncupScore(incup: string): number {
-  if (!incup) return 0;
-  let score = 0;
-  for (const ch of incup.slice(0, 5)) {
-    if (ch === ch.toUpperCase() && ch !== ch.toLowerCase()) score++;
-  }
-  return score;
+  if (!incup.trim()) return 0;
+  return incupScore(parseIncup(incup));
 }
 
 // ─── 1. Capture XP ────────────────────────────────────────────────────────────
@@ -196,7 +193,20 @@ export function computeEvaluateXp(input: EvaluateXpInput): number {
 // Maps emotion strings to numeric scores then diffs them.
 // Higher number = more positive state.
 
-const EMOTION_SCORE: Record<string, number> = {
+export type EmotionKey =
+  | "joyful"
+  | "excited"
+  | "hopeful"
+  | "calm"
+  | "curious"
+  | "neutral"
+  | "bored"
+  | "anxious"
+  | "frustrated"
+  | "overwhelmed"
+  | "defeated";
+
+const EMOTION_SCORE: Record<EmotionKey, number> = {
   joyful: 10,
   excited: 9,
   hopeful: 8,
@@ -212,9 +222,11 @@ const EMOTION_SCORE: Record<string, number> = {
 
 export function emotionScore(emotion: string | undefined): number {
   if (!emotion) return 5; // default neutral
-  return EMOTION_SCORE[emotion] ?? 5;
+  return EMOTION_SCORE[emotion as EmotionKey] ?? 5;
 }
 
+export const EMOTIONS = Object.keys(EMOTION_SCORE) as EmotionKey[];
+
 export function computeEmotionDelta(
   before: string | undefined,
   after: string | undefined,
@@ -243,3 +255,12 @@ export function computeHabitXp(opts: {
   const streakMult = Math.min(2.0, 1.0 + Math.floor(opts.currentStreak / 7) * 0.1);
   return Math.round(base * streakMult);
 }
+
+// ─── Goal Completion XP ───────────────────────────────────────────────────────
+// One-off bonus when a goal's completion rule is met (lib/goals.ts).
+
+export const GOAL_COMPLETION_BASE_XP = 100;
+
+export function computeGoalCompletionXp(category: CategoryKey): number {
+  return Math.round(GOAL_COMPLETION_BASE_XP * CATEGORY_MULTIPLIER[category]);
+}
@@ -0,0 +1,131 @@
+/**
+ * convex/lifeWheel.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Repeated life-wheel assessments: record a new set of ratings, show how
+ * each life area moved, and suggest areas that need a goal.
+ *
+ * The first gap analysis at onboarding only leaves a gapScore on each goal;
+ * the ratings themselves live here so they can be compared over time.
+ */
+
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { callerArgs, requireUser } from "./lib/auth";
+import { DAY_MS } from "./lib/dates";
+import { xpByLifeArea } from "./lib/ledger";
+import {
+  LIFE_AREAS, RATING_MAX, areaTrends, gapSuggestions, isValidRatings, type LifeAreaKey,
+} from "./lib/lifeWheel";
+
+const RATINGS = v.object({
+  spiritual: v.number(),
+  physical: v.number(),
+  mental: v.number(),
+  financial: v.number(),
+  social: v.number(),
+  emotional: v.number(),
+});
+
+// Assessments shown in a trend by default
+const TREND_LIMIT = 12;
+
+// Window of XP compared against the latest ratings by default
+const GAP_WINDOW_DAYS = 30;
+
+// ─── Mutations ──────────────────────────────────────────────────────────────────────
+
+/**
+ * recordLifeRatings
+ * Store a new life-wheel assessment (0-10 per area). Returns the trend
+ * against the previous assessment so the bot can show what moved.
+ */
+export const recordLifeRatings = mutation({
+  args: {
+    ...callerArgs,
+    ratings: RATINGS,
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args);
+    if (!isValidRatings(args.ratings)) {
+      throw new Error(`Ratings must be whole numbers from 0 to ${RATING_MAX}`);
+    }
+    const now = Date.now();
+    const previous = await ctx.db
+      .query("lifeRatings")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .first();
+    const _id = await ctx.db.insert("lifeRatings", {
+      userId: user._id,
+      ratings: args.ratings,
+      note: args.note,
+      assessedAt: now,
+    });
+    const trends = areaTrends([
+      ...(previous ? [previous] : []),
+      { assessedAt: now, ratings: args.ratings },
+    ]);
+    return { _id, assessedAt: now, trends };
+  },
+});
+
+// ─── Queries ────────────────────────────────────────────────────────────────────────
+
+/**
+ * getLifeRatingTrends
+ * Per life area: latest rating, change since the previous assessment and
+ * the history of the last `limit` assessments, oldest first.
+ */
+export const getLifeRatingTrends = query({
+  args: { userId: v.id("users"), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const assessments = await ctx.db
+      .query("lifeRatings")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .take(args.limit ?? TREND_LIMIT);
+    return {
+      assessments: assessments.length,
+      lastAssessedAt: assessments[0]?.assessedAt ?? null,
+      trends: areaTrends(assessments),
+    };
+  },
+});
+
+/**
+ * getGapSuggestions
+ * Life areas from the latest assessment that are rated low and got less
+ * than their share of the XP earned over the last `days` days, most
+ * neglected first, with how many active goals each already has.
+ * Returns null when the user has never rated their life wheel.
+ */
+export const getGapSuggestions = query({
+  args: { userId: v.id("users"), days: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const latest = await ctx.db
+      .query("lifeRatings")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .first();
+    if (!latest) return null;
+
+    const days = args.days ?? GAP_WINDOW_DAYS;
+    const xpByArea = await xpByLifeArea(ctx, args.userId, Date.now() - days * DAY_MS);
+    const activeGoals = await ctx.db
+      .query("goals")
+      .withIndex("by_user_status", (q) => q.eq("userId", args.userId).eq("status", "active"))
+      .collect();
+    const goalCount = (area: LifeAreaKey) => activeGoals.filter((g) => g.lifeArea === area).length;
+
+    return {
+      assessedAt: latest.assessedAt,
+      days,
+      xpByArea: Object.fromEntries(LIFE_AREAS.map((area) => [area, xpByArea[area] ?? 0])),
+      suggestions: gapSuggestions(latest.ratings, xpByArea).map((s) => ({
+        ...s,
+        activeGoals: goalCount(s.lifeArea),
+      })),
+    };
+  },
+});
@@ -0,0 +1,90 @@
+/**
+ * convex/migrations.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * One-off data migrations. Internal; run each once from the dashboard or
+ *   npx convex run migrations:normalizeIncupCodes '{}'
+ * after deploying the code that needs it. Each is safe to run again.
+ */
+
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { IncupError, normalizeLegacyIncup } from "./lib/incup";
+import { scheduleWeeklyReview } from "./lib/reminderJobs";
+
+// Documents handled per run; each run schedules the next page
+const MIGRATION_BATCH = 200;
+
+/**
+ * normalizeIncupCodes
+ * Rewrite activities.incup and habits.incup into the canonical case code
+ * (lib/incup.ts). Older rows hold comma tags from the Mini App or tags run
+ * together by the bot, or loose five-letter codes (normalizeLegacyIncup).
+ * Values that still don't parse are left as they are, logged and returned
+ * in `skipped`. Pages through activities, then habits.
+ */
+export const normalizeIncupCodes = internalMutation({
+  args: {
+    table: v.optional(v.union(v.literal("activities"), v.literal("habits"))),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const table = args.table ?? "activities";
+    const page = await ctx.db
+      .query(table)
+      .paginate({ cursor: args.cursor ?? null, numItems: MIGRATION_BATCH });
+
+    let updated = 0;
+    const skipped: string[] = [];
+    for (const doc of page.page) {
+      if (!doc.incup) continue;
+      try {
+        const incup = normalizeLegacyIncup(doc.incup);
+        if (incup === doc.incup) continue;
+        await ctx.db.patch(doc._id, { incup });
+        updated++;
+      } catch (e) {
+        if (!(e instanceof IncupError)) throw e;
+        console.warn(`Skipping ${table} ${doc._id}: ${e.message}`);
+        skipped.push(doc._id);
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.normalizeIncupCodes, {
+        table, cursor: page.continueCursor,
+      });
+    } else if (table === "activities") {
+      await ctx.scheduler.runAfter(0, internal.migrations.normalizeIncupCodes, { table: "habits" });
+    }
+    return { table, updated, skipped };
+  },
+});
+
+/**
+ * scheduleWeeklyReviews
+ * Give every user without one a pending weekly review job (users created
+ * before reviews were scheduled per user). Pages through users.
+ */
+export const scheduleWeeklyReviews = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("users")
+      .paginate({ cursor: args.cursor ?? null, numItems: MIGRATION_BATCH });
+
+    let scheduled = 0;
+    for (const user of page.page) {
+      if (user.settings.weeklyReviewId) continue;
+      await scheduleWeeklyReview(ctx, user);
+      scheduled++;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.scheduleWeeklyReviews, {
+        cursor: page.continueCursor,
+      });
+    }
+    return { scheduled };
+  },
+});
@@ -0,0 +1,43 @@
+/**
+ * convex/notifications.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Outgoing Telegram messages sent from Convex itself (scheduled jobs), as
+ * opposed to replies the bot sends from telegram.js.
+ *
+ * Uses the same BOT_TOKEN env var as http.ts. Messages are HTML-formatted
+ * like the bot's own replies.
+ */
+
+import { internalAction } from "./_generated/server";
+import { v } from "convex/values";
+
+const TG_API = "https://api.telegram.org/bot";
+
+const inlineButton = v.object({ text: v.string(), callback_data: v.string() });
+
+/**
+ * sendTelegramMessage
+ * Fire-and-forget send; failures are logged rather than retried so a bad
+ * chatId can't wedge the scheduler. `buttons` are inline-keyboard rows,
+ * handled by the bot's callback router like any other.
+ */
+export const sendTelegramMessage = internalAction({
+  args: { chatId: v.string(), text: v.string(), buttons: v.optional(v.array(v.array(inlineButton))) },
+  handler: async (_ctx, args) => {
+    const token = process.env.BOT_TOKEN;
+    if (!token) throw new Error("Missing env var: BOT_TOKEN");
+    const res = await fetch(`${TG_API}${token}/sendMessage`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        chat_id: args.chatId,
+        text: args.text,
+        parse_mode: "HTML",
+        ...(args.buttons ? { reply_markup: { inline_keyboard: args.buttons } } : {}),
+      }),
+    });
+    if (!res.ok) {
+      console.error(`sendMessage to ${args.chatId} failed (${res.status}):`, (await res.text()).slice(0, 300));
+    }
+  },
+});
@@ -0,0 +1,73 @@
+/**
+ * convex/planner.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * "Plan my day" query for the bot's /plan command and the Mini App Do tab.
+ * The planning rules live in lib/planner.ts.
+ */
+
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { blockedActivities, isDone } from "./lib/graph";
+import { countWaitingOn } from "./lib/recommend";
+import { loadActivities } from "./lib/subtasks";
+import { localMinuteOfDay } from "./lib/dates";
+import { estimateScale } from "./lib/estimation";
+import { planDay } from "./lib/planner";
+
+// Finished items whose estimates tune the plan
+const SCALE_HISTORY = 30;
+
+const MAX_BUDGET_MINUTES = 24 * 60;
+
+/**
+ * planMyDay
+ * An ordered plan of organized activities that fits in `minutes`, with
+ * estimates scaled by how the user's past estimates held up. `lifeAreas`
+ * favours items in those areas. Items due before the end of the user's day
+ * come first; ones that didn't fit are listed in dueTodayLeftOut.
+ */
+export const planMyDay = query({
+  args: {
+    userId: v.id("users"),
+    minutes: v.number(),
+    lifeAreas: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    if (!(args.minutes > 0 && args.minutes <= MAX_BUDGET_MINUTES)) {
+      throw new Error(`Minutes must be between 1 and ${MAX_BUDGET_MINUTES}`);
+    }
+    const user = await ctx.db.get(args.userId);
+    if (!user) throw new Error(`User not found: ${args.userId}`);
+
+    const now = Date.now();
+    const all = await loadActivities(ctx, args.userId);
+    const blocked = blockedActivities(all);
+    const byId = new Map(all.map((a) => [a.activityId, a]));
+
+    const history = all
+      .filter((a) => isDone(a.status) && a.estMinutes !== undefined && a.actualMinutes !== undefined)
+      .sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0))
+      .slice(0, SCALE_HISTORY)
+      .map((a) => ({ estMinutes: a.estMinutes!, actualMinutes: a.actualMinutes! }));
+
+    const minutesLeftToday = 24 * 60 - localMinuteOfDay(now, user.settings.timezone);
+    const plan = planDay(
+      all
+        .filter((a) => a.status === "organized")
+        .map((a) => ({ ...a, waitingOn: blocked.get(a.activityId) ?? [] })),
+      {
+        budgetMinutes: Math.round(args.minutes),
+        lifeAreas: args.lifeAreas,
+        scale: estimateScale(history),
+        dayEnd: now + minutesLeftToday * 60 * 1000,
+        rank: { now, blocked: new Set(blocked.keys()), waitingOn: countWaitingOn(blocked) },
+      },
+    );
+
+    return {
+      ...plan,
+      items: plan.items.map((i) => ({ ...i, activity: byId.get(i.activityId)!.activity })),
+      dueTodayLeftOut: plan.dueTodayLeftOut.map((id) => ({ activityId: id, activity: byId.get(id)!.activity })),
+    };
+  },
+});
@@ -0,0 +1,228 @@
+/**
+ * convex/recurring.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Recurring activity templates: weekly reviews, bills, chores.
+ *
+ * A template holds the activity text, an RRULE-style rule (lib/recurrence.ts)
+ * and optional organize fields. createDueInstances, run hourly by crons.ts,
+ * creates one ordinary activity per occurrence at the start of the
+ * occurrence's local day, with a fresh activityId and a deadline at the
+ * rule's due time in the user's timezone. Instances carry the templateId
+ * but are otherwise independent: finishing or abandoning one doesn't touch
+ * the template, and pausing or deleting the template leaves them alone.
+ *
+ * Occurrences missed while the job wasn't running (or the template was
+ * paused) are skipped, not created late in a burst.
+ */
+
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { type Doc } from "./_generated/dataModel";
+import { callerArgs, requireOwned, requireUser } from "./lib/auth";
+import { nextActivityId, nextTemplateId } from "./lib/ids";
+import { dayKeyFromNumber, dayNumber, localDayKey, localTimeToEpoch } from "./lib/dates";
+import { normalizeIncup } from "./lib/incup";
+import {
+  END_OF_DAY_MINUTE, anchorRule, describeRecurrence, formatRRule, nextOccurrence, parseRecurrence,
+  type RecurrenceRule,
+} from "./lib/recurrence";
+
+// Templates handled per run; a full batch reschedules the job straight away
+const INSTANCE_BATCH = 100;
+
+/** First occurrence on or after `day`, and the instant to create it. */
+function scheduleFrom(rule: RecurrenceRule, startDay: string, day: string, timeZone: string | undefined) {
+  const nextDay = nextOccurrence(rule, startDay, dayKeyFromNumber(dayNumber(day) - 1));
+  if (!nextDay) throw new Error("This rule never recurs");
+  return { nextDay, nextRunAt: localTimeToEpoch(nextDay, 0, timeZone) };
+}
+
+function withDescription(t: Doc<"recurringTemplates">) {
+  return { ...t, rrule: formatRRule(t.rule), description: describeRecurrence(t.rule) };
+}
+
+// ─── Mutations ──────────────────────────────────────────────────────────────────────
+
+/**
+ * createRecurringTemplate
+ * `rule` is a shorthand (daily, weekdays, weekly, monthly) or an RRULE such
+ * as "FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;BYHOUR=18". Weekly and monthly rules
+ * without BYDAY / BYMONTHDAY repeat on the start day's weekday / date.
+ * `startDay` (local "YYYY-MM-DD") defaults to today.
+ */
+export const createRecurringTemplate = mutation({
+  args: {
+    ...callerArgs,
+    activity: v.string(),
+    rule: v.string(),
+    startDay: v.optional(v.string()),
+    goalId: v.optional(v.string()),
+    incup: v.optional(v.string()),
+    lifeArea: v.optional(v.union(v.literal("spiritual"),v.literal("physical"),v.literal("mental"),v.literal("financial"),v.literal("social"),v.literal("emotional"))),
+    horizon: v.optional(v.union(v.literal("today"),v.literal("week"),v.literal("month"),v.literal("quarter"),v.literal("annum"),v.literal("someday"))),
+    exeType: v.optional(v.union(v.literal("task"),v.literal("project"),v.literal("habit"))),
+    category: v.optional(v.union(v.literal("main-quest"),v.literal("side-quest"),v.literal("fake-boss"),v.literal("sleeping-dragon"),v.literal("void-filler"))),
+    estMinutes: v.optional(v.number()),
+  },
+  handler: async (ctx, { telegramId, botSecret, rule: ruleText, startDay: startArg, ...fields }) => {
+    const user = await requireUser(ctx, { telegramId, botSecret });
+    if (!fields.activity.trim()) throw new Error("Activity text is required");
+    const organize = [fields.lifeArea, fields.horizon, fields.exeType, fields.category];
+    if (organize.some((f) => f !== undefined) && organize.some((f) => f === undefined)) {
+      throw new Error("Set lifeArea, horizon, exeType and category together to pre-organize instances");
+    }
+    if (startArg !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(startArg)) {
+      throw new Error(`startDay must look like YYYY-MM-DD: ${startArg}`);
+    }
+
+    const now = Date.now();
+    const timeZone = user.settings.timezone;
+    const today = localDayKey(now, timeZone);
+    const startDay = startArg ?? today;
+    const rule = anchorRule(parseRecurrence(ruleText), startDay);
+    const templateId = await nextTemplateId(ctx, user._id);
+    const first = scheduleFrom(rule, startDay, startDay < today ? today : startDay, timeZone);
+
+    const _id = await ctx.db.insert("recurringTemplates", {
+      userId: user._id,
+      templateId,
+      ...fields,
+      activity: fields.activity.trim(),
+      incup: fields.incup === undefined ? undefined : normalizeIncup(fields.incup),
+      rule,
+      startDay,
+      active: true,
+      ...first,
+      createdAt: now,
+      updatedAt: now,
+    });
+    // A template whose first occurrence is today gets its instance right away
+    if (first.nextRunAt <= now) {
+      await ctx.scheduler.runAfter(0, internal.recurring.createDueInstances, {});
+    }
+    return {
+      _id, templateId, nextDay: first.nextDay,
+      rrule: formatRRule(rule), description: describeRecurrence(rule),
+    };
+  },
+});
+
+/**
+ * setRecurringTemplateActive
+ * Pause or resume a template. Resuming picks up from the next occurrence
+ * on or after today; the ones missed while paused are skipped.
+ */
+export const setRecurringTemplateActive = mutation({
+  args: { ...callerArgs, templateDocId: v.id("recurringTemplates"), active: v.boolean() },
+  handler: async (ctx, { templateDocId, active, ...caller }) => {
+    const { user, doc: template } = await requireOwned(ctx, caller, templateDocId);
+    const now = Date.now();
+    if (!active) {
+      await ctx.db.patch(templateDocId, { active: false, updatedAt: now });
+      return { active: false, nextDay: null };
+    }
+    const next = scheduleFrom(template.rule, template.startDay, localDayKey(now, user.settings.timezone), user.settings.timezone);
+    await ctx.db.patch(templateDocId, { active: true, ...next, updatedAt: now });
+    if (next.nextRunAt <= now) {
+      await ctx.scheduler.runAfter(0, internal.recurring.createDueInstances, {});
+    }
+    return { active: true, nextDay: next.nextDay };
+  },
+});
+
+/**
+ * deleteRecurringTemplate
+ * Stop a recurrence for good. Instances already created stay as they are.
+ */
+export const deleteRecurringTemplate = mutation({
+  args: { ...callerArgs, templateDocId: v.id("recurringTemplates") },
+  handler: async (ctx, { templateDocId, ...caller }) => {
+    await requireOwned(ctx, caller, templateDocId);
+    await ctx.db.delete(templateDocId);
+  },
+});
+
+/**
+ * createDueInstances
+ * Create today's instance for every active template whose next occurrence
+ * has started in the user's timezone, then move the template on to the
+ * following occurrence.
+ */
+export const createDueInstances = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("recurringTemplates")
+      .withIndex("by_active_next_run", (q) => q.eq("active", true).lte("nextRunAt", now))
+      .take(INSTANCE_BATCH);
+
+    let created = 0;
+    for (const t of due) {
+      const user = await ctx.db.get(t.userId);
+      if (!user) {
+        await ctx.db.patch(t._id, { active: false, updatedAt: now });
+        continue;
+      }
+      const timeZone = user.settings.timezone;
+      const today = localDayKey(now, timeZone);
+      const patch: Partial<Doc<"recurringTemplates">> = { updatedAt: now };
+
+      if (t.nextDay === today) {
+        const activityId = await nextActivityId(ctx, t.userId);
+        const organized = t.lifeArea !== undefined && t.horizon !== undefined
+          && t.exeType !== undefined && t.category !== undefined;
+        await ctx.db.insert("activities", {
+          userId: t.userId,
+          activityId,
+          activity: t.activity,
+          templateId: t.templateId,
+          goalId: t.goalId,
+          incup: t.incup,
+          lifeArea: t.lifeArea,
+          horizon: t.horizon,
+          exeType: t.exeType,
+          category: t.category,
+          estMinutes: t.estMinutes,
+          deadline: localTimeToEpoch(today, t.rule.dueMinute ?? END_OF_DAY_MINUTE, timeZone),
+          status: organized ? "organized" : "captured",
+          capturedAt: now,
+          updatedAt: now,
+          captureXp: 0,
+          totalXp: 0,
+        });
+        patch.lastActivityId = activityId;
+        created++;
+      }
+      // Move past today's occurrence (created or missed). A later nextDay is
+      // kept and only re-timed, e.g. after the user changed timezone.
+      const from = t.nextDay > today ? t.nextDay : dayKeyFromNumber(dayNumber(today) + 1);
+      Object.assign(patch, scheduleFrom(t.rule, t.startDay, from, timeZone));
+      await ctx.db.patch(t._id, patch);
+    }
+
+    if (due.length === INSTANCE_BATCH) {
+      await ctx.scheduler.runAfter(0, internal.recurring.createDueInstances, {});
+    }
+    return { templates: due.length, created };
+  },
+});
+
+// ─── Queries ────────────────────────────────────────────────────────────────────────
+
+/**
+ * listRecurringTemplates
+ * A user's templates, oldest first, with the rule as RRULE text and in
+ * plain English.
+ */
+export const listRecurringTemplates = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    const templates = await ctx.db
+      .query("recurringTemplates")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    return templates.map(withDescription);
+  },
+});
@@ -0,0 +1,119 @@
+/**
+ * convex/reminders.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Per-user organize reminders, run by the Convex scheduler.
+ *
+ * Each user has at most one pending sendOrganizeReminder job (see
+ * lib/reminderJobs.ts). users.markOrganizeSessionDone and
+ * users.setUserSettings replace it; each run schedules the next one.
+ * A run sends nothing when the capture inbox is empty, during quiet hours,
+ * or while the user is in the middle of a bot conversation.
+ */
+
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { scheduleOrganizeReminder } from "./lib/reminderJobs";
+import { isQuietTime, organizeReminderDue } from "./lib/reminders";
+
+// Retry delay when the user is mid-conversation with the bot
+const BUSY_RETRY_MINUTES = 15;
+
+// Users handled per backfill run
+const BACKFILL_BATCH = 200;
+
+function isMidConversation(botState: string | undefined): boolean {
+  if (!botState) return false;
+  try {
+    return !!JSON.parse(botState)?.flow;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * sendOrganizeReminder
+ * One scheduled reminder. Always leaves the next one scheduled while the
+ * user has an organize interval set.
+ */
+export const sendOrganizeReminder = internalMutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const found = await ctx.db.get(args.userId);
+    if (!found) return { sent: false };
+    // This job is the stored one; drop its id so it isn't cancelled while
+    // it runs (that would also cancel what it schedules)
+    const user = { ...found, settings: { ...found.settings, organizeReminderId: undefined } };
+    const { settings } = user;
+    const interval = settings.organizeIntervalMinutes;
+    if (!interval || interval <= 0) {
+      await scheduleOrganizeReminder(ctx, user, null);
+      return { sent: false };
+    }
+
+    const now = Date.now();
+    const next = now + interval * 60 * 1000;
+
+    if (isQuietTime(now, settings)) {
+      // Settings changed under us; try again once the quiet window ends
+      await scheduleOrganizeReminder(ctx, user, now);
+      return { sent: false };
+    }
+    if (isMidConversation(settings.botState)) {
+      await scheduleOrganizeReminder(ctx, user, now + BUSY_RETRY_MINUTES * 60 * 1000);
+      return { sent: false };
+    }
+
+    const captured = await ctx.db
+      .query("activities")
+      .withIndex("by_user_status", (q) => q.eq("userId", user._id).eq("status", "captured"))
+      .collect();
+    if (captured.length === 0 || !settings.chatId) {
+      await scheduleOrganizeReminder(ctx, user, next);
+      return { sent: false };
+    }
+
+    await ctx.scheduler.runAfter(0, internal.notifications.sendTelegramMessage, {
+      chatId: settings.chatId,
+      text: `📬 You have <b>${captured.length}</b> captured activities to organise.\n\nWhich order?`,
+      buttons: [[
+        { text: "⏰ First → Last", callback_data: "ORG_ORDER:asc" },
+        { text: "🔄 Last → First", callback_data: "ORG_ORDER:desc" },
+      ]],
+    });
+    await scheduleOrganizeReminder(ctx, user, next);
+    return { sent: true };
+  },
+});
+
+/**
+ * scheduleAllOrganizeReminders
+ * One-off backfill for users who set an interval before reminders moved
+ * onto the scheduler. Run once from the dashboard after deploying; pages
+ * through users, each run scheduling the next page.
+ */
+export const scheduleAllOrganizeReminders = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const page = await ctx.db
+      .query("users")
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH });
+
+    let scheduled = 0;
+    for (const user of page.page) {
+      if (user.settings.organizeReminderId) continue;
+      const at = organizeReminderDue(user.settings, now);
+      if (at === null) continue;
+      await scheduleOrganizeReminder(ctx, user, at);
+      scheduled++;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.reminders.scheduleAllOrganizeReminders, {
+        cursor: page.continueCursor,
+      });
+    }
+    return { scheduled };
+  },
+});
@@ -72,6 +72,14 @@ const EMOTION = v.union(
   v.literal("defeated")
 );
 
+// Habit session difficulty (matches the easy/medium/hard/peak descriptions)
+const DIFFICULTY = v.union(
+  v.literal("easy"),
+  v.literal("medium"),
+  v.literal("hard"),
+  v.literal("peak")
+);
+
 // ─── Schema ───────────────────────────────────────────────────────────────────
 
 export default defineSchema({
@@ -94,6 +102,12 @@ export default defineSchema({
       lastOrganizedAt: v.optional(v.number()),
       // Telegram chat ID (stored so triggers know where to send messages)
       chatId: v.optional(v.string()),
+      // Local hours [start, end) with no organize reminders, e.g. 22 → 7
+      quietHours: v.optional(v.object({ start: v.number(), end: v.number() })),
+      // Pending reminders.sendOrganizeReminder job (see lib/reminderJobs.ts)
+      organizeReminderId: v.optional(v.id("_scheduled_functions")),
+      // Pending weeklyReviews.buildWeeklyReview job (see lib/reminderJobs.ts)
+      weeklyReviewId: v.optional(v.id("_scheduled_functions")),
       // JSON-stringified bot conversation state (flow, step, queue, etc.)
       botState: v.optional(v.string()),
     }),
@@ -101,8 +115,11 @@ export default defineSchema({
     totalXp: v.number(),
     // Chrysolite (premium XP / currency) balance
     chrysolite: v.number(),
-    // Current HP (health points, decremented on late/abandoned tasks)
+    // Current HP (health points, decremented on late/abandoned tasks,
+    // restored by on-time work; see lib/hp.ts)
     hp: v.number(),
+    // Set when HP hit 0 (epoch ms); cleared on revive
+    knockedOutAt: v.optional(v.number()),
     // Timestamps
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -127,6 +144,15 @@ export default defineSchema({
     category: CATEGORY,
     // Gap-analysis score that led to this goal being created (0-10)
     gapScore: v.optional(v.number()),
+    // Goal this is a milestone of (goalId string); its horizon is always
+    // shorter than the parent's (lib/goals.ts)
+    parentGoalId: v.optional(v.string()),
+    // Optional auto-completion: done once `count` linked activities (of
+    // `category`, if set) are complete; see lib/goals.ts
+    completionRule: v.optional(v.object({ count: v.number(), category: v.optional(CATEGORY) })),
+    // Set when the goal is completed by its rule, with the bonus XP it paid
+    completedAt: v.optional(v.number()),
+    completionXp: v.optional(v.number()),
     // Timestamps (epoch ms)
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -134,7 +160,8 @@ export default defineSchema({
     .index("by_user", ["userId"])
     .index("by_user_status", ["userId", "status"])
     // Unique goalId per user (enforced in mutation logic)
-    .index("by_user_goal_id", ["userId", "goalId"]),
+    .index("by_user_goal_id", ["userId", "goalId"])
+    .index("by_user_parent", ["userId", "parentGoalId"]),
 
   // ── 3. activities ─────────────────────────────────────────────────────────
   // The core TODO / task table. One record per activity regardless of stage.
@@ -158,7 +185,7 @@ export default defineSchema({
     // ── Organize fields (set during organize flow) ──
     // Linked goal (optional — task may exist without a goal)
     goalId: v.optional(v.string()),
-    // INCUP priority score string, e.g. "IIICU"
+    // INCUP case code from lib/incup.ts serializeIncup, e.g. "IncUp"
     incup: v.optional(v.string()),
     lifeArea: v.optional(LIFE_AREA),
     horizon: v.optional(HORIZON),
@@ -169,18 +196,30 @@ export default defineSchema({
     estMinutes: v.optional(v.number()),
     // Hard deadline (epoch ms)
     deadline: v.optional(v.number()),
-    // Parent activity for subtasks (activityId string)
+    // Set by the deadline sweep (deadlines.ts) when the deadline passed while
+    // the activity was still open; marks the HP penalty as applied
+    overdueAt: v.optional(v.number()),
+    // Prerequisite that must be closed before this can be focused on
+    // (activityId string; see lib/graph.ts)
     dependsOn: v.optional(v.string()),
+    // Project this is a subtask of (activityId string), set by breakdownActivity
+    parentActivityId: v.optional(v.string()),
+    // Recurring template this is an instance of (templateId string); the
+    // instance is an ordinary activity and closing it leaves the template be
+    templateId: v.optional(v.string()),
     // Whether the user reported a mental block when organising
     mentalBlock: v.optional(v.boolean()),
 
     // ── Execution fields (set during Do phase) ──
-    // Timestamp when focus session started (epoch ms)
+    // Start of the currently running focus session (epoch ms); unset while paused
     sessionStart: v.optional(v.number()),
-    // Actual time spent in minutes (computed at session end)
+    // Actual time spent in minutes (sum of this activity's sessions)
     actualMinutes: v.optional(v.number()),
     // When the task was marked done (epoch ms)
     completedAt: v.optional(v.number()),
+    // When and why the user gave up on it (status "abandoned")
+    abandonedAt: v.optional(v.number()),
+    abandonReason: v.optional(v.string()),
 
     // ── Evaluate fields (set during Evaluate phase) ──
     feelingAfter: v.optional(EMOTION),
@@ -199,23 +238,28 @@ export default defineSchema({
     totalXp: v.number(),
     // Chrysolite bonus earned on this activity
     chrysolite: v.optional(v.number()),
+    // Finishing this activity revives a knocked-out user
+    isRecoveryQuest: v.optional(v.boolean()),
   })
     .index("by_user", ["userId"])
     .index("by_user_status", ["userId", "status"])
     .index("by_user_captured_at", ["userId", "capturedAt"])
     .index("by_user_goal", ["userId", "goalId"])
-    .index("by_user_activity_id", ["userId", "activityId"]),
+    .index("by_user_activity_id", ["userId", "activityId"])
+    .index("by_user_parent", ["userId", "parentActivityId"])
+    // Deadline sweep: unflagged activities across all users, by deadline
+    .index("by_status_overdue_deadline", ["status", "overdueAt", "deadline"]),
 
   // ── 4. habits ─────────────────────────────────────────────────────────────
-  // Habit definitions. Each session log is stored as an activity row
-  // with exeType = "habit", linked here via habitId.
+  // Habit definitions. Each session log is stored as a habitLogs row;
+  // the aggregate fields below are recomputed from those logs.
   habits: defineTable({
     userId: v.id("users"),
     // Human-readable ID per user, e.g. "H-0003"
     habitId: v.string(),
     name: v.string(),
     lifeArea: LIFE_AREA,
-    // INCUP score for this habit
+    // INCUP case code for this habit (lib/incup.ts)
     incup: v.optional(v.string()),
     // Difficulty threshold descriptions
     easy: v.optional(v.string()),
@@ -225,8 +269,11 @@ export default defineSchema({
     // Habit tracking start date (epoch ms)
     startDate: v.number(),
     // Aggregated stats (updated on each log)
+    // Streaks count calendar days in the user's settings.timezone
     currentStreak: v.number(),
     maxStreak: v.number(),
+    // Local day ("YYYY-MM-DD") of the most recent log
+    lastLoggedDay: v.optional(v.string()),
     avgDifficulty: v.optional(v.number()),
     emotionBefore: v.optional(EMOTION),
     emotionAfter: v.optional(EMOTION),
@@ -238,8 +285,8 @@ export default defineSchema({
     .index("by_user", ["userId"])
     .index("by_user_habit_id", ["userId", "habitId"]),
 
-  // ── 5. sessions (optional — focus session log) ────────────────────────────
-  // Stores individual focus session records separate from the activity,
+  // ── 5. sessions (focus session log) ───────────────────────────────────────
+  // One row per focus run on an activity (start/resume → pause/stop/finish),
   // useful for analytics (time-on-task history, interruption tracking).
   sessions: defineTable({
     userId: v.id("users"),
@@ -257,4 +304,212 @@ export default defineSchema({
   })
     .index("by_user", ["userId"])
     .index("by_activity", ["activityDocId"]),
+
+  // ── 6. habitLogs ──────────────────────────────────────────────────────────
+  // One row per logged habit session. Source of truth for habit history
+  // charts and for the aggregates stored on the habit.
+  habitLogs: defineTable({
+    userId: v.id("users"),
+    // References habits._id
+    habitDocId: v.id("habits"),
+    habitId: v.string(),
+    loggedAt: v.number(),
+    // Local day ("YYYY-MM-DD") in the user's timezone at log time
+    day: v.string(),
+    difficulty: DIFFICULTY,
+    feelingBefore: v.optional(EMOTION),
+    feelingAfter: v.optional(EMOTION),
+    emotionDelta: v.number(),
+    // Free-text mental block the user noted, e.g. "all-or-nothing"
+    mentalBlock: v.optional(v.string()),
+    xpEarned: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_habit", ["habitDocId", "loggedAt"]),
+
+  // ── 7. rewards (chrysolite shop) ──────────────────────────────────────────
+  // Real-life rewards the user defines for themselves, priced in chrysolite,
+  // e.g. "An hour of gaming" for 3.
+  rewards: defineTable({
+    userId: v.id("users"),
+    // Human-readable ID per user, e.g. "R-0002"
+    rewardId: v.string(),
+    title: v.string(),
+    description: v.optional(v.string()),
+    // Price in chrysolite (whole units)
+    price: v.number(),
+    // Archived rewards stay for redemption history but leave the shop
+    active: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_reward_id", ["userId", "rewardId"]),
+
+  // ── 8. redemptions ────────────────────────────────────────────────────────
+  // One row per reward bought. Title and price are copied at purchase time
+  // so history stays accurate if the reward is later edited.
+  redemptions: defineTable({
+    userId: v.id("users"),
+    // References rewards._id
+    rewardDocId: v.id("rewards"),
+    rewardId: v.string(),
+    title: v.string(),
+    price: v.number(),
+    // users.chrysolite right after the purchase
+    balanceAfter: v.number(),
+    redeemedAt: v.number(),
+  })
+    .index("by_user", ["userId", "redeemedAt"]),
+
+  // ── 9. xpEvents (append-only ledger) ──────────────────────────────────────
+  // One row per award or penalty of XP, chrysolite or HP. The running totals
+  // on users / activities are rebuildable from these (lib/ledger.ts).
+  xpEvents: defineTable({
+    userId: v.id("users"),
+    source: v.union(
+      v.literal("capture"),
+      v.literal("organise"),
+      v.literal("done"),
+      v.literal("evaluate"),
+      v.literal("abandon"),
+      v.literal("overdue"),
+      v.literal("habit"),
+      v.literal("goal"),
+      v.literal("revive"),
+      v.literal("redeem"),
+      v.literal("opening-balance"),
+      v.literal("adjustment")
+    ),
+    // Signed amounts actually applied (after knockout scaling / HP clamping)
+    xp: v.number(),
+    chrysolite: v.number(),
+    hp: v.number(),
+    // What the event was for, when it relates to a single item
+    activityDocId: v.optional(v.id("activities")),
+    habitDocId: v.optional(v.id("habits")),
+    rewardDocId: v.optional(v.id("rewards")),
+    goalDocId: v.optional(v.id("goals")),
+    note: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId", "createdAt"])
+    .index("by_activity", ["activityDocId"]),
+
+  // ── 10. achievements ──────────────────────────────────────────────────────
+  // One row per achievement a user has unlocked. `key` refers to the
+  // catalogue in lib/achievements.ts; names and rules live there, not here.
+  achievements: defineTable({
+    userId: v.id("users"),
+    key: v.string(),
+    unlockedAt: v.number(),
+  })
+    .index("by_user", ["userId", "key"]),
+
+  // ── 11. lifeRatings ───────────────────────────────────────────────────────
+  // One row per life-wheel assessment: satisfaction with each life area,
+  // 0-10. Kept as a history so repeated gap analysis can show trends
+  // (lib/lifeWheel.ts).
+  lifeRatings: defineTable({
+    userId: v.id("users"),
+    ratings: v.object({
+      spiritual: v.number(),
+      physical: v.number(),
+      mental: v.number(),
+      financial: v.number(),
+      social: v.number(),
+      emotional: v.number(),
+    }),
+    note: v.optional(v.string()),
+    assessedAt: v.number(),
+  })
+    .index("by_user", ["userId", "assessedAt"]),
+
+  // ── 12. recurringTemplates ────────────────────────────────────────────────
+  // Activities that come back on a schedule. recurring.ts creates one
+  // activity per occurrence on the occurrence's local day; the rule format
+  // is in lib/recurrence.ts.
+  recurringTemplates: defineTable({
+    userId: v.id("users"),
+    // Human-readable auto-incremented ID per user, e.g. "T-0001"
+    templateId: v.string(),
+    // Text each instance is created with
+    activity: v.string(),
+    rule: v.object({
+      freq: v.union(v.literal("daily"), v.literal("weekly"), v.literal("monthly")),
+      interval: v.number(),
+      byDay: v.optional(v.array(v.number())),
+      byMonthDay: v.optional(v.number()),
+      dueMinute: v.optional(v.number()),
+    }),
+    // Local day key the rule counts from
+    startDay: v.string(),
+    // Organize fields copied onto each instance. With lifeArea, horizon,
+    // exeType and category all set, instances arrive organized, otherwise
+    // captured.
+    goalId: v.optional(v.string()),
+    incup: v.optional(v.string()),
+    lifeArea: v.optional(LIFE_AREA),
+    horizon: v.optional(HORIZON),
+    exeType: v.optional(EXE_TYPE),
+    category: v.optional(CATEGORY),
+    estMinutes: v.optional(v.number()),
+    // Paused templates create nothing
+    active: v.boolean(),
+    // Next occurrence still to create (local day key) and when to create it
+    // (local midnight of that day)
+    nextDay: v.string(),
+    nextRunAt: v.number(),
+    lastActivityId: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_template_id", ["userId", "templateId"])
+    .index("by_active_next_run", ["active", "nextRunAt"]),
+
+  // ── 13. weeklyReviews ─────────────────────────────────────────────────────
+  // One row per user per local Monday–Sunday week, written by
+  // weeklyReviews.ts after the week ends. A snapshot: later edits to the
+  // activities or habits it mentions don't change it (lib/weeklyReview.ts).
+  weeklyReviews: defineTable({
+    userId: v.id("users"),
+    // Local day keys of the week's Monday and Sunday
+    weekStart: v.string(),
+    weekEnd: v.string(),
+    xp: v.object({
+      total: v.number(),
+      byArea: v.array(v.object({ lifeArea: v.string(), xp: v.number() })),
+    }),
+    quests: v.object({
+      captured: v.number(),
+      completed: v.number(),
+      completedLate: v.number(),
+      abandoned: v.number(),
+      overdue: v.number(),
+    }),
+    lateItems: v.array(v.object({ activityId: v.string(), activity: v.string() })),
+    abandonedItems: v.array(v.object({ activityId: v.string(), activity: v.string() })),
+    habits: v.array(v.object({
+      habitId: v.string(),
+      name: v.string(),
+      sessions: v.number(),
+      streakBefore: v.number(),
+      streakAfter: v.number(),
+    })),
+    estimation: v.object({
+      count: v.number(),
+      ratio: v.number(),
+      biasMinutes: v.number(),
+      onTarget: v.number(),
+    }),
+    mood: v.object({
+      count: v.number(),
+      avgAfter: v.union(v.number(), v.null()),
+      previousAvgAfter: v.union(v.number(), v.null()),
+      avgDelta: v.union(v.number(), v.null()),
+    }),
+    createdAt: v.number(),
+  })
+    .index("by_user_week", ["userId", "weekStart"]),
 });
@@ -0,0 +1,171 @@
+/**
+ * convex/shop.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Chrysolite shop: users price their own real-life rewards in chrysolite and
+ * spend the balance earned from exceptional completions (lib/xp.ts).
+ *
+ * A purchase is a single mutation, so the balance check, the debit and the
+ * redemption log either all happen or none do.
+ */
+
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { nextRewardId } from "./lib/ids";
+import { authError, callerArgs, requireOwned, requireUser } from "./lib/auth";
+import { appendXpEvent } from "./lib/ledger";
+
+/** Prices are whole chrysolite, at least 1. */
+function checkPrice(price: number): void {
+  if (!Number.isInteger(price) || price < 1) {
+    throw authError("INVALID_INPUT", `Price must be a whole number of chrysolite (got ${price})`);
+  }
+}
+
+// ─── Mutations ──────────────────────────────────────────────────────────────────────
+
+/**
+ * createReward
+ * Add a reward to the user's shop.
+ */
+export const createReward = mutation({
+  args: {
+    ...callerArgs,
+    title: v.string(),
+    description: v.optional(v.string()),
+    price: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args);
+    const title = args.title.trim();
+    if (!title) throw authError("INVALID_INPUT", "Reward title is required");
+    checkPrice(args.price);
+
+    const now = Date.now();
+    const rewardId = await nextRewardId(ctx, user._id);
+    const docId = await ctx.db.insert("rewards", {
+      userId: user._id,
+      rewardId,
+      title,
+      description: args.description,
+      price: args.price,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { rewardId, _id: docId };
+  },
+});
+
+/**
+ * updateReward
+ * Rename, reprice or archive a reward. Archiving (active: false) removes it
+ * from the shop but keeps past redemptions intact.
+ */
+export const updateReward = mutation({
+  args: {
+    ...callerArgs,
+    rewardDocId: v.id("rewards"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    price: v.optional(v.number()),
+    active: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { telegramId, botSecret, rewardDocId, ...fields } = args;
+    await requireOwned(ctx, { telegramId, botSecret }, rewardDocId);
+    if (fields.price !== undefined) checkPrice(fields.price);
+    const patch: Record<string, unknown> = { updatedAt: Date.now() };
+    if (fields.title !== undefined) patch.title = fields.title;
+    if (fields.description !== undefined) patch.description = fields.description;
+    if (fields.price !== undefined) patch.price = fields.price;
+    if (fields.active !== undefined) patch.active = fields.active;
+    await ctx.db.patch(rewardDocId, patch);
+  },
+});
+
+/**
+ * redeemReward
+ * Buy a reward: debit its price from users.chrysolite and log the redemption.
+ * Fails without changing anything if the balance is too low.
+ */
+export const redeemReward = mutation({
+  args: { ...callerArgs, rewardDocId: v.id("rewards") },
+  handler: async (ctx, args) => {
+    const { user, doc: reward } = await requireOwned(ctx, args, args.rewardDocId);
+    if (!reward.active) throw authError("CONFLICT", "This reward is no longer in the shop");
+    if (user.chrysolite < reward.price) {
+      throw authError(
+        "CONFLICT",
+        `Not enough chrysolite: ${reward.title} costs ${reward.price}, you have ${user.chrysolite}`,
+      );
+    }
+
+    const now = Date.now();
+    const balanceAfter = user.chrysolite - reward.price;
+    await ctx.db.patch(user._id, { chrysolite: balanceAfter, updatedAt: now });
+    await appendXpEvent(ctx, user._id, {
+      source: "redeem", xp: 0, chrysolite: -reward.price, hp: 0, rewardDocId: reward._id,
+    }, now);
+    const redemptionId = await ctx.db.insert("redemptions", {
+      userId: user._id,
+      rewardDocId: reward._id,
+      rewardId: reward.rewardId,
+      title: reward.title,
+      price: reward.price,
+      balanceAfter,
+      redeemedAt: now,
+    });
+    return { redemptionId, chrysolite: balanceAfter };
+  },
+});
+
+// ─── Queries ──────────────────────────────────────────────────────────────────────
+
+/**
+ * listRewards
+ * Rewards in the user's shop, cheapest first. Archived ones are left out
+ * unless includeArchived is set.
+ */
+export const listRewards = query({
+  args: { userId: v.id("users"), includeArchived: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const rewards = await ctx.db
+      .query("rewards")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    return rewards
+      .filter((r) => args.includeArchived || r.active)
+      .sort((a, b) => a.price - b.price);
+  },
+});
+
+/**
+ * listRedemptions
+ * Purchase history, newest first.
+ */
+export const listRedemptions = query({
+  args: { userId: v.id("users"), limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    return ctx.db
+      .query("redemptions")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .take(args.limit ?? 50);
+  },
+});
+
+/**
+ * getRewardByRewardId
+ * Look up a reward by its human-readable ID ("R-0002").
+ */
+export const getRewardByRewardId = query({
+  args: { userId: v.id("users"), rewardId: v.string() },
+  handler: async (ctx, args) => {
+    return ctx.db
+      .query("rewards")
+      .withIndex("by_user_reward_id", (q) =>
+        q.eq("userId", args.userId).eq("rewardId", args.rewardId),
+      )
+      .unique();
+  },
+});
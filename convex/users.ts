@@ -6,23 +6,31 @@
 
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { assertBotSecret, authError, callerArgs, requireUser } from "./lib/auth";
+import { reviveUser } from "./lib/award";
+import { canReviveWithChrysolite, isKnockedOut, REVIVE_CHRYSOLITE_COST } from "./lib/hp";
+import { levelProgress } from "./lib/levels";
+import { scheduleOrganizeReminder, scheduleWeeklyReview } from "./lib/reminderJobs";
+import { isValidQuietHours, organizeReminderDue } from "./lib/reminders";
 
 // ─── Mutations ──────────────────────────────────────────────────────────────────────
 
 /**
  * ensureUser
  * Called on every /start or first incoming message from a Telegram user.
- * Creates the user document if it doesn't exist yet; otherwise is a no-op.
- * Returns the Convex _id of the user.
+ * Creates the user document if it doesn't exist yet, and schedules their
+ * first weekly review; otherwise is a no-op. Returns the Convex _id of the
+ * user.
  */
 export const ensureUser = mutation({
   args: {
-    telegramId: v.string(),
+    ...callerArgs,
     firstName: v.optional(v.string()),
     lastName: v.optional(v.string()),
     username: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    assertBotSecret(args.botSecret);
     // Check if user already exists
     const existing = await ctx.db
       .query("users")
@@ -54,6 +62,7 @@ export const ensureUser = mutation({
       createdAt: now,
       updatedAt: now,
     });
+    await scheduleWeeklyReview(ctx, (await ctx.db.get(userId))!, now);
 
     return userId;
   },
@@ -61,18 +70,26 @@ export const ensureUser = mutation({
 
 /**
  * setUserSettings
- * Saves organize interval, timezone, chatId, and/or botState from the bot.
- * Partial: only updates fields that are provided.
+ * Saves organize interval, timezone, quiet hours, chatId, and/or botState
+ * from the bot. Partial: only updates fields that are provided; quietHours
+ * null turns quiet hours off. Changing the interval, timezone or quiet
+ * hours reschedules the pending organize reminder; changing the timezone
+ * also moves the weekly review to the new local week end.
  */
 export const setUserSettings = mutation({
   args: {
-    telegramId: v.string(),
+    ...callerArgs,
     organizeIntervalMinutes: v.optional(v.number()),
     timezone: v.optional(v.string()),
     chatId: v.optional(v.string()),
+    quietHours: v.optional(v.union(v.object({ start: v.number(), end: v.number() }), v.null())),
     botState: v.optional(v.string()), // JSON-stringified conversation state
   },
   handler: async (ctx, args) => {
+    assertBotSecret(args.botSecret);
+    if (args.quietHours && !isValidQuietHours(args.quietHours)) {
+      throw new Error("Quiet hours must be two different whole hours between 0 and 23");
+    }
     const user = await ctx.db
       .query("users")
       .withIndex("by_telegram_id", (q) => q.eq("telegramId", args.telegramId))
@@ -89,26 +106,42 @@ export const setUserSettings = mutation({
         : {}),
       ...(args.timezone !== undefined ? { timezone: args.timezone } : {}),
       ...(args.chatId !== undefined ? { chatId: args.chatId } : {}),
+      ...(args.quietHours ? { quietHours: args.quietHours } : {}),
       ...(args.botState !== undefined ? { botState: args.botState } : {}),
     };
+    if (args.quietHours === null) delete updatedSettings.quietHours;
 
+    const now = Date.now();
     await ctx.db.patch(user._id, {
       settings: updatedSettings,
-      updatedAt: Date.now(),
+      updatedAt: now,
     });
 
+    if (
+      args.organizeIntervalMinutes !== undefined ||
+      args.timezone !== undefined ||
+      args.quietHours !== undefined
+    ) {
+      const updated = (await ctx.db.get(user._id))!;
+      await scheduleOrganizeReminder(ctx, updated, organizeReminderDue(updated.settings, now));
+    }
+    if (args.timezone !== undefined) {
+      await scheduleWeeklyReview(ctx, (await ctx.db.get(user._id))!, now);
+    }
+
     return user._id;
   },
 });
 
 /**
  * markOrganizeSessionDone
- * Records the timestamp of the last organize session so the reminder
- * scheduler knows when to fire next.
+ * Records the timestamp of the last organize session and schedules the
+ * next reminder one interval from now.
  */
 export const markOrganizeSessionDone = mutation({
-  args: { telegramId: v.string() },
+  args: callerArgs,
   handler: async (ctx, args) => {
+    assertBotSecret(args.botSecret);
     const user = await ctx.db
       .query("users")
       .withIndex("by_telegram_id", (q) => q.eq("telegramId", args.telegramId))
@@ -116,10 +149,30 @@ export const markOrganizeSessionDone = mutation({
 
     if (!user) throw new Error(`User not found: ${args.telegramId}`);
 
+    const now = Date.now();
     await ctx.db.patch(user._id, {
-      settings: { ...user.settings, lastOrganizedAt: Date.now() },
-      updatedAt: Date.now(),
+      settings: { ...user.settings, lastOrganizedAt: now },
+      updatedAt: now,
     });
+    const updated = (await ctx.db.get(user._id))!;
+    await scheduleOrganizeReminder(ctx, updated, organizeReminderDue(updated.settings, now));
+  },
+});
+
+/**
+ * reviveWithChrysolite
+ * Spends REVIVE_CHRYSOLITE_COST chrysolite to bring a knocked-out user back.
+ * The other way back is finishing a recovery quest (activities.startRecoveryQuest).
+ */
+export const reviveWithChrysolite = mutation({
+  args: callerArgs,
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args);
+    if (!isKnockedOut(user)) throw authError("CONFLICT", "User is not knocked out");
+    if (!canReviveWithChrysolite(user.chrysolite)) {
+      throw authError("CONFLICT", `Reviving costs ${REVIVE_CHRYSOLITE_COST} chrysolite`);
+    }
+    return reviveUser(ctx, user, { chrysoliteCost: REVIVE_CHRYSOLITE_COST });
   },
 });
 
@@ -183,20 +236,19 @@ export const getUserSummary = query({
       .collect()
       .then((g) => g.length);
 
-    // Simple level/rank calculation: level = floor(totalXp / 500) + 1
-    const level = Math.floor(user.totalXp / 500) + 1;
-    const ranks = [
-      "Novice", "Apprentice", "Journeyman", "Adept",
-      "Expert", "Master", "Grandmaster", "Legend",
-    ];
-    const rank = ranks[Math.min(level - 1, ranks.length - 1)];
+    // Level curve and rank table live in lib/levels.ts
+    const { level, rank, xpIntoLevel, xpToNextLevel, progress } = levelProgress(user.totalXp);
 
     return {
       totalXp: user.totalXp,
       chrysolite: user.chrysolite,
       hp: user.hp,
+      knockedOut: isKnockedOut(user),
       level,
       rank,
+      xpIntoLevel,
+      xpToNextLevel,
+      levelProgress: progress,
       capturedCount,
       readyCount,
       doneCount,
@@ -205,24 +257,3 @@ export const getUserSummary = query({
     };
   },
 });
-
-/**
- * listUsersWithPendingOrganize
- * Used by the scheduler to find users who are due for an organize reminder.
- * Returns all users who have a configured organizeIntervalMinutes and whose
- * last organize session is older than that interval (or who have never organised).
- */
-export const listUsersWithPendingOrganize = query({
-  args: {},
-  handler: async (ctx) => {
-    const users = await ctx.db.query("users").collect();
-    const now = Date.now();
-
-    return users.filter((u) => {
-      const interval = u.settings.organizeIntervalMinutes;
-      if (!interval) return false;
-      const lastDone = u.settings.lastOrganizedAt ?? 0;
-      return now - lastDone >= interval * 60 * 1000;
-    });
-  },
-});
@@ -0,0 +1,123 @@
+/**
+ * convex/weeklyReviews.ts
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Weekly review reports, one per user per local Monday–Sunday week.
+ *
+ * Each user has one pending buildWeeklyReview job, due when their local
+ * week ends (lib/reminderJobs.ts scheduleWeeklyReview). It is scheduled
+ * when the user signs up, moved when their timezone changes, and each run
+ * schedules the next week's before it stores the report and sends it to
+ * the user's chat. A run checks for an existing review first, so retries
+ * never store or send a week twice.
+ */
+
+import { internalMutation, query, type DatabaseReader } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { type Doc } from "./_generated/dataModel";
+import { dayKeyFromNumber, dayNumber, localDayKey, localTimeToEpoch } from "./lib/dates";
+import { xpByLifeArea, xpEarned } from "./lib/ledger";
+import { moodSamples, weekStartOf } from "./lib/mood";
+import { scheduleWeeklyReview } from "./lib/reminderJobs";
+import { loadActivities } from "./lib/subtasks";
+import { buildWeeklyReport, formatWeeklyReview } from "./lib/weeklyReview";
+
+// Reviews returned by default
+const REVIEW_LIMIT = 8;
+
+async function findReview(ctx: { db: DatabaseReader }, user: Doc<"users">, weekStart: string) {
+  return ctx.db
+    .query("weeklyReviews")
+    .withIndex("by_user_week", (q) => q.eq("userId", user._id).eq("weekStart", weekStart))
+    .unique();
+}
+
+async function reportFor(ctx: { db: DatabaseReader }, user: Doc<"users">, weekStart: string) {
+  const timeZone = user.settings.timezone;
+  const start = localTimeToEpoch(weekStart, 0, timeZone);
+  const end = localTimeToEpoch(dayKeyFromNumber(dayNumber(weekStart) + 7), 0, timeZone);
+
+  const [activities, habits, logs, xpTotal, xpByArea] = await Promise.all([
+    loadActivities(ctx, user._id),
+    ctx.db.query("habits").withIndex("by_user", (q) => q.eq("userId", user._id)).collect(),
+    ctx.db.query("habitLogs").withIndex("by_user", (q) => q.eq("userId", user._id)).collect(),
+    xpEarned(ctx, user._id, start, end),
+    xpByLifeArea(ctx, user._id, start, end),
+  ]);
+  const habitById = new Map(habits.map((h) => [h._id as string, h]));
+
+  return buildWeeklyReport({
+    weekStart,
+    start,
+    end,
+    activities,
+    habits: habits.map((h) => ({
+      habitId: h.habitId,
+      name: h.name,
+      loggedDays: logs.filter((l) => l.habitDocId === h._id).map((l) => l.day),
+    })),
+    xpTotal,
+    xpByArea,
+    mood: moodSamples(activities, logs, habitById, timeZone),
+  });
+}
+
+// ─── Scheduled jobs ─────────────────────────────────────────────────────────────────
+
+/**
+ * buildWeeklyReview
+ * Store one user's review for the week starting `weekStart`, send it to
+ * their chat and schedule next week's.
+ */
+export const buildWeeklyReview = internalMutation({
+  args: { userId: v.id("users"), weekStart: v.string() },
+  handler: async (ctx, { userId, weekStart }) => {
+    const user = await ctx.db.get(userId);
+    if (!user) return null;
+    await scheduleWeeklyReview(ctx, user);
+    if (await findReview(ctx, user, weekStart)) return null;
+
+    const report = await reportFor(ctx, user, weekStart);
+    const _id = await ctx.db.insert("weeklyReviews", { userId, ...report, createdAt: Date.now() });
+    if (user.settings.chatId) {
+      await ctx.scheduler.runAfter(0, internal.notifications.sendTelegramMessage, {
+        chatId: user.settings.chatId,
+        text: formatWeeklyReview(report),
+      });
+    }
+    return _id;
+  },
+});
+
+// ─── Queries ────────────────────────────────────────────────────────────────────────
+
+/**
+ * listWeeklyReviews
+ * The user's latest `limit` reviews (default 8), newest first, each with
+ * the Telegram text the bot sends.
+ */
+export const listWeeklyReviews = query({
+  args: { userId: v.id("users"), limit: v.optional(v.number()) },
+  handler: async (ctx, { userId, limit }) => {
+    const reviews = await ctx.db
+      .query("weeklyReviews")
+      .withIndex("by_user_week", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(limit ?? REVIEW_LIMIT);
+    return reviews.map((r) => ({ ...r, text: formatWeeklyReview(r) }));
+  },
+});
+
+/**
+ * previewWeeklyReview
+ * This week so far, built the same way but not stored.
+ */
+export const previewWeeklyReview = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, { userId }) => {
+    const user = await ctx.db.get(userId);
+    if (!user) throw new Error(`User not found: ${userId}`);
+    const report = await reportFor(ctx, user, weekStartOf(localDayKey(Date.now(), user.settings.timezone)));
+    return { ...report, text: formatWeeklyReview(report) };
+  },
+});
@@ -5,15 +5,19 @@
 import {
   convexMutation,
   dbEnsureUser, dbGetUser, dbGetUserSummary,
-  dbSetOrganizeInterval, dbMarkOrganizeDone, dbListUsersWithPendingOrganize,
+  dbSetOrganizeInterval, dbMarkOrganizeDone, dbSetQuietHours,
   dbCreateGoalsFromGapAnalysis,
   dbListGoals, dbCaptureActivity, dbListCaptured,
   dbOrganizeActivity, dbCreateHabit, dbListHabits, dbLogHabit,
+  dbReviveWithChrysolite, dbStartRecoveryQuest,
+  dbRecordLifeRatings, dbGetGapSuggestions, dbPlanDay,
+  dbCreateRecurring, dbListRecurring, dbSetRecurringActive, dbDeleteRecurring,
+  dbListWeeklyReviews, dbPreviewWeeklyReview,
   dbGetState, dbSetState, dbClearState,
 } from './convex.js';
 
 import {
-  sendMessage, editMessage, sendWebAppButton, inlineButtons,
+  sendMessage, editMessage, sendWebAppButton, inlineButtons, escapeHtml,
 } from './telegram.js';
 
 const LIFE_AREAS = ['spiritual','physical','mental','financial','social','emotional'];
@@ -26,6 +30,26 @@ const INCUP_OPTIONS = ['Interesting','Novel','Challenging','Urgent','Pressure/Pa
 const CATEGORIES    = ['main-quest','side-quest','fake-boss','sleeping-dragon','void-filler'];
 const EXE_TYPES     = ['task','project','habit'];
 
+// ─── Celebrations ─────────────────────────────────────────────────────────────
+
+function levelUpNote(levelUp) {
+  if (!levelUp) return '';
+  const rank = levelUp.newRank ? `\n🏅 New rank: <b>${levelUp.rank}</b>` : '';
+  return `\n\n🎉 <b>Level up!</b> You reached level ${levelUp.to}.${rank}`;
+}
+
+function achievementsNote(achievements) {
+  if (!achievements?.length) return '';
+  return '\n\n' + achievements.map(a => `🏅 Badge unlocked: ${a.emoji} <b>${a.name}</b>`).join('\n');
+}
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+/** An error's message without convex.js's "Convex error [path]: " prefix. */
+function userMessage(e) {
+  return e.message.replace(/^Convex error \[[^\]]*\]: /, '');
+}
+
 // ─── State helpers ────────────────────────────────────────────────────────────
 
 async function getState(telegramId) {
@@ -228,15 +252,18 @@ async function deriveGoalsFromGapAnalysis(chatId, telegramId) {
   LIFE_AREAS.forEach(area => {
     const d = areaData[area];
     if (!d?.ideal) return;
-    goalsToCreate.push({ title: `Reach ideal ${area}: ${d.ideal.substring(0, 80)}`, lifeArea: area, horizon: 'annum', category: 'main-quest' });
-    if (d.obstacle?.length > 20) {
-      goalsToCreate.push({ title: `Overcome ${area} obstacle: ${d.obstacle.substring(0, 80)}`, lifeArea: area, horizon: 'quarter', category: 'sleeping-dragon' });
-    }
+    // Each area gets an annum goal; a real obstacle becomes its first quarterly milestone
+    const milestones = d.obstacle?.length > 20
+      ? [{ title: `Overcome ${area} obstacle: ${d.obstacle.substring(0, 80)}`, horizon: 'quarter', category: 'sleeping-dragon' }]
+      : [];
+    goalsToCreate.push({ title: `Reach ideal ${area}: ${d.ideal.substring(0, 80)}`, lifeArea: area, horizon: 'annum', category: 'main-quest', milestones });
   });
 
-  await dbCreateGoalsFromGapAnalysis(state.convexUserId, goalsToCreate);
+  const created = await dbCreateGoalsFromGapAnalysis(state.convexUserId, goalsToCreate);
+  const milestoneCount = (created || []).filter(g => g.parentGoalId).length;
   await sendMessage(chatId,
-    `🏆 Gap analysis complete! Created <b>${goalsToCreate.length}</b> goals.\n\nHow often should I remind you to organise?`,
+    `🏆 Gap analysis complete! Created <b>${goalsToCreate.length}</b> goals` +
+    (milestoneCount ? ` with <b>${milestoneCount}</b> quarterly milestones` : '') + `.\n\nHow often should I remind you to organise?`,
     inlineButtons([[
       { text: '90 min',  callback_data: 'SETUP_GUIDE:interval:90' },
       { text: '2 hours', callback_data: 'SETUP_GUIDE:interval:120' },
@@ -282,27 +309,13 @@ export async function handleForwardedMessage(msg) {
   await sendMessage(chatId,
     `⚡ <b>Captured!</b>\n\n📋 <code>${result.activityId}</code>\n` +
     `📝 ${text.substring(0, 80)}${text.length > 80 ? '…' : ''}\n` +
-    `✨ +${result.captureXp} CaptureXP\n\nForward more or use /organise when ready!`
+    `✨ +${result.captureXp} CaptureXP\n\nForward more or use /organise when ready!` +
+    levelUpNote(result.levelUp) + achievementsNote(result.achievements)
   );
 }
 
 // ─── Organise flow ────────────────────────────────────────────────────────────
 
-export async function triggerOrganiseReminder(telegramId, chatId) {
-  const state = await getState(telegramId);
-  if (state?.flow) return;
-  const convexUserId = await dbEnsureUser(telegramId);
-  const captured = await dbListCaptured(convexUserId);
-  if (!captured?.length) return;
-  await sendMessage(chatId,
-    `📬 You have <b>${captured.length}</b> captured activities to organise.\n\nWhich order?`,
-    inlineButtons([[
-      { text: '⏰ First → Last', callback_data: 'ORG_ORDER:asc' },
-      { text: '🔄 Last → First', callback_data: 'ORG_ORDER:desc' },
-    ]])
-  );
-}
-
 export async function handleOrganizeOrder(cq) {
   const chatId     = cq.message.chat.id;
   const telegramId = String(cq.from.id);
@@ -365,7 +378,7 @@ export async function handleOrganizeIncup(cq) {
   if (!state.incupSelected) state.incupSelected = [];
 
   if (tag === 'DONE') {
-    state.pendingIncup = state.incupSelected.join('');
+    state.pendingIncup = state.incupSelected.join(',');
     delete state.incupSelected;
     await setState(telegramId, state);
     await askOrganiseStep(chatId, telegramId, 'area');
@@ -440,7 +453,7 @@ export async function handleOrganizeCategory(cq) {
   await setWaiting(telegramId, false);
 
   const item   = state.queue[state.qIndex];
-  const result = await dbOrganizeActivity(item.id, {
+  const result = await dbOrganizeActivity(telegramId, item.id, {
     goalId:      state.pendingGoalId,
     incup:       state.pendingIncup || '',
     lifeArea:    state.pendingArea,
@@ -450,7 +463,8 @@ export async function handleOrganizeCategory(cq) {
     mentalBlock: false,
   });
 
-  await sendMessage(chatId, `✅ Organised! <b>+${result.organiseXp} OrganiseXP</b>`);
+  await sendMessage(chatId, `✅ Organised! <b>+${result.organiseXp} OrganiseXP</b>` +
+    levelUpNote(result.levelUp) + achievementsNote(result.achievements));
 
   state.qIndex++;
   delete state.pendingGoalId; delete state.pendingIncup;
@@ -522,16 +536,15 @@ async function finishOrganise(chatId, telegramId) {
 // ─── Do / Evaluate ───────────────────────────────────────────────────────────
 
 export async function handleDoFlow(msg) {
-  const chatId     = msg.chat.id;
-  const telegramId = msg.from ? String(msg.from.id) : '';
-  const url = (process.env.MINI_APP_URL || 'https://your-mini-app.example.com') + `?tab=do&userId=${telegramId}`;
+  const chatId = msg.chat.id;
+  // The Mini App identifies the user from Telegram's signed initData, not the URL
+  const url = (process.env.MINI_APP_URL || 'https://your-mini-app.example.com') + '?tab=do';
   await sendWebAppButton(chatId, '⚔️ Open your quest list to execute tasks:', '🗡️ Execute Quests', url);
 }
 
 export async function handleEvaluateFlow(msg) {
-  const chatId     = msg.chat.id;
-  const telegramId = msg.from ? String(msg.from.id) : '';
-  const url = (process.env.MINI_APP_URL || 'https://your-mini-app.example.com') + `?tab=evaluate&userId=${telegramId}`;
+  const chatId = msg.chat.id;
+  const url = (process.env.MINI_APP_URL || 'https://your-mini-app.example.com') + '?tab=evaluate';
   await sendWebAppButton(chatId, '📊 Open completed quests to evaluate:', '🔍 Evaluate Quests', url);
 }
 
@@ -605,13 +618,16 @@ export async function handleHabitLog(cq) {
 }
 
 export async function handleHabitDiff(cq) {
-  const chatId   = cq.message.chat.id;
+  const chatId     = cq.message.chat.id;
+  const telegramId = String(cq.from.id);
   const parts    = cq.data.split(':');
   const habitDocId   = parts[1];
   const difficulty   = parts[2];
-  const result = await dbLogHabit(habitDocId, difficulty);
+  const result = await dbLogHabit(telegramId, habitDocId, difficulty);
+  const streakNote = result.streakCounted ? '' : ' (already counted today)';
   await editMessage(chatId, cq.message.message_id,
-    `✅ Logged! <b>+${result.habitXp} XP</b>  🔥 Streak: ${result.currentStreak}`
+    `✅ Logged! <b>+${result.habitXp} XP</b>  🔥 Streak: ${result.currentStreak}${streakNote}` +
+    levelUpNote(result.levelUp) + achievementsNote(result.achievements)
   );
 }
 
@@ -623,34 +639,314 @@ export async function sendDailySummary(chatId, telegramId) {
   await sendMessage(chatId,
     `📊 <b>Daily Summary</b>\n\n` +
     `⚔️ Rank: <b>${summary.rank}</b> (Level ${summary.level})\n` +
+    `⭐ ${summary.xpToNextLevel} XP to level ${summary.level + 1}\n` +
     `✨ Total XP: <b>${summary.totalXp}</b>\n` +
     `💎 Chrysolite: <b>${summary.chrysolite}</b>\n` +
     `❤️ HP: <b>${summary.hp}/100</b>\n\n` +
     `📋 Captured: ${summary.capturedCount}  |  Ready: ${summary.readyCount}  |  Done: ${summary.doneCount}\n` +
-    `🎯 Active goals: ${summary.goalCount}  |  Habits: ${summary.habitCount}\n\nKeep going! 🏆`
+    `🎯 Active goals: ${summary.goalCount}  |  Habits: ${summary.habitCount}\n\nKeep going! 🏆`,
+    inlineButtons([[{ text: '📅 This week so far', callback_data: 'REVIEW_NOW' }]])
   );
+  if (summary.knockedOut) {
+    await sendMessage(chatId,
+      `💀 <b>You're knocked out.</b> XP gains are halved until you revive.`,
+      inlineButtons([
+        [{ text: '💎 Revive (3 chrysolite)', callback_data: 'REVIVE:chrysolite' }],
+        [{ text: '🩹 Recovery quest',        callback_data: 'REVIVE:recovery-quest' }],
+      ])
+    );
+  }
 }
 
-// ─── Organise reminder trigger ────────────────────────────────────────────────
+// ─── Weekly review ────────────────────────────────────────────────────────────
+// Convex stores a review of each finished week and sends it on Monday
+// (convex/weeklyReviews.ts). "/review" shows the latest one again;
+// "/review now" shows the current week so far.
 
-export async function organiseReminderTrigger() {
+export async function sendWeeklyReview(chatId, telegramId, currentWeek) {
   try {
-    const users = await dbListUsersWithPendingOrganize();
-    if (!users?.length) return;
-    await Promise.all(users.map(async user => {
-      try {
-        const { telegramId } = user;
-        const chatId = user.settings?.chatId;
-        if (!chatId) return;
-        if (!user.settings?.lastOrganizedAt) return;
-        const state = await dbGetState(telegramId);
-        if (state?.flow) { console.log(`Skipping reminder for ${telegramId} – mid-conversation`); return; }
-        await triggerOrganiseReminder(telegramId, chatId);
-      } catch (e) {
-        console.error('Reminder error for user', user.telegramId, e);
+    const convexUserId = await dbEnsureUser(String(telegramId));
+    if (!currentWeek) {
+      const [latest] = await dbListWeeklyReviews(convexUserId, 1);
+      if (latest) {
+        await sendMessage(chatId, latest.text,
+          inlineButtons([[{ text: '📅 This week so far', callback_data: 'REVIEW_NOW' }]]));
+        return;
       }
-    }));
+    }
+    const preview = await dbPreviewWeeklyReview(convexUserId);
+    const note = currentWeek ? '' : '\n\n<i>No finished week reviewed yet, so this is the current week so far.</i>';
+    await sendMessage(chatId, preview.text + note);
+  } catch (e) {
+    console.error('sendWeeklyReview error:', e);
+    await sendMessage(chatId, `⚠️ ${userMessage(e)}`);
+  }
+}
+
+export async function handleWeeklyReview(msg) {
+  const [, arg] = (msg.text || '').trim().split(/\s+/);
+  await sendWeeklyReview(msg.chat.id, msg.from.id, arg?.toLowerCase() === 'now');
+}
+
+// ─── Revive ───────────────────────────────────────────────────────────────────
+
+export async function handleRevive(cq) {
+  const chatId     = cq.message.chat.id;
+  const telegramId = String(cq.from.id);
+  const method     = cq.data.split(':')[1];
+  try {
+    if (method === 'chrysolite') {
+      const result = await dbReviveWithChrysolite(telegramId);
+      await editMessage(chatId, cq.message.message_id,
+        `🩹 Revived! ❤️ HP: <b>${result.hp}/100</b>  💎 Chrysolite left: ${result.chrysolite}`);
+    } else {
+      const quest = await dbStartRecoveryQuest(telegramId);
+      await editMessage(chatId, cq.message.message_id,
+        `🩹 Recovery quest <b>${quest.activityId}</b> is on your list. Finish it with /do to revive.`);
+    }
+  } catch (e) {
+    console.error('handleRevive error:', e);
+    await sendMessage(chatId, `⚠️ Couldn't revive: ${userMessage(e)}`);
+  }
+}
+
+// ─── Quiet hours ──────────────────────────────────────────────────────────────
+// Organize reminders are scheduled in Convex (convex/reminders.ts); this only
+// edits the window they stay out of. "/quiet 22-7" sets it, "/quiet off" clears.
+
+export async function handleQuietHours(msg) {
+  const chatId     = msg.chat.id;
+  const telegramId = String(msg.from.id);
+  const arg        = (msg.text || '').split(/\s+/)[1] || '';
+
+  if (arg === 'off') {
+    await dbSetQuietHours(telegramId, null);
+    await sendMessage(chatId, '🔔 Quiet hours off. Organise reminders can arrive any time.');
+    return;
+  }
+
+  const m = arg.match(/^(\d{1,2})-(\d{1,2})$/);
+  if (!m) {
+    const user  = await dbGetUser(telegramId);
+    const quiet = user?.settings?.quietHours;
+    await sendMessage(chatId,
+      (quiet ? `🌙 Quiet hours: <b>${quiet.start}:00–${quiet.end}:00</b>\n\n` : '🔔 No quiet hours set.\n\n') +
+      'Use <code>/quiet 22-7</code> to set them or <code>/quiet off</code> to clear them.');
+    return;
+  }
+
+  try {
+    await dbSetQuietHours(telegramId, { start: Number(m[1]), end: Number(m[2]) });
+    await sendMessage(chatId, `🌙 No organise reminders between <b>${m[1]}:00</b> and <b>${m[2]}:00</b>.`);
+  } catch (e) {
+    console.error('handleQuietHours error:', e);
+    await sendMessage(chatId, `⚠️ ${userMessage(e)}`);
+  }
+}
+
+// ─── Day plan ─────────────────────────────────────────────────────────────────
+// "/plan 120" fits ready activities into 120 minutes; extra words name life
+// areas to favour, e.g. "/plan 90 physical mental". See convex/planner.ts.
+
+export async function handlePlanDay(msg) {
+  const chatId       = msg.chat.id;
+  const telegramId   = String(msg.from.id);
+  const [, arg, ...areas] = (msg.text || '').trim().split(/\s+/);
+  const minutes      = Number(arg);
+  if (!(minutes > 0)) {
+    await sendMessage(chatId,
+      'How much time do you have? Use <code>/plan 120</code>, optionally with life areas to favour: ' +
+      `<code>/plan 90 physical mental</code>\n\nAreas: ${LIFE_AREAS.join(', ')}`);
+    return;
+  }
+  const unknown = areas.filter(a => !LIFE_AREAS.includes(a.toLowerCase()));
+  if (unknown.length) {
+    await sendMessage(chatId, `⚠️ Unknown life area: ${unknown.join(', ')}\n\nAreas: ${LIFE_AREAS.join(', ')}`);
+    return;
+  }
+
+  try {
+    const convexUserId = await dbEnsureUser(telegramId);
+    const plan = await dbPlanDay(convexUserId, minutes, areas.map(a => a.toLowerCase()));
+    if (!plan.items.length) {
+      await sendMessage(chatId, '🗓 Nothing ready fits in that time. Organise a few captured items first.');
+      return;
+    }
+    const lines = plan.items.map((item, i) =>
+      `${i + 1}. <code>${item.activityId}</code> ${escapeHtml(item.activity.substring(0, 50))}\n` +
+      `    ⏱ ${item.minutes} min${item.reasons.length ? ' · ' + item.reasons.join(' · ') : ''}`);
+    const leftOut = plan.dueTodayLeftOut.length
+      ? `\n\n⚠️ Due today but not in the plan:\n` + plan.dueTodayLeftOut.map(a => `• <code>${a.activityId}</code> ${escapeHtml(a.activity.substring(0, 50))}`).join('\n')
+      : '';
+    const scaleNote = plan.scale !== 1 ? `\n\n📏 Estimates ×${plan.scale.toFixed(2)}, from how long your finished items really took.` : '';
+    await sendMessage(chatId,
+      `🗓 <b>Your plan</b> (${plan.plannedMinutes}/${plan.budgetMinutes} min)\n\n${lines.join('\n')}${leftOut}${scaleNote}`,
+      inlineButtons([[{ text: '⚔️ Start with /do', callback_data: 'DO_FLOW' }]])
+    );
+  } catch (e) {
+    console.error('handlePlanDay error:', e);
+    await sendMessage(chatId, `⚠️ ${userMessage(e)}`);
+  }
+}
+
+// ─── Life wheel ───────────────────────────────────────────────────────────────
+// "/wheel" rates every life area 0-10. Convex keeps the history
+// (convex/lifeWheel.ts), so each run shows what moved since the last one and
+// offers a goal for areas rated low that got little of the user's XP.
+
+function ratingChange(change) {
+  if (!change) return '';
+  return change > 0 ? `  ▲${change}` : `  ▼${-change}`;
+}
+
+async function askLifeWheelRating(chatId, areaIndex) {
+  const area = LIFE_AREAS[areaIndex];
+  const row  = (from, to) => Array.from({ length: to - from + 1 }, (_, i) => from + i)
+    .map(n => ({ text: String(n), callback_data: `WHEEL:${area}:${n}` }));
+  await sendMessage(chatId,
+    `🎡 <b>Life wheel ${areaIndex + 1}/${LIFE_AREAS.length}</b>\n\n` +
+    `How satisfied are you with your <b>${LIFE_AREA_LABELS[area] || area}</b> life right now?\n` +
+    `(0 = not at all, 10 = fully)`,
+    inlineButtons([row(0, 5), row(6, 10)])
+  );
+}
+
+export async function handleLifeWheel(msg) {
+  const chatId       = msg.chat.id;
+  const telegramId   = String(msg.from.id);
+  const convexUserId = await dbEnsureUser(telegramId);
+  await setState(telegramId, { flow: 'life_wheel', areaIndex: 0, ratings: {}, convexUserId });
+  await askLifeWheelRating(chatId, 0);
+}
+
+export async function handleLifeWheelRating(cq) {
+  const chatId     = cq.message.chat.id;
+  const telegramId = String(cq.from.id);
+  const [, area, n] = cq.data.split(':');
+  const state = await getState(telegramId);
+  // Ignore taps on an earlier question or a finished wheel
+  if (state?.flow !== 'life_wheel' || LIFE_AREAS[state.areaIndex] !== area) return;
+
+  await editMessage(chatId, cq.message.message_id, `🎡 ${LIFE_AREA_LABELS[area] || area}: <b>${n}</b>/10`);
+  state.ratings[area] = Number(n);
+  state.areaIndex++;
+  if (state.areaIndex < LIFE_AREAS.length) {
+    await setState(telegramId, state);
+    await askLifeWheelRating(chatId, state.areaIndex);
+    return;
+  }
+
+  await clearState(telegramId);
+  const result = await dbRecordLifeRatings(telegramId, state.ratings);
+  const lines  = result.trends.map(t =>
+    `${LIFE_AREA_LABELS[t.lifeArea] || t.lifeArea}: <b>${t.latest}</b>/10${ratingChange(t.change)}`);
+  await sendMessage(chatId, `🎡 <b>Life wheel saved</b>\n\n${lines.join('\n')}`);
+  await sendGapSuggestions(chatId, state.convexUserId);
+}
+
+async function sendGapSuggestions(chatId, convexUserId) {
+  const gaps = await dbGetGapSuggestions(convexUserId);
+  const suggestions = gaps?.suggestions || [];
+  if (!suggestions.length) {
+    await sendMessage(chatId, '⚖️ Your effort goes where your life needs it. No new goals to suggest.');
+    return;
+  }
+  const lines = suggestions.map(s =>
+    `• ${LIFE_AREA_LABELS[s.lifeArea] || s.lifeArea}: ${s.rating}/10, ` +
+    `${Math.round(s.xpShare * 100)}% of your XP` +
+    (s.activeGoals ? ` (${s.activeGoals} active goal${s.activeGoals > 1 ? 's' : ''})` : ''));
+  const withoutGoal = suggestions.filter(s => !s.activeGoals).length;
+  await sendMessage(chatId,
+    `🔍 <b>Neglected areas</b> (last ${gaps.days} days)\n\n${lines.join('\n')}` +
+    (withoutGoal ? `\n\nCreate a quarterly goal for the ${withoutGoal} without one?` : ''),
+    withoutGoal ? inlineButtons([[{ text: '🎯 Create goals', callback_data: 'WHEEL_GOALS' }]]) : undefined
+  );
+}
+
+export async function handleLifeWheelGoals(cq) {
+  const chatId       = cq.message.chat.id;
+  const telegramId   = String(cq.from.id);
+  const convexUserId = await dbEnsureUser(telegramId);
+  const gaps = await dbGetGapSuggestions(convexUserId);
+  // Areas that already have an active goal are left alone, so tapping twice is harmless
+  const goalsToCreate = (gaps?.suggestions || []).filter(s => !s.activeGoals).map(s => ({
+    title: `Invest in ${s.lifeArea}: raise it from ${s.rating}/10`,
+    lifeArea: s.lifeArea, horizon: 'quarter', category: 'sleeping-dragon', gapScore: s.gap,
+  }));
+  if (!goalsToCreate.length) {
+    await editMessage(chatId, cq.message.message_id, '🎯 Every neglected area already has a goal.');
+    return;
+  }
+  const created = await dbCreateGoalsFromGapAnalysis(convexUserId, goalsToCreate);
+  await editMessage(chatId, cq.message.message_id,
+    `🎯 Created <b>${created.length}</b> goals:\n\n` +
+    created.map((g, i) => `• <code>${g.goalId}</code> ${goalsToCreate[i].title}`).join('\n'));
+}
+
+// ─── Recurring activities ─────────────────────────────────────────────────────
+// "/recur weekdays Check inbox" or "/recur FREQ=WEEKLY;INTERVAL=2;BYDAY=FR Pay bills"
+// creates a template; Convex adds an activity on each occurrence
+// (convex/recurring.ts). Plain "/recur" lists templates to pause or delete.
+
+const RECUR_USAGE =
+  'Use <code>/recur &lt;rule&gt; &lt;activity&gt;</code>, e.g.\n' +
+  '<code>/recur weekdays Check inbox</code>\n' +
+  '<code>/recur FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;BYHOUR=18 Pay bills</code>\n\n' +
+  'Rules: daily, weekdays, weekly, monthly, or an RRULE with FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYHOUR, BYMINUTE.';
+
+async function recurringList(telegramId) {
+  const convexUserId = await dbEnsureUser(telegramId);
+  const templates = await dbListRecurring(convexUserId);
+  if (!templates.length) return { text: `🔁 No recurring activities yet.\n\n${RECUR_USAGE}`, extra: {} };
+  const lines = templates.map(t =>
+    `${t.active ? '🔁' : '⏸'} <code>${t.templateId}</code> ${escapeHtml(t.activity.substring(0, 50))}\n` +
+    `    ${t.description}${t.active ? ` · next ${t.nextDay}` : ' · paused'}`);
+  const rows = templates.map(t => [
+    { text: `${t.active ? '⏸ Pause' : '▶️ Resume'} ${t.templateId}`, callback_data: `RECUR:${t.active ? 'pause' : 'resume'}:${t._id}` },
+    { text: `🗑 Delete ${t.templateId}`, callback_data: `RECUR:delete:${t._id}` },
+  ]);
+  return { text: `🔁 <b>Recurring activities</b>\n\n${lines.join('\n')}`, extra: inlineButtons(rows) };
+}
+
+export async function handleRecurring(msg) {
+  const chatId     = msg.chat.id;
+  const telegramId = String(msg.from.id);
+  const [, rule, ...words] = (msg.text || '').trim().split(/\s+/);
+  const activity   = words.join(' ');
+
+  try {
+    if (!rule) {
+      const { text, extra } = await recurringList(telegramId);
+      await sendMessage(chatId, text, extra);
+      return;
+    }
+    if (!activity) {
+      await sendMessage(chatId, `🔁 What should recur? ${RECUR_USAGE}`);
+      return;
+    }
+    await dbEnsureUser(telegramId);
+    const created = await dbCreateRecurring(telegramId, rule, activity);
+    await sendMessage(chatId,
+      `🔁 <code>${created.templateId}</code> ${escapeHtml(activity.substring(0, 50))}\n` +
+      `Repeats ${created.description}. First one on ${created.nextDay}.`);
+  } catch (e) {
+    console.error('handleRecurring error:', e);
+    await sendMessage(chatId, `⚠️ ${userMessage(e)}`);
+  }
+}
+
+export async function handleRecurringAction(cq) {
+  const chatId     = cq.message.chat.id;
+  const telegramId = String(cq.from.id);
+  const [, action, templateDocId] = cq.data.split(':');
+
+  try {
+    if (action === 'delete') await dbDeleteRecurring(telegramId, templateDocId);
+    else await dbSetRecurringActive(telegramId, templateDocId, action === 'resume');
+    const { text, extra } = await recurringList(telegramId);
+    await editMessage(chatId, cq.message.message_id, text, extra);
   } catch (e) {
-    console.error('organiseReminderTrigger error:', e);
+    console.error('handleRecurringAction error:', e);
+    await sendMessage(chatId, `⚠️ ${userMessage(e)}`);
   }
 }
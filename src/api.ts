@@ -1,67 +1,140 @@
-// api.ts  –  HTTP client for the Apps Script backend
+// api.ts  –  HTTP client for the Convex HTTP API (convex/http.ts)
 
-import type { TaskRow, HabitRow, GoalRow, SummaryData, FocusResult, EvaluateResult } from './types';
+import type { TaskRow, Recommendation, DayPlan, HabitRow, HabitLogRow, GoalRow, SummaryData, FocusResult, RecoveryPending, EvaluateResult, HabitLogResult, ReviveResult, ShopData, BadgeRow, LevelUp, UnlockedAchievement, RolledUpProject, GoalProgressRow, GoalTreeRow, CompletedGoal, EstimationData, MoodData, WeeklyReview } from './types';
 
-// Set this to your deployed Apps Script Web App URL
+// Convex HTTP actions domain (.convex.site, not .convex.cloud)
 const BASE_URL = (import.meta as any).env?.VITE_BACKEND_URL
-  || 'https://script.google.com/macros/s/YOUR_DEPLOYMENT_ID/exec';
+  || 'https://enduring-hummingbird-483.convex.site';
+
+// Every request carries Telegram's signed initData; the backend verifies it
+// against the bot token and derives the user from it.
+function authHeaders(): Record<string, string> {
+  return { Authorization: `tma ${window.Telegram?.WebApp?.initData || ''}` };
+}
+
+// Client errors carry the backend's reason in `error`; show that, not the status
+async function failure(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null) as { error?: unknown } | null;
+  return new Error(res.status < 500 && typeof body?.error === 'string' ? body.error : `HTTP ${res.status}`);
+}
 
 async function get<T>(path: string, params: Record<string, string> = {}): Promise<T> {
-  const url = new URL(BASE_URL);
-  url.searchParams.set('path', path);
+  const url = new URL(path, BASE_URL);
   Object.entries(params).forEach(([k, v]) => url.searchParams.set(k, v));
-  const res = await fetch(url.toString());
-  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const res = await fetch(url.toString(), { headers: authHeaders() });
+  if (!res.ok) throw await failure(res);
   return res.json();
 }
 
 async function post<T>(path: string, body: Record<string, unknown>): Promise<T> {
-  const url = new URL(BASE_URL);
-  url.searchParams.set('path', path);
+  const url = new URL(path, BASE_URL);
   const res = await fetch(url.toString(), {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify(body)
   });
-  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  if (!res.ok) throw await failure(res);
   return res.json();
 }
 
 export const api = {
   // ---- GET ----------------------------------------------------------------
-  getReadyTasks(userId: string): Promise<TaskRow[]> {
-    return get('/api/tasks/ready', { userId });
+  getReadyTasks(): Promise<TaskRow[]> {
+    return get('/api/tasks/ready');
+  },
+  getRecommendations(): Promise<Recommendation[]> {
+    return get('/api/tasks/recommended');
+  },
+  planDay(minutes: number, areas: string[]): Promise<DayPlan> {
+    return get('/api/plan', { minutes: String(minutes), areas: areas.join(',') });
+  },
+  getCompletedTasks(): Promise<TaskRow[]> {
+    return get('/api/tasks/completed');
+  },
+  getAbandonedTasks(): Promise<TaskRow[]> {
+    return get('/api/tasks/abandoned');
+  },
+  getGoals(): Promise<GoalRow[]> {
+    return get('/api/goals');
+  },
+  getGoalProgress(): Promise<GoalProgressRow[]> {
+    return get('/api/goals/progress');
+  },
+  getGoalTree(): Promise<GoalTreeRow[]> {
+    return get('/api/goals/tree');
+  },
+  getHabits(): Promise<HabitRow[]> {
+    return get('/api/habits');
+  },
+  getHabitLogs(habitRowIndex: number): Promise<HabitLogRow[]> {
+    return get('/api/habits/logs', { habitRowIndex: String(habitRowIndex) });
   },
-  getCompletedTasks(userId: string): Promise<TaskRow[]> {
-    return get('/api/tasks/completed', { userId });
+  getBadges(): Promise<BadgeRow[]> {
+    return get('/api/achievements');
   },
-  getGoals(userId: string): Promise<GoalRow[]> {
-    return get('/api/goals', { userId });
+  getShop(): Promise<ShopData> {
+    return get('/api/shop');
   },
-  getHabits(userId: string): Promise<HabitRow[]> {
-    return get('/api/habits', { userId });
+  getSummary(): Promise<SummaryData> {
+    return get('/api/summary');
   },
-  getSummary(userId: string): Promise<SummaryData> {
-    return get('/api/summary', { userId });
+  getEstimation(activityId?: string): Promise<EstimationData> {
+    return get('/api/analytics/estimation', activityId ? { activityId } : {});
+  },
+  getMood(): Promise<MoodData> {
+    return get('/api/analytics/mood');
+  },
+  getReviews(): Promise<WeeklyReview[]> {
+    return get('/api/reviews');
   },
 
   // ---- POST ---------------------------------------------------------------
-  startFocus(activityId: string, userId: string, feelingB4: string, estTime: string): Promise<{ ok: boolean; startTime: string }> {
-    return post('/api/tasks/startFocus', { activityId, userId, feelingB4, estTime });
+  startFocus(activityId: string, feelingB4: string, estTime: string): Promise<{ ok: boolean; startTime: string }> {
+    return post('/api/tasks/startFocus', { activityId, feelingB4, estTime });
+  },
+  pauseFocus(activityId: string, reason = ''): Promise<{ ok: boolean; actualTime: string }> {
+    return post('/api/tasks/pauseFocus', { activityId, reason });
+  },
+  resumeFocus(activityId: string): Promise<{ ok: boolean; startTime: string }> {
+    return post('/api/tasks/resumeFocus', { activityId });
+  },
+  stopFocus(activityId: string, reason = ''): Promise<{ ok: boolean; actualTime: string }> {
+    return post('/api/tasks/stopFocus', { activityId, reason });
+  },
+  abandonTask(activityId: string, reason = ''): Promise<{ ok: boolean; hp: number; hpLost: number; xpLost: number; knockedOut: boolean; rolledUp: RolledUpProject[]; goalsCompleted: CompletedGoal[] }> {
+    return post('/api/tasks/abandon', { activityId, reason });
+  },
+  restoreTask(activityId: string): Promise<{ ok: boolean; status: string }> {
+    return post('/api/tasks/restore', { activityId });
+  },
+  completeFocus(activityId: string): Promise<FocusResult | RecoveryPending> {
+    return post('/api/tasks/completeFocus', { activityId });
+  },
+  evaluateTask(activityId: string, feelingAfter: string): Promise<EvaluateResult> {
+    return post('/api/tasks/evaluate', { activityId, feelingAfter });
+  },
+  enrichTask(activityId: string, feelingB4: string, estTime: string, incup: string): Promise<{ ok: boolean }> {
+    return post('/api/tasks/enrich', { activityId, feelingB4, estTime, incup });
+  },
+  breakdownTask(parentId: string, subtasks: { activity: string }[]): Promise<{ ok: boolean; createdIds: string[]; levelUp: LevelUp | null; achievements: UnlockedAchievement[] }> {
+    return post('/api/tasks/breakdown', { parentId, subtasks });
+  },
+  logHabit(habitRowIndex: number, difficulty: string, emotionB4: string, emotionAfter: string, mentalBlock: string): Promise<HabitLogResult> {
+    return post('/api/habits/log', { habitRowIndex, difficulty, emotionB4, emotionAfter, mentalBlock });
   },
-  completeFocus(activityId: string, userId: string): Promise<FocusResult> {
-    return post('/api/tasks/completeFocus', { activityId, userId });
+  setGoalRule(goalId: string, count: number, category = ''): Promise<{ ok: boolean; completed: CompletedGoal | null }> {
+    return post('/api/goals/rule', { goalId, count, category });
   },
-  evaluateTask(activityId: string, userId: string, feelingAfter: string): Promise<EvaluateResult> {
-    return post('/api/tasks/evaluate', { activityId, userId, feelingAfter });
+  revive(method: 'chrysolite' | 'recovery-quest'): Promise<ReviveResult> {
+    return post('/api/revive', { method });
   },
-  enrichTask(activityId: string, userId: string, feelingB4: string, estTime: string, incup: string): Promise<{ ok: boolean }> {
-    return post('/api/tasks/enrich', { activityId, userId, feelingB4, estTime, incup });
+  createReward(title: string, price: number, description = ''): Promise<{ ok: boolean; rewardId: string }> {
+    return post('/api/shop/rewards', { title, price, description });
   },
-  breakdownTask(parentId: string, userId: string, subtasks: { activity: string }[]): Promise<{ ok: boolean; createdIds: string[] }> {
-    return post('/api/tasks/breakdown', { parentId, userId, subtasks });
+  archiveReward(rewardId: string): Promise<{ ok: boolean }> {
+    return post('/api/shop/archive', { rewardId });
   },
-  logHabit(habitRowIndex: number, userId: string, difficulty: string, emotionB4: string, emotionAfter: string, mentalBlock: string): Promise<{ ok: boolean }> {
-    return post('/api/habits/log', { habitRowIndex, userId, difficulty, emotionB4, emotionAfter, mentalBlock });
+  redeemReward(rewardId: string): Promise<{ ok: boolean; chrysolite: number }> {
+    return post('/api/shop/redeem', { rewardId });
   }
 };
@@ -2,8 +2,8 @@
 // Vanilla TS + DOM (no framework dependency)
 
 import { api } from './api';
-import type { TaskRow, HabitRow, SummaryData, Tab } from './types';
-import { EMOTION_LIST, CATEGORY_COLORS, HORIZON_ORDER } from './types';
+import type { TaskRow, Recommendation, DayPlan, HabitRow, SummaryData, ShopData, BadgeRow, GoalTreeRow, LevelUp, UnlockedAchievement, RolledUpProject, CompletedGoal, EstimationData, EstimateDimension, MoodData, MoodDimension, WeeklyReview, Tab } from './types';
+import { EMOTION_LIST, INCUP_TAGS, LIFE_AREAS, CATEGORY_COLORS, HORIZON_ORDER } from './types';
 
 // ---------------------------------------------------------------------------
 // Telegram WebApp helpers
@@ -36,7 +36,7 @@ const tg = window.Telegram?.WebApp;
 tg?.expand();
 tg?.ready();
 
-const userId = String(tg?.initDataUnsafe?.user?.id || 'preview');
+// Display only — the backend identifies the user from the signed initData
 const userName = tg?.initDataUnsafe?.user?.first_name || 'Adventurer';
 
 // ---------------------------------------------------------------------------
@@ -46,16 +46,26 @@ const userName = tg?.initDataUnsafe?.user?.first_name || 'Adventurer';
 interface AppState {
   tab:            Tab;
   readyTasks:     TaskRow[];
+  recommended:    Recommendation[];
   completedTasks: TaskRow[];
+  abandonedTasks: TaskRow[];
   habits:         HabitRow[];
   summary:        SummaryData | null;
+  shop:           ShopData | null;
+  goals:          GoalTreeRow[];
+  estimation:     EstimationData | null;
+  estimateDim:    EstimateDimension;
+  mood:           MoodData | null;
+  moodDim:        MoodDimension;
+  reviews:        WeeklyReview[];
+  reviewIndex:    number;
+  badges:         BadgeRow[];
   loading:        boolean;
-  activeFocus:    string | null;  // activityId currently in focus
   modal:          ModalState | null;
 }
 
 interface ModalState {
-  type: 'enrich' | 'breakdown' | 'focus' | 'evaluate' | 'habit-log';
+  type: 'enrich' | 'breakdown' | 'focus' | 'evaluate' | 'habit-log' | 'abandon' | 'plan';
   task?: TaskRow;
   habit?: HabitRow;
 }
@@ -63,11 +73,21 @@ interface ModalState {
 const state: AppState = {
   tab:            'do',
   readyTasks:     [],
+  recommended:    [],
   completedTasks: [],
+  abandonedTasks: [],
   habits:         [],
   summary:        null,
+  shop:           null,
+  goals:          [],
+  estimation:     null,
+  estimateDim:    'category',
+  mood:           null,
+  moodDim:        'category',
+  reviews:        [],
+  reviewIndex:    0,
+  badges:         [],
   loading:        false,
-  activeFocus:    null,
   modal:          null
 };
 
@@ -96,6 +116,7 @@ function render() {
       case 'evaluate': content.appendChild(renderEvaluateTab()); break;
       case 'habits':   content.appendChild(renderHabitsTab());   break;
       case 'summary':  content.appendChild(renderSummaryTab());  break;
+      case 'badges':   content.appendChild(renderBadgesTab());   break;
     }
   }
   app.appendChild(content);
@@ -122,7 +143,7 @@ function renderHeader(): HTMLElement {
   if (state.summary) {
     info.innerHTML = `
       <span class="badge xp">✨ ${state.summary.totalXP} XP</span>
-      <span class="badge hp">❤️ ${state.summary.hp}/100</span>
+      <span class="badge hp">${state.summary.knockedOut ? '💀 KO' : `❤️ ${state.summary.hp}/100`}</span>
       <span class="badge rank">🏅 ${state.summary.rank}</span>
     `;
   } else {
@@ -146,7 +167,8 @@ function renderTabs(): HTMLElement {
     { id: 'do',       label: '⚔️ Do' },
     { id: 'evaluate', label: '📊 Evaluate' },
     { id: 'habits',   label: '📿 Habits' },
-    { id: 'summary',  label: '🗺️ Map' }
+    { id: 'summary',  label: '🗺️ Map' },
+    { id: 'badges',   label: '🏅 Badges' }
   ];
 
   tabDefs.forEach(({ id, label }) => {
@@ -165,14 +187,30 @@ function switchTab(tab: Tab) {
   loadTabData(tab);
 }
 
+// A panel that failed to load keeps `fallback`, so the rest of its tab still renders
+function settled<T>(result: PromiseSettledResult<T>, fallback: T): T {
+  if (result.status === 'fulfilled') return result.value;
+  console.error(result.reason);
+  return fallback;
+}
+
 async function loadTabData(tab: Tab) {
   state.loading = true;
   render();
   try {
-    if (tab === 'do')       state.readyTasks     = await api.getReadyTasks(userId);
-    if (tab === 'evaluate') state.completedTasks = await api.getCompletedTasks(userId);
-    if (tab === 'habits')   state.habits         = await api.getHabits(userId);
-    if (tab === 'summary')  state.summary        = await api.getSummary(userId);
+    if (tab === 'do')       [state.readyTasks, state.recommended] = await Promise.all([api.getReadyTasks(), api.getRecommendations()]);
+    if (tab === 'evaluate') [state.completedTasks, state.abandonedTasks] = await Promise.all([api.getCompletedTasks(), api.getAbandonedTasks()]);
+    if (tab === 'habits')   state.habits         = await api.getHabits();
+    if (tab === 'summary') {
+      const [summary, shop, goals, estimation, mood, reviews] = await Promise.allSettled([api.getSummary(), api.getShop(), api.getGoalTree(), api.getEstimation(), api.getMood(), api.getReviews()]);
+      state.summary    = settled(summary, null);
+      state.shop       = settled(shop, null);
+      state.goals      = settled(goals, []);
+      state.estimation = settled(estimation, null);
+      state.mood       = settled(mood, null);
+      state.reviews    = settled(reviews, []);
+    }
+    if (tab === 'badges')   state.badges         = await api.getBadges();
   } catch (e) {
     console.error(e);
   }
@@ -197,6 +235,33 @@ function renderDoTab(): HTMLElement {
     return div;
   }
 
+  const planBtn = document.createElement('button');
+  planBtn.className = 'btn btn-secondary full-width plan-open';
+  planBtn.textContent = '🗓 Plan my day';
+  planBtn.addEventListener('click', () => openModal({ type: 'plan' }));
+  div.appendChild(planBtn);
+
+  // Best next picks first, each with why it ranked there
+  const byId = new Map(state.readyTasks.map(t => [t.activityId, t]));
+  const picks = state.recommended.filter(r => byId.has(r.activityId));
+  if (picks.length > 0) {
+    const section = document.createElement('div');
+    section.className = 'task-section';
+    const sectionHeader = document.createElement('div');
+    sectionHeader.className = 'section-header';
+    sectionHeader.innerHTML = `<span class="cat-label">⭐ Recommended</span><span class="cat-count">${picks.length}</span>`;
+    section.appendChild(sectionHeader);
+    picks.forEach(rec => {
+      const card = renderTaskCard(byId.get(rec.activityId)!, 'do');
+      const why = document.createElement('div');
+      why.className = 'task-reason';
+      why.textContent = `💡 ${rec.reasons.join(' · ') || 'next up'}`;
+      card.insertBefore(why, card.querySelector('.task-actions'));
+      section.appendChild(card);
+    });
+    div.appendChild(section);
+  }
+
   // Group by category
   const grouped = groupBy(state.readyTasks, t => t.category || 'uncategorized');
 
@@ -227,7 +292,7 @@ function renderDoTab(): HTMLElement {
 function renderEvaluateTab(): HTMLElement {
   const div = document.createElement('div');
 
-  if (state.completedTasks.length === 0) {
+  if (state.completedTasks.length === 0 && state.abandonedTasks.length === 0) {
     div.innerHTML = `
       <div class="empty-state">
         <div class="empty-icon">🏆</div>
@@ -241,6 +306,17 @@ function renderEvaluateTab(): HTMLElement {
     div.appendChild(renderTaskCard(task, 'evaluate'));
   });
 
+  // Abandoned items, for review — restoring puts them back on the Do list
+  if (state.abandonedTasks.length > 0) {
+    const header = document.createElement('div');
+    header.className = 'section-header';
+    header.innerHTML = `<span class="cat-label">🗑 Abandoned</span><span class="cat-count">${state.abandonedTasks.length}</span>`;
+    div.appendChild(header);
+    state.abandonedTasks.forEach(task => {
+      div.appendChild(renderTaskCard(task, 'abandoned'));
+    });
+  }
+
   return div;
 }
 
@@ -282,6 +358,33 @@ function renderHabitsTab(): HTMLElement {
   return div;
 }
 
+// ---------------------------------------------------------------------------
+// Badges Tab
+// ---------------------------------------------------------------------------
+
+function renderBadgesTab(): HTMLElement {
+  const div = document.createElement('div');
+  const unlocked = state.badges.filter(b => b.unlocked).length;
+
+  div.innerHTML = `
+    <div class="section-header"><span class="cat-label">Achievements</span><span class="cat-count">${unlocked}/${state.badges.length}</span></div>
+    <div class="badge-grid">
+      ${state.badges.map(b => `
+        <div class="badge-tile${b.unlocked ? ' unlocked' : ''}" title="${b.description}">
+          <div class="badge-emoji">${b.emoji}</div>
+          <div class="badge-name">${b.name}</div>
+          <div class="badge-desc muted">${b.description}</div>
+          ${b.unlocked
+            ? `<div class="badge-date muted">${new Date(b.unlockedAt).toLocaleDateString()}</div>`
+            : `<div class="progress-bar-wrap"><div class="progress-bar level-bar" style="width:${Math.round(b.progress * 100)}%"></div></div>
+               <div class="badge-date muted">${b.current}/${b.target}</div>`}
+        </div>`).join('')}
+    </div>
+  `;
+
+  return div;
+}
+
 // ---------------------------------------------------------------------------
 // Summary Tab
 // ---------------------------------------------------------------------------
@@ -307,7 +410,20 @@ function renderSummaryTab(): HTMLElement {
       <div class="progress-bar-wrap">
         <div class="progress-bar" style="width:${(s.hp)}%"></div>
       </div>
+      <p class="muted level-note">⭐ ${s.xpIntoLevel} XP into level ${s.level} · ${s.xpToNextLevel} XP to level ${s.level + 1}</p>
+      <div class="progress-bar-wrap">
+        <div class="progress-bar level-bar" style="width:${Math.round(s.levelProgress * 100)}%"></div>
+      </div>
     </div>
+    ${s.knockedOut ? `
+    <div class="summary-card knockout-card">
+      <div class="summary-title">💀 Knocked Out</div>
+      <p>XP gains are halved until you revive. 💎 Chrysolite: <strong>${s.chrysolite}</strong></p>
+      <div class="difficulty-btns">
+        <button class="btn btn-primary" data-revive="chrysolite">💎 Revive (3 chrysolite)</button>
+        <button class="btn" data-revive="recovery-quest">🩹 Recovery quest</button>
+      </div>
+    </div>` : ''}
     <div class="summary-card">
       <div class="summary-title">📋 Quest Stats</div>
       <div class="stat-grid">
@@ -319,14 +435,268 @@ function renderSummaryTab(): HTMLElement {
     </div>
   `;
 
+  div.querySelectorAll<HTMLButtonElement>('[data-revive]').forEach(btn => {
+    btn.addEventListener('click', () => revive(btn.dataset.revive as 'chrysolite' | 'recovery-quest'));
+  });
+
+  if (state.reviews.length) div.appendChild(renderReview(state.reviews));
+  if (state.goals.length) div.appendChild(renderGoals(state.goals));
+  if (state.estimation?.overall.count) div.appendChild(renderEstimation(state.estimation));
+  if (state.mood?.overall.count) div.appendChild(renderMood(state.mood));
+  if (state.shop) div.appendChild(renderShop(state.shop));
+
   return div;
 }
 
+// Goal tree: figures roll up from milestones; each goal can carry a
+// completion rule
+function renderGoals(goals: GoalTreeRow[]): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'summary-card';
+  card.innerHTML = `
+    <div class="summary-title">🎯 Goals</div>
+    ${goals.map(g => renderGoalItem(g, 0)).join('')}
+  `;
+
+  card.querySelectorAll<HTMLButtonElement>('[data-rule-save]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      const goalId   = btn.dataset.ruleSave!;
+      const count    = parseInt(card.querySelector<HTMLInputElement>(`[data-rule-count="${goalId}"]`)!.value, 10) || 0;
+      const category = card.querySelector<HTMLSelectElement>(`[data-rule-category="${goalId}"]`)!.value;
+      saveGoalRule(goalId, count, category);
+    });
+  });
+
+  return card;
+}
+
+function renderGoalItem(g: GoalTreeRow, depth: number): string {
+  const done   = g.status === 'completed';
+  const p      = g.rollup;
+  const target = g.ruleCount || p.totalTasks;
+  const count  = g.ruleCount ? g.ruleDone : p.completedTasks;
+  const pct    = done ? 100 : target ? Math.min(100, Math.round(count / target * 100)) : 0;
+  return `
+    <div class="goal-item" style="margin-left:${depth * 14}px">
+      <div class="goal-head">
+        <span class="goal-title">${depth ? '↳ ' : ''}${done ? '✅ ' : ''}${g.title}</span>
+        <span class="badge horizon">${g.horizon}</span>
+      </div>
+      <div class="progress-bar-wrap"><div class="progress-bar goal-bar" style="width:${pct}%;background:${CATEGORY_COLORS[g.category] || '#6b7280'}"></div></div>
+      <div class="muted goal-meta">
+        ${p.completedTasks}/${p.totalTasks} done · ✨ ${p.xpEarned} XP · ⏱ ${p.timeSpent} min${p.lastActivity ? ` · last ${new Date(p.lastActivity).toLocaleDateString()}` : ''}
+        ${done && g.completionXP ? ` · 🏆 +${g.completionXP} bonus` : ''}
+      </div>
+      ${done ? '' : `
+      <div class="goal-rule">
+        <span class="muted">Complete after</span>
+        <input type="number" min="0" step="1" value="${g.ruleCount}" data-rule-count="${g.goalId}" />
+        <select data-rule-category="${g.goalId}">
+          <option value="">any</option>
+          ${Object.keys(CATEGORY_COLORS).map(c => `<option value="${c}" ${c === g.ruleCategory ? 'selected' : ''}>${c}</option>`).join('')}
+        </select>
+        <button class="btn" data-rule-save="${g.goalId}">💾</button>
+      </div>`}
+    </div>
+    ${g.children.map(c => renderGoalItem(c, depth + 1)).join('')}`;
+}
+
+const signed = (n: number) => `${n > 0 ? '+' : ''}${n}`;
+
+// Weekly review: one stored report per finished week, newest first
+function renderReview(reviews: WeeklyReview[]): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'summary-card';
+  const r = reviews[Math.min(state.reviewIndex, reviews.length - 1)];
+  const moodShift = r.mood.avgAfter !== null && r.mood.previousAvgAfter !== null
+    ? Math.round((r.mood.avgAfter - r.mood.previousAvgAfter) * 10) / 10
+    : null;
+  card.innerHTML = `
+    <div class="summary-title">📅 Weekly Review</div>
+    <label class="split-dim">Week <select id="reviewWeek">
+      ${reviews.map((w, i) => `<option value="${i}" ${w === r ? 'selected' : ''}>${w.weekStart} → ${w.weekEnd}</option>`).join('')}
+    </select></label>
+    <div class="stat-grid">
+      <div class="stat"><div class="stat-val">${r.xp.total}</div><div class="stat-label">XP</div></div>
+      <div class="stat"><div class="stat-val">${r.quests.completed}</div><div class="stat-label">Completed</div></div>
+      <div class="stat"><div class="stat-val">${r.quests.captured}</div><div class="stat-label">Captured</div></div>
+      <div class="stat"><div class="stat-val">${r.quests.completedLate + r.quests.overdue + r.quests.abandoned}</div><div class="stat-label">Late / dropped</div></div>
+    </div>
+    ${r.xp.byArea.map(a => `
+      <div class="split-row">
+        <span class="split-key">${a.lifeArea}</span>
+        <div class="progress-bar-wrap review-bar"><div class="progress-bar level-bar" style="width:${Math.round(a.xp / r.xp.total * 100)}%"></div></div>
+        <span class="split-val">${a.xp}</span>
+      </div>`).join('')}
+    ${[...r.lateItems.map(a => ({ ...a, why: 'late' })), ...r.abandonedItems.map(a => ({ ...a, why: 'abandoned' }))]
+      .map(a => `<p class="review-line">⏰ <code>${a.activityId}</code> ${a.activity} <span class="muted">(${a.why})</span></p>`).join('')}
+    ${r.habits.map(h => {
+      const change = h.streakAfter - h.streakBefore;
+      return `<p class="review-line">🔥 ${h.name}: ${h.sessions}× · streak ${h.streakBefore} → ${h.streakAfter}${change ? ` (${signed(change)})` : ''}</p>`;
+    }).join('')}
+    <p class="review-line">📏 ${r.estimation.count
+      ? `Tasks took ×${r.estimation.ratio} of plan, ${Math.round(r.estimation.onTarget * 100)}% within ±20%`
+      : 'No timed tasks finished'}</p>
+    <p class="review-line">😊 ${r.mood.avgAfter !== null
+      ? `Mood after sessions ${r.mood.avgAfter}/10${moodShift ? ` (${moodShift > 0 ? '▲' : '▼'}${Math.abs(moodShift)} vs the week before)` : ''}`
+      : 'No feelings logged'}</p>
+  `;
+
+  card.querySelector<HTMLSelectElement>('#reviewWeek')!.addEventListener('change', e => {
+    state.reviewIndex = Number((e.target as HTMLSelectElement).value);
+    render();
+  });
+
+  return card;
+}
+
+const ESTIMATE_DIM_LABELS: Record<EstimateDimension, string> = {
+  category: 'Category', lifeArea: 'Life area', exeType: 'Type', mentalBlock: 'Mental block',
+};
+
+// One row of a chart whose bars grow right or left from a centre line;
+// `amount` runs from -1 (full left) to 1 (full right)
+function splitRow(key: string, amount: number, value: string, meta: string, rightClass: string, leftClass: string): string {
+  const width = Math.min(50, Math.abs(amount) * 50);
+  const bar = amount >= 0
+    ? `<div class="split-bar ${rightClass}" style="left:50%;width:${width}%"></div>`
+    : `<div class="split-bar ${leftClass}" style="left:${50 - width}%;width:${width}%"></div>`;
+  return `
+    <div class="split-row">
+      <span class="split-key">${key}</span>
+      <div class="split-track">${bar}</div>
+      <span class="split-val">${value}</span>
+    </div>
+    <div class="muted split-meta">${meta}</div>`;
+}
+
+// Estimation accuracy: one bar per group, growing right from the 1× line
+// when tasks run long and left when they finish early
+function renderEstimation(est: EstimationData): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'summary-card';
+  const o = est.overall;
+  card.innerHTML = `
+    <div class="summary-title">📏 Estimation Accuracy</div>
+    <div class="stat-grid">
+      <div class="stat"><div class="stat-val">×${o.ratio}</div><div class="stat-label">Actual ÷ est.</div></div>
+      <div class="stat"><div class="stat-val">${o.biasMinutes > 0 ? '+' : ''}${o.biasMinutes}</div><div class="stat-label">Min off / task</div></div>
+      <div class="stat"><div class="stat-val">${Math.round(o.onTarget * 100)}%</div><div class="stat-label">Within ±20%</div></div>
+      <div class="stat"><div class="stat-val">×${o.correction}</div><div class="stat-label">Correction</div></div>
+    </div>
+    <label class="split-dim">By <select id="estDim">
+      ${(Object.keys(ESTIMATE_DIM_LABELS) as EstimateDimension[]).map(d => `<option value="${d}" ${d === state.estimateDim ? 'selected' : ''}>${ESTIMATE_DIM_LABELS[d]}</option>`).join('')}
+    </select></label>
+    ${est.groups[state.estimateDim].map(g => splitRow(
+      g.key, g.ratio - 1, `×${g.ratio}`,
+      `${g.count} task${g.count === 1 ? '' : 's'} · ${g.biasMinutes > 0 ? '+' : ''}${g.biasMinutes} min each · spread ${g.spread}`,
+      'warn', 'good',
+    )).join('')}
+    <p class="muted split-note">Bars right of the line: tasks take longer than you plan.</p>
+  `;
+
+  card.querySelector<HTMLSelectElement>('#estDim')!.addEventListener('change', e => {
+    state.estimateDim = (e.target as HTMLSelectElement).value as EstimateDimension;
+    render();
+  });
+
+  return card;
+}
+
+const MOOD_DIM_LABELS: Record<MoodDimension, string> = {
+  category: 'Category', lifeArea: 'Life area', habit: 'Habit',
+};
+
+// Mood: weekly average feeling after activities and habits (0 defeated …
+// 10 joyful), then which kinds of work move it up or down
+function renderMood(mood: MoodData): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'summary-card';
+  const all    = Object.values(mood.groups).flat();
+  const lifts  = all.filter(g => g.verdict === 'lifts').map(g => g.key);
+  const drains = all.filter(g => g.verdict === 'drains').map(g => g.key);
+  card.innerHTML = `
+    <div class="summary-title">😊 Mood</div>
+    <div class="mood-chart">
+      ${mood.trend.map(w => `
+        <div class="mood-week" title="Week of ${w.weekStart}: ${w.count} logged${w.avgDelta !== null ? `, ${signed(w.avgDelta)} on average` : ''}">
+          <div class="mood-col ${w.avgDelta === null ? '' : w.avgDelta < 0 ? 'down' : 'up'}" style="height:${(w.avgAfter ?? 0) * 10}%"></div>
+          <span class="mood-label">${w.weekStart.slice(5)}</span>
+        </div>`).join('')}
+    </div>
+    <p class="muted split-note">Average feeling afterwards, per week. Overall change: ${signed(mood.overall.avgDelta ?? 0)} across ${mood.overall.count} sessions.</p>
+    ${lifts.length ? `<p class="mood-verdict">🔋 Lifts you: ${lifts.join(', ')}</p>` : ''}
+    ${drains.length ? `<p class="mood-verdict">🪫 Drains you: ${drains.join(', ')}</p>` : ''}
+    <label class="split-dim">By <select id="moodDim">
+      ${(Object.keys(MOOD_DIM_LABELS) as MoodDimension[]).map(d => `<option value="${d}" ${d === state.moodDim ? 'selected' : ''}>${MOOD_DIM_LABELS[d]}</option>`).join('')}
+    </select></label>
+    ${mood.groups[state.moodDim].map(g => splitRow(
+      g.key, g.avgDelta / 5, signed(g.avgDelta),
+      `${g.count} session${g.count === 1 ? '' : 's'} · ${g.verdict}`,
+      'good', 'bad',
+    )).join('')}
+  `;
+
+  card.querySelector<HTMLSelectElement>('#moodDim')!.addEventListener('change', e => {
+    state.moodDim = (e.target as HTMLSelectElement).value as MoodDimension;
+    render();
+  });
+
+  return card;
+}
+
+// Chrysolite shop: user-defined rewards + purchase history
+function renderShop(shop: ShopData): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'summary-card';
+  card.innerHTML = `
+    <div class="summary-title">💎 Reward Shop <span class="badge xp">${shop.chrysolite} chrysolite</span></div>
+    ${shop.rewards.length === 0 ? '<p class="muted">No rewards yet. Add something you\'d love to treat yourself to.</p>' : ''}
+    ${shop.rewards.map(r => `
+      <div class="shop-item">
+        <div class="shop-info">
+          <div class="shop-title">${r.title}</div>
+          ${r.description ? `<div class="muted">${r.description}</div>` : ''}
+        </div>
+        <button class="btn btn-primary" data-buy="${r.rewardId}" ${r.price > shop.chrysolite ? 'disabled' : ''}>💎 ${r.price}</button>
+        <button class="btn" data-archive="${r.rewardId}" title="Remove from shop">✕</button>
+      </div>`).join('')}
+    <div class="shop-add">
+      <input id="rewardTitle" type="text" placeholder="e.g. An hour of gaming" />
+      <input id="rewardPrice" type="number" min="1" step="1" value="3" />
+      <button class="btn" id="addReward">➕ Add</button>
+    </div>
+    ${shop.redemptions.length ? `
+      <div class="summary-title shop-history-title">🧾 Purchase History</div>
+      ${shop.redemptions.map(h => `
+        <div class="shop-history"><span>${h.title}</span><span class="muted">💎 ${h.price} · ${new Date(h.redeemedAt).toLocaleDateString()}</span></div>`).join('')}` : ''}
+  `;
+
+  card.querySelectorAll<HTMLButtonElement>('[data-buy]').forEach(btn => {
+    btn.addEventListener('click', () => buyReward(btn.dataset.buy!));
+  });
+  card.querySelectorAll<HTMLButtonElement>('[data-archive]').forEach(btn => {
+    btn.addEventListener('click', async () => {
+      await api.archiveReward(btn.dataset.archive!);
+      loadTabData('summary');
+    });
+  });
+  card.querySelector('#addReward')!.addEventListener('click', async () => {
+    const title = (card.querySelector('#rewardTitle') as HTMLInputElement).value.trim();
+    const price = parseInt((card.querySelector('#rewardPrice') as HTMLInputElement).value, 10);
+    if (!title || !(price >= 1)) { tg?.showAlert('Give the reward a name and a price of at least 1.'); return; }
+    await api.createReward(title, price);
+    loadTabData('summary');
+  });
+
+  return card;
+}
+
 // ---------------------------------------------------------------------------
 // Task card
 // ---------------------------------------------------------------------------
 
-function renderTaskCard(task: TaskRow, mode: 'do' | 'evaluate'): HTMLElement {
+function renderTaskCard(task: TaskRow, mode: 'do' | 'evaluate' | 'abandoned'): HTMLElement {
   const card = document.createElement('div');
   card.className = 'task-card';
 
@@ -336,26 +706,44 @@ function renderTaskCard(task: TaskRow, mode: 'do' | 'evaluate'): HTMLElement {
   const horizonBadge = task.horizon ? `<span class="badge horizon">${task.horizon}</span>` : '';
   const areaBadge = task.lifeArea  ? `<span class="badge area">${task.lifeArea}</span>` : '';
   const xpBadge   = mode === 'evaluate' ? `<span class="badge xp-earned">✨ +${task.doneXP || 0} XP</span>` : '';
+  const overdueBadge = mode === 'do' && task.overdue ? `<span class="badge overdue">⏰ overdue</span>` : '';
+  const blocked      = mode === 'do' && task.blockedBy.length > 0;
 
   card.innerHTML = `
     <div class="task-title">${task.activity || '(no title)'}</div>
     <div class="task-meta">
-      ${horizonBadge}${areaBadge}${xpBadge}
+      ${overdueBadge}${horizonBadge}${areaBadge}${xpBadge}
       ${task.goal ? `<span class="badge goal">🎯 ${task.goal.substring(0,30)}</span>` : ''}
+      ${task.parentId ? `<span class="badge subtask">↳ ${task.parentId}</span>` : ''}
     </div>
+    ${blocked ? `<div class="task-block">🔒 Waiting on ${task.blockedBy.join(', ')}</div>` : ''}
     ${task.mentalBlock ? `<div class="task-block">🧠 ${task.mentalBlock}</div>` : ''}
+    ${mode === 'abandoned' && task.abandonReason ? `<div class="task-block">🗑 ${task.abandonReason}</div>` : ''}
   `;
 
   if (mode === 'do') {
     const actions = document.createElement('div');
     actions.className = 'task-actions';
 
-    if (state.activeFocus === task.activityId) {
-      // Currently in focus
+    if (task.status === 'in-progress') {
+      // Currently in focus, or paused between sessions
+      const toggleBtn = document.createElement('button');
+      toggleBtn.className = 'btn btn-secondary';
+      toggleBtn.textContent = task.focusing ? '⏸ Pause' : '▶ Resume';
+      toggleBtn.addEventListener('click', () => task.focusing ? pauseFocus(task.activityId) : resumeFocus(task.activityId));
+
+      const stopBtn = document.createElement('button');
+      stopBtn.className = 'btn btn-secondary';
+      stopBtn.textContent = '⏹ Stop';
+      stopBtn.addEventListener('click', () => stopFocus(task.activityId));
+
       const doneBtn = document.createElement('button');
       doneBtn.className = 'btn btn-success';
       doneBtn.textContent = '✅ Done!';
       doneBtn.addEventListener('click', () => finishFocus(task.activityId));
+
+      actions.appendChild(toggleBtn);
+      actions.appendChild(stopBtn);
       actions.appendChild(doneBtn);
     } else {
       const enrichBtn = document.createElement('button');
@@ -370,11 +758,18 @@ function renderTaskCard(task: TaskRow, mode: 'do' | 'evaluate'): HTMLElement {
 
       const focusBtn = document.createElement('button');
       focusBtn.className = 'btn btn-primary';
-      focusBtn.textContent = '▶ Start';
+      focusBtn.textContent = blocked ? '🔒 Blocked' : '▶ Start';
+      focusBtn.disabled = blocked;
       focusBtn.addEventListener('click', () => openModal({ type: 'focus', task }));
 
+      const dropBtn = document.createElement('button');
+      dropBtn.className = 'btn btn-secondary';
+      dropBtn.textContent = '🗑 Drop';
+      dropBtn.addEventListener('click', () => openModal({ type: 'abandon', task }));
+
       actions.appendChild(enrichBtn);
       actions.appendChild(breakBtn);
+      actions.appendChild(dropBtn);
       actions.appendChild(focusBtn);
     }
 
@@ -389,6 +784,14 @@ function renderTaskCard(task: TaskRow, mode: 'do' | 'evaluate'): HTMLElement {
     card.appendChild(evalBtn);
   }
 
+  if (mode === 'abandoned') {
+    const restoreBtn = document.createElement('button');
+    restoreBtn.className = 'btn btn-secondary full-width';
+    restoreBtn.textContent = '↩ Restore';
+    restoreBtn.addEventListener('click', () => restoreTask(task.activityId));
+    card.appendChild(restoreBtn);
+  }
+
   return card;
 }
 
@@ -409,9 +812,11 @@ function renderModal(modal: ModalState): HTMLElement {
   switch (modal.type) {
     case 'focus':     box.appendChild(renderFocusModal(modal.task!));     break;
     case 'enrich':    box.appendChild(renderEnrichModal(modal.task!));    break;
+    case 'plan':      box.appendChild(renderPlanModal());                 break;
     case 'breakdown': box.appendChild(renderBreakdownModal(modal.task!)); break;
     case 'evaluate':  box.appendChild(renderEvaluateModal(modal.task!));  break;
     case 'habit-log': box.appendChild(renderHabitLogModal(modal.habit!)); break;
+    case 'abandon':   box.appendChild(renderAbandonModal(modal.task!));   break;
   }
 
   overlay.appendChild(box);
@@ -426,16 +831,29 @@ function renderFocusModal(task: TaskRow): HTMLElement {
     <p class="task-name">${task.activity}</p>
     <label>How are you feeling? <select id="feelingB4">${EMOTION_LIST.map(e => `<option value="${e}">${e}</option>`).join('')}</select></label>
     <label>Estimated time (min): <input id="estTime" type="number" min="5" step="5" value="${task.estTime || 25}" /></label>
+    <p class="muted est-hint" id="estHint"></p>
   `;
 
+  // Offer the estimate scaled by how long similar finished tasks really took
+  api.getEstimation(task.activityId).then(est => {
+    const s = est.suggestion;
+    const hint = div.querySelector<HTMLElement>('#estHint');
+    if (!s || s.correction === 1 || !hint) return;
+    hint.innerHTML = `📏 Calibrated: <strong>${s.minutes} min</strong> (×${s.correction}, ${s.basis}) <button class="btn">Use</button>`;
+    hint.querySelector('button')!.addEventListener('click', () => {
+      (div.querySelector('#estTime') as HTMLInputElement).value = String(s.minutes);
+    });
+  }).catch(e => console.error(e));
+
   const btn = document.createElement('button');
   btn.className = 'btn btn-primary full-width';
   btn.textContent = '🎯 Begin Focus Session';
   btn.addEventListener('click', async () => {
     const feeling = (div.querySelector('#feelingB4') as HTMLSelectElement).value;
     const estTime = (div.querySelector('#estTime') as HTMLInputElement).value;
-    await api.startFocus(task.activityId, userId, feeling, estTime + ' min');
-    state.activeFocus = task.activityId;
+    await api.startFocus(task.activityId, feeling, estTime + ' min');
+    task.status = 'in-progress';
+    task.focusing = true;
     closeModal();
     tg?.HapticFeedback?.impactOccurred('medium');
     render();
@@ -454,7 +872,8 @@ function renderEnrichModal(task: TaskRow): HTMLElement {
     <p class="task-name">${task.activity}</p>
     <label>Feeling before: <select id="feelingB4">${EMOTION_LIST.map(e => `<option value="${e}" ${task.feelingB4===e?'selected':''}>${e}</option>`).join('')}</select></label>
     <label>Est. time (min): <input id="estTime" type="number" min="5" step="5" value="${task.estTime || ''}" /></label>
-    <label>INCUP tags: <input id="incup" type="text" value="${task.incup || ''}" placeholder="e.g. Important,Uncomfortable" /></label>
+    <p class="muted">INCUP: what pulls you into it?</p>
+    <div class="incup-tags">${INCUP_TAGS.map(t => `<label><input type="checkbox" value="${t}" ${task.incupTags.includes(t)?'checked':''} /> ${t}</label>`).join('')}</div>
   `;
   const btn = document.createElement('button');
   btn.className = 'btn btn-primary full-width';
@@ -462,16 +881,71 @@ function renderEnrichModal(task: TaskRow): HTMLElement {
   btn.addEventListener('click', async () => {
     const feeling = (div.querySelector('#feelingB4') as HTMLSelectElement).value;
     const estTime = (div.querySelector('#estTime') as HTMLInputElement).value;
-    const incup   = (div.querySelector('#incup') as HTMLInputElement).value;
-    await api.enrichTask(task.activityId, userId, feeling, estTime, incup);
-    closeModal();
-    loadTabData('do');
+    const incup   = Array.from(div.querySelectorAll<HTMLInputElement>('.incup-tags input:checked')).map(i => i.value).join(',');
+    try {
+      await api.enrichTask(task.activityId, feeling, estTime, incup);
+      closeModal();
+      loadTabData('do');
+    } catch (e) {
+      tg?.showAlert(e instanceof Error ? e.message : String(e));
+    }
   });
   div.appendChild(btn);
   addCloseButton(div);
   return div;
 }
 
+// Plan modal: fit ready tasks into the time available (convex/planner.ts)
+function renderPlanModal(): HTMLElement {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <h3>🗓 Plan My Day</h3>
+    <label>Time available (min): <input id="planMinutes" type="number" min="15" step="15" value="120" /></label>
+    <p class="muted">Favour these life areas:</p>
+    <div class="plan-areas">${LIFE_AREAS.map(a => `<label><input type="checkbox" value="${a}" /> ${a}</label>`).join('')}</div>
+    <div id="planResult"></div>
+  `;
+  const result = div.querySelector('#planResult') as HTMLElement;
+  const btn = document.createElement('button');
+  btn.className = 'btn btn-primary full-width';
+  btn.textContent = '✨ Build Plan';
+  btn.addEventListener('click', async () => {
+    const minutes = Number((div.querySelector('#planMinutes') as HTMLInputElement).value);
+    const areas   = Array.from(div.querySelectorAll<HTMLInputElement>('.plan-areas input:checked')).map(i => i.value);
+    if (!(minutes > 0)) { tg?.showAlert('Enter how many minutes you have.'); return; }
+    btn.disabled = true;
+    try {
+      result.innerHTML = renderPlan(await api.planDay(minutes, areas));
+    } catch (e) {
+      tg?.showAlert(e instanceof Error ? e.message : String(e));
+    }
+    btn.disabled = false;
+  });
+  div.appendChild(btn);
+  addCloseButton(div);
+  return div;
+}
+
+function renderPlan(plan: DayPlan): string {
+  if (plan.items.length === 0) return '<p class="muted">Nothing ready fits in that time.</p>';
+  const items = plan.items.map(i => `
+    <li class="plan-item">
+      <span class="plan-time">+${i.startOffset}′</span>
+      <div>
+        <div>${i.activity}${i.dueToday ? ' <span class="badge overdue">⏰ today</span>' : ''}</div>
+        <div class="task-reason">⏱ ${i.minutes} min${i.reasons.length ? ' · ' + i.reasons.join(' · ') : ''}</div>
+      </div>
+    </li>`).join('');
+  const leftOut = plan.dueTodayLeftOut.length
+    ? `<p class="task-block">⚠️ Due today, not planned: ${plan.dueTodayLeftOut.map(a => a.activity).join(', ')}</p>`
+    : '';
+  const scale = plan.scale !== 1 ? `<p class="muted">Estimates ×${plan.scale.toFixed(2)} from your past tasks.</p>` : '';
+  return `
+    <p><strong>${plan.plannedMinutes}</strong> / ${plan.budgetMinutes} min planned</p>
+    <ol class="plan-list">${items}</ol>
+    ${leftOut}${scale}`;
+}
+
 // Breakdown modal
 function renderBreakdownModal(task: TaskRow): HTMLElement {
   const div = document.createElement('div');
@@ -488,11 +962,45 @@ function renderBreakdownModal(task: TaskRow): HTMLElement {
     const text = (div.querySelector('#subtasks') as HTMLTextAreaElement).value;
     const subtasks = text.split('\n').map(s => s.trim()).filter(Boolean).map(activity => ({ activity }));
     if (subtasks.length === 0) return;
-    const result = await api.breakdownTask(task.activityId, userId, subtasks);
+    try {
+      const result = await api.breakdownTask(task.activityId, subtasks);
+      closeModal();
+      tg?.showAlert(`Created ${result.createdIds.length} subtasks! Organise them from the bot inbox; this quest completes when they're done.`);
+      celebrateLevelUp(result.levelUp);
+      celebrateAchievements(result.achievements);
+      loadTabData('do');
+    } catch (e) {
+      tg?.showAlert(e instanceof Error ? e.message : String(e));
+    }
+  });
+  div.appendChild(btn);
+  addCloseButton(div);
+  return div;
+}
+
+// Abandon modal
+function renderAbandonModal(task: TaskRow): HTMLElement {
+  const div = document.createElement('div');
+  div.innerHTML = `
+    <h3>🗑 Abandon Quest</h3>
+    <p class="task-name">${task.activity}</p>
+    <p class="muted">Giving up costs HP — more for a main-quest than a void-filler. You can restore it later from the Evaluate tab.</p>
+    <label>Why? (optional) <input id="abandonReason" type="text" placeholder="e.g. no longer relevant" /></label>
+  `;
+
+  const btn = document.createElement('button');
+  btn.className = 'btn btn-primary full-width';
+  btn.textContent = '🗑 Abandon';
+  btn.addEventListener('click', async () => {
+    const reason = (div.querySelector('#abandonReason') as HTMLInputElement).value;
+    const result = await api.abandonTask(task.activityId, reason);
     closeModal();
-    tg?.WebApp?.showAlert?.(`Created ${result.createdIds.length} subtasks!`);
+    tg?.HapticFeedback?.notificationOccurred('warning');
+    showXPToast((result.knockedOut ? '💀 Knocked out!' : `🗑 Abandoned  ❤️ -${result.hpLost} HP` + (result.xpLost ? `  ✨ -${result.xpLost} XP` : '')) + rolledUpNote(result.rolledUp));
+    celebrateGoals(result.goalsCompleted);
     loadTabData('do');
   });
+
   div.appendChild(btn);
   addCloseButton(div);
   return div;
@@ -514,11 +1022,13 @@ function renderEvaluateModal(task: TaskRow): HTMLElement {
   btn.textContent = '✅ Submit Evaluation';
   btn.addEventListener('click', async () => {
     const feeling = (div.querySelector('#feelingAfter') as HTMLSelectElement).value;
-    const result = await api.evaluateTask(task.activityId, userId, feeling);
+    const result = await api.evaluateTask(task.activityId, feeling);
     closeModal();
     tg?.HapticFeedback?.notificationOccurred('success');
     // Show XP animation
     showXPToast(`+${result.evaluateXP} EvalXP  |  Total: ${result.totalXP} ✨`);
+    celebrateLevelUp(result.levelUp);
+    celebrateAchievements(result.achievements);
     // Remove from list
     state.completedTasks = state.completedTasks.filter(t => t.activityId !== task.activityId);
     render();
@@ -541,6 +1051,7 @@ function renderHabitLogModal(habit: HabitRow): HTMLElement {
   div.innerHTML = `
     <h3>📿 Log: ${habit.habit}</h3>
     <p>🔥 Current streak: <strong>${habit.streak}</strong></p>
+    <div class="habit-history" id="habitHistory"></div>
     <label>Feeling before: <select id="emotionB4">${EMOTION_LIST.map(e => `<option>${e}</option>`).join('')}</select></label>
     <label>Mental block (optional): <input id="mentalBlock" type="text" placeholder="e.g. all-or-nothing" /></label>
     <p><strong>Select difficulty:</strong></p>
@@ -550,6 +1061,15 @@ function renderHabitLogModal(habit: HabitRow): HTMLElement {
     <label>Feeling after: <select id="emotionAfter">${EMOTION_LIST.map(e => `<option>${e}</option>`).join('')}</select></label>
   `;
 
+  // Last few logs, filled in once they arrive
+  api.getHabitLogs(habit.rowIndex).then(logs => {
+    const box = div.querySelector('#habitHistory');
+    if (!box || logs.length === 0) return;
+    box.innerHTML = `<small>Recent:</small> ` + logs.slice(-7).map(l =>
+      `<span class="badge streak" title="${l.day} · ${l.feelingB4} → ${l.feelingAfter}">${l.difficulty}</span>`
+    ).join(' ');
+  }).catch(() => { /* history is optional */ });
+
   let selectedDiff = '';
   div.querySelectorAll('.btn-diff').forEach(btn => {
     btn.addEventListener('click', () => {
@@ -568,10 +1088,12 @@ function renderHabitLogModal(habit: HabitRow): HTMLElement {
     const emotionB4    = (div.querySelector('#emotionB4')    as HTMLSelectElement).value;
     const emotionAfter = (div.querySelector('#emotionAfter') as HTMLSelectElement).value;
     const mentalBlock  = (div.querySelector('#mentalBlock')  as HTMLInputElement).value;
-    await api.logHabit(habit.rowIndex, userId, selectedDiff, emotionB4, emotionAfter, mentalBlock);
+    const result = await api.logHabit(habit.rowIndex, selectedDiff, emotionB4, emotionAfter, mentalBlock);
     closeModal();
     tg?.HapticFeedback?.notificationOccurred('success');
-    showXPToast('🔥 Habit logged! Streak updated.');
+    showXPToast(`🔥 Habit logged! +${result.habitXP} XP  Streak: ${result.streak}`);
+    celebrateLevelUp(result.levelUp);
+    celebrateAchievements(result.achievements);
     loadTabData('habits');
   });
 
@@ -604,17 +1126,105 @@ function addCloseButton(parent: HTMLElement) {
 }
 
 // ---------------------------------------------------------------------------
-// Focus completion
+// Focus session controls
 // ---------------------------------------------------------------------------
 
+async function pauseFocus(activityId: string) {
+  try {
+    const result = await api.pauseFocus(activityId);
+    tg?.HapticFeedback?.impactOccurred('light');
+    showXPToast(`⏸ Paused — ${result.actualTime} min focused so far`);
+  } catch (e) {
+    tg?.showAlert(e instanceof Error ? e.message : String(e));
+  }
+  loadTabData('do');
+}
+
+async function resumeFocus(activityId: string) {
+  try {
+    await api.resumeFocus(activityId);
+    tg?.HapticFeedback?.impactOccurred('medium');
+  } catch (e) {
+    tg?.showAlert(e instanceof Error ? e.message : String(e));
+  }
+  loadTabData('do');
+}
+
+async function stopFocus(activityId: string) {
+  try {
+    const result = await api.stopFocus(activityId);
+    tg?.HapticFeedback?.impactOccurred('light');
+    showXPToast(`⏹ Stopped — ${result.actualTime} min kept on record`);
+  } catch (e) {
+    tg?.showAlert(e instanceof Error ? e.message : String(e));
+  }
+  loadTabData('do');
+}
+
 async function finishFocus(activityId: string) {
-  const result = await api.completeFocus(activityId, userId);
-  state.activeFocus = null;
+  const result = await api.completeFocus(activityId);
+  if ('minutesLeft' in result) {
+    tg?.HapticFeedback?.notificationOccurred('warning');
+    showXPToast(`🩹 ${result.minutesLeft} more min of focus to finish the recovery quest`);
+    return;
+  }
   tg?.HapticFeedback?.notificationOccurred('success');
-  showXPToast(`✅ Done!  +${result.doneXP} DoneXP  ❤️ HP: ${result.hp}`);
+  const hpNote = result.revived ? '🩹 Revived!' : result.knockedOut ? '💀 Knocked out!' : `❤️ HP: ${result.hp}`;
+  showXPToast(`✅ Done!  +${result.doneXP} DoneXP  ${hpNote}` + rolledUpNote(result.rolledUp));
+  celebrateLevelUp(result.levelUp);
+  celebrateGoals(result.goalsCompleted);
+  celebrateAchievements(result.achievements, result.goalsCompleted.length);
   loadTabData('do');
 }
 
+async function saveGoalRule(goalId: string, count: number, category: string) {
+  try {
+    const result = await api.setGoalRule(goalId, count, category);
+    if (result.completed) showXPToast(`🏆 Goal complete: ${result.completed.title}  +${result.completed.bonusXp} XP`);
+    else showXPToast(count > 0 ? '🎯 Completion rule saved' : '🎯 Completion rule cleared');
+    loadTabData('summary');
+  } catch (e) {
+    tg?.showAlert(e instanceof Error ? e.message : String(e));
+  }
+}
+
+async function restoreTask(activityId: string) {
+  try {
+    const result = await api.restoreTask(activityId);
+    tg?.HapticFeedback?.impactOccurred('light');
+    showXPToast(result.status === 'organized' ? '↩ Restored to your Do list' : '↩ Restored to your inbox');
+  } catch (e) {
+    tg?.showAlert(e instanceof Error ? e.message : String(e));
+  }
+  loadTabData('evaluate');
+}
+
+async function buyReward(rewardId: string) {
+  const reward = state.shop?.rewards.find(r => r.rewardId === rewardId);
+  if (!reward) return;
+  try {
+    const result = await api.redeemReward(rewardId);
+    tg?.HapticFeedback?.notificationOccurred('success');
+    showXPToast(`🎁 Enjoy: ${reward.title}!  💎 ${result.chrysolite} left`);
+  } catch (e) {
+    tg?.showAlert(e instanceof Error ? e.message : String(e));
+  }
+  loadTabData('summary');
+}
+
+async function revive(method: 'chrysolite' | 'recovery-quest') {
+  try {
+    const result = await api.revive(method);
+    tg?.HapticFeedback?.notificationOccurred('success');
+    showXPToast(method === 'chrysolite'
+      ? `🩹 Revived!  ❤️ HP: ${result.hp}`
+      : `🩹 Recovery quest ${result.activityId} added to your Do list`);
+  } catch (e) {
+    tg?.showAlert(e instanceof Error ? e.message : String(e));
+  }
+  loadTabData('summary');
+}
+
 // ---------------------------------------------------------------------------
 // Habit log opener
 // ---------------------------------------------------------------------------
@@ -627,6 +1237,33 @@ function openHabitLog(habit: HabitRow) {
 // XP toast notification
 // ---------------------------------------------------------------------------
 
+function celebrateLevelUp(levelUp: LevelUp | null) {
+  if (!levelUp) return;
+  tg?.HapticFeedback?.notificationOccurred('success');
+  const rankNote = levelUp.newRank ? `\nNew rank unlocked: ${levelUp.rank} 🏅` : '';
+  tg?.showAlert(`🎉 Level up! You reached level ${levelUp.to}.${rankNote}`);
+}
+
+// Toasts queued after the XP toast, like badges
+function celebrateGoals(goals: CompletedGoal[]) {
+  goals.forEach((g, i) => {
+    setTimeout(() => showXPToast(`🏆 Goal complete: ${g.title}  +${g.bonusXp} XP`), 3500 * (i + 1));
+  });
+}
+
+// Projects completed by their last subtask, appended to the toast
+function rolledUpNote(rolledUp: RolledUpProject[]): string {
+  return rolledUp.map(p => `  🏗 ${p.activityId} complete +${p.doneXP}`).join('');
+}
+
+// Shown after the XP toast so the two don't overlap; `after` skips the
+// slots already taken by goal toasts
+function celebrateAchievements(unlocked: UnlockedAchievement[], after = 0) {
+  unlocked.forEach((a, i) => {
+    setTimeout(() => showXPToast(`🏅 Badge unlocked: ${a.emoji} ${a.name}`), 3500 * (after + i + 1));
+  });
+}
+
 function showXPToast(message: string) {
   const toast = document.createElement('div');
   toast.className = 'xp-toast';
@@ -663,7 +1300,7 @@ async function init() {
 
   try {
     // Load summary for header
-    state.summary = await api.getSummary(userId);
+    state.summary = await api.getSummary();
     // Load initial tab
     await loadTabData(state.tab);
   } catch (e) {
@@ -5,7 +5,8 @@ export interface TaskRow {
   activity:     string;
   goal:         string;
   goalId:       string;
-  incup:        string;
+  incup:        string;    // INCUP case code, e.g. "IncUp"
+  incupTags:    string[];  // its dimension labels, e.g. ["Interesting", "Urgent"]
   lifeArea:     string;
   horizon:      string;
   exeType:      'task' | 'project' | 'habit' | string;
@@ -23,9 +24,41 @@ export interface TaskRow {
   evaluateXP:   number;
   totalXP:      number;
   dependsOn:    string;
+  parentId:     string;    // project this is a subtask of
+  blockedBy:    string[];  // open activityIds this is waiting on
   link:         string;
   timestamp:    string;
   completedOn:  string;
+  abandonedOn:  string;
+  abandonReason: string;
+  overdue:      boolean;  // deadline passed while still open
+  focusing:     boolean;  // a focus session is running right now
+}
+
+// GET /api/tasks/recommended: ready tasks ranked by what to do next
+export interface Recommendation {
+  activityId: string;
+  score:      number;
+  reasons:    string[];  // biggest signals first, e.g. ['due in 5h', 'main-quest']
+}
+
+// GET /api/plan: ready tasks that fit the time available, in order
+export interface PlanItem {
+  activityId:  string;
+  activity:    string;
+  minutes:     number;         // estimate scaled by the user's track record
+  estMinutes:  number | null;  // as entered; null = default focus length used
+  startOffset: number;         // minutes from the start of the plan
+  dueToday:    boolean;
+  reasons:     string[];
+}
+
+export interface DayPlan {
+  budgetMinutes:   number;
+  plannedMinutes:  number;
+  scale:           number;  // actual ÷ estimated minutes, from finished tasks
+  items:           PlanItem[];
+  dueTodayLeftOut: { activityId: string; activity: string }[];
 }
 
 export interface HabitRow {
@@ -40,6 +73,17 @@ export interface HabitRow {
   maxStreak: number;
 }
 
+export interface HabitLogRow {
+  loggedAt:     string;
+  day:          string;
+  difficulty:   string;
+  feelingB4:    string;
+  feelingAfter: string;
+  eDelta:       number;
+  mentalBlock:  string;
+  xp:           number;
+}
+
 export interface GoalRow {
   goalId:   string;
   title:    string;
@@ -49,11 +93,47 @@ export interface GoalRow {
   category: string;
 }
 
+export interface GoalProgress {
+  completedTasks: number;
+  totalTasks:     number;
+  xpEarned:       number;
+  timeSpent:      string;  // minutes
+  lastActivity:   string;
+}
+
+// A goal with the progress of its linked activities (GET /api/goals/progress).
+// The top-level figures are the goal's own; `rollup` adds its milestones'.
+export interface GoalProgressRow extends GoalRow, GoalProgress {
+  parentGoalId:   string;
+  rollup:         GoalProgress;
+  ruleCount:      number;  // 0 = no completion rule
+  ruleCategory:   string;  // '' = any category
+  ruleDone:       number;
+  completedOn:    string;
+  completionXP:   number;
+}
+
+// GET /api/goals/tree: milestones nested under their parent goal
+export interface GoalTreeRow extends GoalProgressRow {
+  children: GoalTreeRow[];
+}
+
+export interface CompletedGoal {
+  goalId:  string;
+  title:   string;
+  bonusXp: number;
+}
+
 export interface SummaryData {
   totalXP:       number;
   level:         number;
   rank:          string;
+  xpIntoLevel:   number;
+  xpToNextLevel: number;
+  levelProgress: number;
   hp:            number;
+  chrysolite:    number;
+  knockedOut:    boolean;
   capturedCount: number;
   readyCount:    number;
   doneCount:     number;
@@ -61,12 +141,59 @@ export interface SummaryData {
   goalCount:     number;
 }
 
+export interface RewardRow {
+  rewardId:    string;
+  title:       string;
+  description: string;
+  price:       number;
+}
+
+export interface RedemptionRow {
+  rewardId:   string;
+  title:      string;
+  price:      number;
+  redeemedAt: string;
+}
+
+export interface ShopData {
+  chrysolite:  number;
+  rewards:     RewardRow[];
+  redemptions: RedemptionRow[];
+}
+
+// A project completed because its last subtask closed
+export interface RolledUpProject {
+  activityId: string;
+  status:     string;
+  doneXP:     number;
+}
+
 export interface FocusResult {
   ok:         boolean;
   status:     string;
   actualTime: string;
   doneXP:     number;
   hp:         number;
+  knockedOut: boolean;
+  revived:    boolean;
+  rolledUp:   RolledUpProject[];
+  goalsCompleted: CompletedGoal[];
+  levelUp:    LevelUp | null;
+  achievements: UnlockedAchievement[];
+}
+
+// A recovery quest finished before its minimum focus time; it keeps running
+export interface RecoveryPending {
+  ok:          boolean;
+  status:      'in-progress';
+  minutesLeft: number;
+}
+
+export interface ReviveResult {
+  ok:          boolean;
+  hp?:         number;
+  chrysolite?: number;
+  activityId?: string;
 }
 
 export interface EvaluateResult {
@@ -75,9 +202,106 @@ export interface EvaluateResult {
   totalXP:    number;
   chrysolite: number;
   eDelta:     number;
+  levelUp:    LevelUp | null;
+  achievements: UnlockedAchievement[];
+}
+
+export interface HabitLogResult {
+  ok:      boolean;
+  habitXP: number;
+  streak:  number;
+  levelUp: LevelUp | null;
+  achievements: UnlockedAchievement[];
+}
+
+export interface UnlockedAchievement {
+  key:   string;
+  name:  string;
+  emoji: string;
 }
 
-export type Tab = 'do' | 'evaluate' | 'habits' | 'summary';
+export interface BadgeRow {
+  key:         string;
+  name:        string;
+  emoji:       string;
+  description: string;
+  target:      number;
+  current:     number;
+  progress:    number;
+  unlocked:    boolean;
+  unlockedAt:  string;
+}
+
+// Estimate vs actual minutes for a group of finished tasks
+export interface EstimateStats {
+  count:         number;
+  estMinutes:    number;
+  actualMinutes: number;
+  ratio:         number;  // actual ÷ estimated; above 1 = under-estimating
+  biasMinutes:   number;  // mean actual − estimate per task
+  spread:        number;  // std dev of the per-task ratio
+  onTarget:      number;  // share within ±20%, 0–1
+  correction:    number;  // multiply new estimates by this
+}
+
+export type EstimateDimension = 'category' | 'lifeArea' | 'exeType' | 'mentalBlock';
+
+export interface EstimationData {
+  overall: EstimateStats;
+  groups:  Record<EstimateDimension, (EstimateStats & { key: string })[]>;
+  suggestion: {
+    baseMinutes: number;
+    correction:  number;
+    basis:       string;  // category or life area it came from, or 'overall'
+    minutes:     number;
+  } | null;
+}
+
+export interface MoodWeek {
+  weekStart: string;         // Monday, YYYY-MM-DD
+  count:     number;
+  avgBefore: number | null;  // emotion score 0–10; null = nothing recorded
+  avgAfter:  number | null;
+  avgDelta:  number | null;
+}
+
+export type MoodDimension = 'category' | 'lifeArea' | 'habit';
+
+export interface MoodGroup {
+  key:          string;
+  count:        number;
+  avgDelta:     number;
+  liftedShare:  number;
+  drainedShare: number;
+  verdict:      'lifts' | 'drains' | 'mixed' | 'too few';
+}
+
+export interface MoodData {
+  trend:   MoodWeek[];
+  overall: { count: number; avgDelta: number | null };
+  groups:  Record<MoodDimension, MoodGroup[]>;
+}
+
+export interface WeeklyReview {
+  weekStart: string;  // Monday, YYYY-MM-DD
+  weekEnd:   string;  // Sunday
+  xp:        { total: number; byArea: { lifeArea: string; xp: number }[] };
+  quests:    { captured: number; completed: number; completedLate: number; abandoned: number; overdue: number };
+  lateItems:      { activityId: string; activity: string }[];
+  abandonedItems: { activityId: string; activity: string }[];
+  habits:     { habitId: string; name: string; sessions: number; streakBefore: number; streakAfter: number }[];
+  estimation: { count: number; ratio: number; biasMinutes: number; onTarget: number };
+  mood:       { count: number; avgAfter: number | null; previousAvgAfter: number | null; avgDelta: number | null };
+}
+
+export interface LevelUp {
+  from:    number;
+  to:      number;
+  rank:    string;
+  newRank: boolean;
+}
+
+export type Tab = 'do' | 'evaluate' | 'habits' | 'summary' | 'badges';
 
 export const EMOTION_LIST = [
   'joyful','excited','hopeful','calm','curious',
@@ -86,6 +310,15 @@ export const EMOTION_LIST = [
 
 export type Emotion = typeof EMOTION_LIST[number];
 
+export const LIFE_AREAS = [
+  'spiritual','physical','mental','financial','social','emotional'
+] as const;
+
+// Tags in convex/lib/incup.ts INCUP_DIMENSIONS order
+export const INCUP_TAGS = [
+  'Interesting','Novel','Challenging','Urgent','Pressure/Passion'
+] as const;
+
 export const CATEGORY_COLORS: Record<string, string> = {
   'main-quest':      '#6c63ff',
   'side-quest':      '#3ecf8e',
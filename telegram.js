@@ -67,6 +67,13 @@ export function replyKeyboard(rows, oneTime = true) {
   return { reply_markup: { keyboard: rows, one_time_keyboard: oneTime, resize_keyboard: true } };
 }
 
+// Messages go out with parse_mode HTML: anything a user typed must be escaped
+// first, or a stray "<" makes Telegram reject the whole message (same rule
+// as convex/lib/html.ts).
+export function escapeHtml(text) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
 // ---------------------------------------------------------------------------
 // Webhook secret verification
 // ---------------------------------------------------------------------------
@@ -136,6 +143,11 @@ async function routeMessage(msg) {
   if (text.startsWith('/evaluate')) { await flows.handleEvaluateFlow(msg);                 return; }
   if (text.startsWith('/habits'))   { await flows.handleHabitsMenu(msg);                   return; }
   if (text.startsWith('/summary'))  { await flows.sendDailySummary(chatId, userId);        return; }
+  if (text.startsWith('/quiet'))    { await flows.handleQuietHours(msg);                   return; }
+  if (text.startsWith('/wheel'))    { await flows.handleLifeWheel(msg);                    return; }
+  if (text.startsWith('/plan'))     { await flows.handlePlanDay(msg);                      return; }
+  if (text.startsWith('/recur'))    { await flows.handleRecurring(msg);                    return; }
+  if (text.startsWith('/review'))   { await flows.handleWeeklyReview(msg);                 return; }
 
   await flows.handleConversationState(msg);
 }
@@ -166,6 +178,11 @@ async function routeCallbackQuery(cq) {
   if (data.startsWith('SETUP_GUIDE:')) { await flows.handleSetupGuide(cq);       return; }
   if (data.startsWith('HABIT_LOG:'))   { await flows.handleHabitLog(cq);         return; }
   if (data.startsWith('HABIT_DIFF:'))  { await flows.handleHabitDiff(cq);        return; }
+  if (data.startsWith('REVIVE:'))      { await flows.handleRevive(cq);           return; }
+  if (data.startsWith('WHEEL:'))       { await flows.handleLifeWheelRating(cq);  return; }
+  if (data === 'WHEEL_GOALS')          { await flows.handleLifeWheelGoals(cq);   return; }
+  if (data.startsWith('RECUR:'))       { await flows.handleRecurringAction(cq);  return; }
+  if (data === 'REVIEW_NOW')           { await flows.sendWeeklyReview(chatId, userId, true); return; }
   if (data === 'DO_FLOW')   { await flows.handleDoFlow({ chat: { id: chatId }, from: { id: userId } });   return; }
   if (data === 'EVAL_FLOW') { await flows.handleEvaluateFlow({ chat: { id: chatId }, from: { id: userId } }); return; }
 }